@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetadataAnalyzer } from '../services/MetadataAnalyzer';
+import { RegistryIndexGenerator } from '../services/RegistryIndexGenerator';
+import { INDEX_FILE } from '../services/RegistryIndexService';
+import { RULES_FILE, SteeringRulesService } from '../services/SteeringRulesService';
+
+const USAGE = `Usage: node out/cli/generateIndex.js <registry folder> [--check] [--report <file>]
+
+Scans a registry checkout and writes its ${INDEX_FILE}. Rules in the registry's ${RULES_FILE}
+extend the built-in metadata rules.
+
+  --check          Don't write anything; exit with code 1 if the committed ${INDEX_FILE} is out of date
+  --report <file>  Write the report of documents missing metadata to a file instead of stdout`;
+
+/**
+ * Generate or check a registry's index.json from the command line
+ * @param args Command line arguments after the script name
+ * @returns Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+    let registryRoot: string | undefined;
+    let check = false;
+    let reportFile: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--check') {
+            check = true;
+        } else if (arg === '--report' && args[i + 1]) {
+            reportFile = args[++i];
+        } else if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else if (!arg.startsWith('-') && !registryRoot) {
+            registryRoot = arg;
+        } else {
+            console.error(USAGE);
+            return 2;
+        }
+    }
+
+    if (!registryRoot) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    // A registry can extend the metadata rules like a workspace does
+    const rulesService = new SteeringRulesService();
+    for (const problem of await rulesService.load(path.resolve(registryRoot))) {
+        console.warn(`${RULES_FILE} ${problem.location}: ${problem.message}`);
+    }
+
+    const generator = new RegistryIndexGenerator(undefined, new MetadataAnalyzer(rulesService));
+    const generated = await generator.generate(registryRoot);
+    const report = generator.formatReport(generated);
+    const indexPath = path.join(path.resolve(registryRoot), INDEX_FILE);
+
+    if (reportFile) {
+        await fs.writeFile(reportFile, report);
+    } else {
+        console.log(report);
+    }
+
+    if (check) {
+        const committed = await fs.readFile(indexPath, 'utf-8').catch(() => undefined);
+        if (committed !== generated.content) {
+            console.error(committed === undefined
+                ? `${INDEX_FILE} does not exist. Run without --check to generate it.`
+                : `${INDEX_FILE} is out of date. Run without --check to regenerate it.`);
+            return 1;
+        }
+        console.log(`${INDEX_FILE} is up to date`);
+        return 0;
+    }
+
+    await fs.writeFile(indexPath, generated.content);
+    console.log(`Wrote ${indexPath} with ${generated.entries.length} documents`);
+    return 0;
+}
+
+main(process.argv.slice(2))
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    });
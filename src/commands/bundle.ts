@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DocumentService } from '../services/DocumentService';
+import { ConfigurationService } from '../services/ConfigurationService';
+import { BUNDLE_EXTENSION, BundleService } from '../services/BundleService';
+import { ExtensionError, SourceConfig } from '../models/types';
+import { formatRef } from '../utils/format';
+
+/**
+ * Quick Pick item for a document source
+ */
+interface SourceQuickPickItem extends vscode.QuickPickItem {
+    source: SourceConfig;
+}
+
+/**
+ * Handle the export bundle command
+ * Snapshots a source's categories and documents into a bundle file for offline use
+ * @param documentService Document service instance
+ * @param configurationService Configuration service providing the source details
+ * @param sourceId Source to export (asked for when there are several)
+ */
+export async function exportBundle(
+    documentService: DocumentService,
+    configurationService: ConfigurationService,
+    sourceId?: string
+): Promise<void> {
+    try {
+        const loaded = new Set(documentService.getSources().map(source => source.id));
+        const sources = configurationService.getSources()
+            .filter(source => source.type !== 'bundle' && loaded.has(source.id));
+        const source = await pickSource(sources, sourceId);
+        if (!source) {
+            return;
+        }
+
+        const ref = source.ref || source.branch;
+        const defaultName = `${source.repository.split(/[\\/]/).pop()}-${formatRef(ref)}.${BUNDLE_EXTENSION}`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '', defaultName)),
+            filters: { 'Steering Docs Bundle': [BUNDLE_EXTENSION] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const manifest = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Exporting ${source.name}`,
+                cancellable: false
+            },
+            async progress => {
+                let reported = 0;
+                return new BundleService(documentService).exportBundle(
+                    source.id,
+                    {
+                        name: source.name,
+                        type: source.type,
+                        repository: source.repository,
+                        branch: source.branch,
+                        ref: source.ref
+                    },
+                    target.fsPath,
+                    (done, total) => {
+                        const percent = Math.floor(done / total * 100);
+                        progress.report({ message: `${done} of ${total} documents`, increment: percent - reported });
+                        reported = percent;
+                    }
+                );
+            }
+        );
+
+        vscode.window.showInformationMessage(
+            `Exported ${manifest.documentCount} documents from ${source.name} (${formatRef(ref)}) to ${path.basename(target.fsPath)}`
+        );
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to export bundle: ${message}`);
+        }
+    }
+}
+
+/**
+ * Handle the import bundle command
+ * Copies a bundle into extension storage and adds it as a read-only source
+ * @param context Extension context providing the storage folder
+ * @param documentService Document service instance
+ * @param configurationService Configuration service used to add the source
+ */
+export async function importBundle(
+    context: vscode.ExtensionContext,
+    documentService: DocumentService,
+    configurationService: ConfigurationService
+): Promise<void> {
+    try {
+        const selection = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Steering Docs Bundle': [BUNDLE_EXTENSION] },
+            openLabel: 'Import'
+        });
+        if (!selection || selection.length === 0) {
+            return;
+        }
+
+        const storageFolder = path.join(context.globalStorageUri.fsPath, 'bundles');
+        const { manifest, path: bundlePath } = await new BundleService(documentService)
+            .importBundle(selection[0].fsPath, storageFolder);
+
+        const origin = manifest.source;
+        const ref = origin.ref || origin.branch;
+        const name = `${origin.name} (offline)`;
+
+        // Offer to browse the bundle only, e.g. on a machine without network access
+        const hasOtherSources = configurationService.getSources().some(source => source.type !== 'bundle');
+        let replace = false;
+        if (hasOtherSources) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: '$(circle-slash) Use only this bundle', description: 'for machines without network access', replace: true },
+                    { label: '$(add) Add as another source', description: 'keep the configured sources', replace: false }
+                ],
+                { placeHolder: `Imported ${origin.repository} at ${formatRef(ref)} (${new Date(manifest.createdAt).toLocaleDateString()})` }
+            );
+            if (!choice) {
+                return;
+            }
+            replace = choice.replace;
+        }
+
+        // The configuration change listener loads the new source
+        await configurationService.addBundleSource(bundlePath, name, replace);
+
+        vscode.window.showInformationMessage(
+            `${name} added with ${manifest.documentCount} documents from ${origin.repository} at ${formatRef(ref)}`
+        );
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to import bundle: ${message}`);
+        }
+    }
+}
+
+/**
+ * Choose the source to export
+ * @param sources Sources that can be exported
+ * @param sourceId Source passed to the command, if any
+ * @returns The chosen source, or undefined if there is none or the user cancelled
+ */
+async function pickSource(sources: SourceConfig[], sourceId?: string): Promise<SourceConfig | undefined> {
+    if (sourceId) {
+        return sources.find(source => source.id === sourceId);
+    }
+
+    if (sources.length === 0) {
+        vscode.window.showInformationMessage('None of the configured sources can be exported');
+        return undefined;
+    }
+
+    if (sources.length === 1) {
+        return sources[0];
+    }
+
+    const items: SourceQuickPickItem[] = sources.map(source => ({
+        label: source.name,
+        description: source.ref ? `pinned to ${formatRef(source.ref)}` : source.branch,
+        source
+    }));
+    const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Select the registry to export' });
+    return selection?.source;
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { ContentCache } from '../services/ContentCache';
+import { ContentCacheEntry } from '../models/types';
+import { formatAge, formatSize } from '../utils/format';
+
+/**
+ * Quick Pick item for a cached document, or the clear action when entry is undefined
+ */
+interface ContentCacheQuickPickItem extends vscode.QuickPickItem {
+    entry?: ContentCacheEntry;
+}
+
+/**
+ * Handle the manage document cache command
+ * Lists the cached document bodies, opens a selected one and offers to clear the cache
+ * @param contentCache Content cache of downloaded documents
+ */
+export async function manageContentCache(contentCache: ContentCache): Promise<void> {
+    try {
+        const [stats, entries] = await Promise.all([contentCache.getStats(), contentCache.getEntries()]);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(
+                stats.maxSize === 0
+                    ? 'The document cache is disabled (steeringDocs.contentCacheSize is 0)'
+                    : 'The document cache is empty'
+            );
+            return;
+        }
+
+        const now = Date.now();
+        const items: ContentCacheQuickPickItem[] = [
+            {
+                label: '$(trash) Clear Document Cache',
+                description: `${stats.entries} documents, ${formatSize(stats.size)}`
+            },
+            { label: 'Cached documents', kind: vscode.QuickPickItemKind.Separator },
+            ...entries.map(entry => ({
+                label: entry.path ?? entry.sha.substring(0, 7),
+                description: formatSize(entry.size),
+                detail: `${entry.sha.substring(0, 7)} - used ${formatAge(now - entry.lastUsed)}`,
+                entry
+            }))
+        ];
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: `${formatSize(stats.size)} of ${formatSize(stats.maxSize)} used - select a document to open it`,
+            matchOnDescription: true
+        });
+        if (!selection) {
+            return;
+        }
+
+        if (!selection.entry) {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete ${stats.entries} cached documents? Previewing and installing them will need network access again.`,
+                { modal: true },
+                'Clear'
+            );
+            if (answer === 'Clear') {
+                await contentCache.clear();
+                vscode.window.showInformationMessage('Document cache cleared');
+            }
+            return;
+        }
+
+        const content = await contentCache.get(selection.entry.sha);
+        if (content === undefined) {
+            vscode.window.showWarningMessage(`${selection.label} is no longer cached`);
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to manage the document cache: ${message}`);
+    }
+}
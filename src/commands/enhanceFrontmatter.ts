@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { FrontmatterEnhancer } from '../services/FrontmatterEnhancer';
+import { MetadataAnalyzer } from '../services/MetadataAnalyzer';
+import { ConfigurationService } from '../services/ConfigurationService';
+import { SteeringRulesService } from '../services/SteeringRulesService';
+import { EnhancementSummary, ExtensionError, MergeOptions } from '../models/types';
+import { pickRegistryFolder } from './generateIndex';
+
+/**
+ * Quick Pick item for a merge option
+ */
+interface MergeOptionQuickPickItem extends vscode.QuickPickItem {
+    option: keyof MergeOptions;
+}
+
+/**
+ * Handle the enhance frontmatter command
+ * Shows a dry-run diff of the metadata that would be added to every document of a
+ * registry checkout, then writes the changes once confirmed
+ * @param configurationService Configuration service providing local folder sources
+ * @param rulesService Metadata rules of the workspace
+ */
+export async function enhanceFrontmatter(
+    configurationService: ConfigurationService,
+    rulesService?: SteeringRulesService
+): Promise<void> {
+    try {
+        const registryRoot = await pickRegistryFolder(configurationService, 'Select the registry folder to enhance');
+        if (!registryRoot) {
+            return;
+        }
+
+        const options = await pickMergeOptions();
+        if (!options) {
+            return;
+        }
+
+        const enhancer = new FrontmatterEnhancer(undefined, new MetadataAnalyzer(rulesService));
+        const preview = await runEnhancement(enhancer, registryRoot, options, true);
+        await showSummary(enhancer, preview);
+
+        if (preview.changes.length === 0) {
+            vscode.window.showInformationMessage(
+                `All ${preview.scanned} documents already have their metadata${describeErrors(preview)}`
+            );
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(
+            `${preview.changes.length} of ${preview.scanned} documents would change${describeErrors(preview)}`,
+            'Apply Changes'
+        );
+        if (choice !== 'Apply Changes') {
+            return;
+        }
+
+        const summary = await runEnhancement(enhancer, registryRoot, options, false);
+        const written = summary.results.filter(result => result.success).length;
+        const failed = summary.results.length - written;
+        if (failed > 0 || summary.errors.length > 0) {
+            await showSummary(enhancer, summary);
+            vscode.window.showWarningMessage(
+                `Updated ${written} documents${failed > 0 ? `, ${failed} could not be written` : ''}${describeErrors(summary)}`
+            );
+        } else {
+            vscode.window.showInformationMessage(`Updated ${written} documents`);
+        }
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to enhance frontmatter: ${message}`);
+        }
+    }
+}
+
+/**
+ * Ask how analyzed metadata is merged with existing frontmatter
+ * @returns Merge options, or undefined if the user cancelled
+ */
+async function pickMergeOptions(): Promise<MergeOptions | undefined> {
+    const items: MergeOptionQuickPickItem[] = [
+        {
+            label: 'Keep existing values',
+            description: 'only fill in applicableTo, requiredDependencies and filePatterns where missing',
+            option: 'preserveExisting',
+            picked: true
+        },
+        {
+            label: 'Replace existing tags',
+            description: 'instead of adding analyzed tags to them',
+            option: 'overwriteTags',
+            picked: false
+        }
+    ];
+
+    const selection = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Choose how analyzed metadata is merged into the frontmatter'
+    });
+    if (!selection) {
+        return undefined;
+    }
+
+    return {
+        preserveExisting: selection.some(item => item.option === 'preserveExisting'),
+        overwriteTags: selection.some(item => item.option === 'overwriteTags')
+    };
+}
+
+/**
+ * Run the enhancement with a progress notification
+ * @param enhancer Frontmatter enhancer
+ * @param registryRoot Root folder of the registry
+ * @param options Merge options
+ * @param dryRun Only compute the changes
+ * @returns Enhancement summary
+ */
+function runEnhancement(
+    enhancer: FrontmatterEnhancer,
+    registryRoot: string,
+    options: MergeOptions,
+    dryRun: boolean
+): Thenable<EnhancementSummary> {
+    return vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: dryRun ? 'Analyzing documents...' : 'Updating frontmatter...',
+            cancellable: false
+        },
+        () => enhancer.enhance(registryRoot, options, dryRun)
+    );
+}
+
+/**
+ * Open the summary and diffs of an enhancement run in an editor
+ * @param enhancer Frontmatter enhancer
+ * @param summary Enhancement summary
+ */
+async function showSummary(enhancer: FrontmatterEnhancer, summary: EnhancementSummary): Promise<void> {
+    if (summary.changes.length === 0 && summary.errors.length === 0) {
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        content: enhancer.formatSummary(summary),
+        language: 'diff'
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Describe the documents that were skipped because of errors
+ * @param summary Enhancement summary
+ * @returns Message suffix, or an empty string if there were no errors
+ */
+function describeErrors(summary: EnhancementSummary): string {
+    const count = summary.errors.length;
+    if (count === 0) {
+        return '';
+    }
+    return count === 1
+        ? '; 1 document was skipped because of an error (see the summary)'
+        : `; ${count} documents were skipped because of errors (see the summary)`;
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MetadataAnalyzer } from '../services/MetadataAnalyzer';
+import { RegistryIndexGenerator } from '../services/RegistryIndexGenerator';
+import { INDEX_FILE } from '../services/RegistryIndexService';
+import { ConfigurationService } from '../services/ConfigurationService';
+import { SteeringRulesService } from '../services/SteeringRulesService';
+import { ExtensionError } from '../models/types';
+
+/**
+ * Handle the generate registry index command
+ * Scans a local registry checkout, writes its index.json and reports documents missing metadata
+ * @param configurationService Configuration service providing local folder sources
+ * @param rulesService Metadata rules of the workspace
+ */
+export async function generateRegistryIndex(
+    configurationService: ConfigurationService,
+    rulesService?: SteeringRulesService
+): Promise<void> {
+    try {
+        const registryRoot = await pickRegistryFolder(configurationService);
+        if (!registryRoot) {
+            return;
+        }
+
+        const generator = new RegistryIndexGenerator(undefined, new MetadataAnalyzer(rulesService));
+        const generated = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Generating ${INDEX_FILE}...`,
+                cancellable: false
+            },
+            () => generator.generate(registryRoot)
+        );
+
+        const indexUri = vscode.Uri.file(path.join(registryRoot, INDEX_FILE));
+        await vscode.workspace.fs.writeFile(indexUri, Buffer.from(generated.content, 'utf-8'));
+
+        const summary = `Wrote ${INDEX_FILE} with ${generated.entries.length} documents`;
+        if (generated.gaps.length === 0) {
+            vscode.window.showInformationMessage(summary);
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `${summary}. ${generated.gaps.length} documents are missing a description, version or tags.`,
+            'Show Report'
+        );
+        if (choice === 'Show Report') {
+            const document = await vscode.workspace.openTextDocument({
+                content: generator.formatReport(generated),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to generate ${INDEX_FILE}: ${message}`);
+        }
+    }
+}
+
+/**
+ * Choose a registry checkout to work on
+ * Offers the configured local folder sources and the workspace folders, or a folder picker
+ * @param configurationService Configuration service providing local folder sources
+ * @param purpose Placeholder text of the quick pick
+ * @returns Absolute path of the registry folder, or undefined if the user cancelled
+ */
+export async function pickRegistryFolder(
+    configurationService: ConfigurationService,
+    purpose: string = `Select the registry folder to write ${INDEX_FILE} for`
+): Promise<string | undefined> {
+    const candidates = new Map<string, string>();
+    for (const source of configurationService.getSources()) {
+        if (source.type === 'local') {
+            candidates.set(source.repository, source.name);
+        }
+    }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        if (!candidates.has(folder.uri.fsPath)) {
+            candidates.set(folder.uri.fsPath, folder.name);
+        }
+    }
+
+    const browse = { label: '$(folder-opened) Browse...', description: '', folder: undefined as string | undefined };
+    const items = [
+        ...Array.from(candidates, ([folder, name]) => ({ label: name, description: folder, folder })),
+        browse
+    ];
+
+    const selection = items.length > 1
+        ? await vscode.window.showQuickPick(items, { placeHolder: purpose })
+        : browse;
+    if (!selection) {
+        return undefined;
+    }
+    if (selection.folder) {
+        return selection.folder;
+    }
+
+    const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Select Registry'
+    });
+    return picked?.[0]?.fsPath;
+}
@@ -2,9 +2,33 @@ import * as vscode from "vscode";
 import { DocumentService } from "../services/DocumentService";
 import { SteeringDocsTreeProvider } from "../providers/SteeringDocsTreeProvider";
 import { RecommendationPanel } from "../providers/RecommendationPanel";
-import { DocumentMetadata, ExtensionError } from "../models/types";
+import {
+  DocumentMetadata,
+  ErrorCode,
+  ExtensionError,
+  RegistryIndexReport,
+  RegistryReleaseInfo,
+  SteeringRulesProblem,
+} from "../models/types";
+import { formatRef } from "../utils/format";
 import { RecommendationService } from "../services/RecommendationService";
 import { recommendDocuments } from "./recommendDocuments";
+import { selectRegistryVersion } from "./selectRegistryVersion";
+import { ConfigurationService } from "../services/ConfigurationService";
+import { TokenStore } from "../services/TokenStore";
+import { RULES_FILE, SteeringRulesService } from "../services/SteeringRulesService";
+import { clearToken, setToken } from "./manageToken";
+import { exportBundle, importBundle } from "./bundle";
+import { generateRegistryIndex } from "./generateIndex";
+import { enhanceFrontmatter } from "./enhanceFrontmatter";
+import { manageContentCache } from "./contentCache";
+import { manageCache } from "./manageCache";
+import { syncSteeringDocs } from "./sync";
+import { offerUpdateReview, reviewUpdate } from "./reviewUpdate";
+import { UPDATE_PREVIEW_SCHEME, UpdatePreviewProvider } from "../providers/UpdatePreviewProvider";
+import { ContentCache } from "../services/ContentCache";
+import { CacheManager } from "../services/CacheManager";
+import { WorkspaceAnalysisCache } from "../services/WorkspaceAnalysisCache";
 
 /**
  * Register all command handlers
@@ -14,7 +38,13 @@ export function registerCommands(
   documentService: DocumentService,
   treeProvider: SteeringDocsTreeProvider,
   recommendationService?: RecommendationService,
-  recommendationPanel?: RecommendationPanel
+  recommendationPanel?: RecommendationPanel,
+  configurationService: ConfigurationService = new ConfigurationService(),
+  tokenStore?: TokenStore,
+  rulesService?: SteeringRulesService,
+  contentCache?: ContentCache,
+  cacheManager?: CacheManager,
+  workspaceAnalysisCache?: WorkspaceAnalysisCache
 ): void {
   // Refresh command
   context.subscriptions.push(
@@ -101,6 +131,19 @@ export function registerCommands(
     )
   );
 
+  // Review update command, comparing the installed document with the incoming content
+  const updatePreviewProvider = new UpdatePreviewProvider();
+  context.subscriptions.push(
+    updatePreviewProvider,
+    vscode.workspace.registerTextDocumentContentProvider(UPDATE_PREVIEW_SCHEME, updatePreviewProvider),
+    vscode.commands.registerCommand(
+      "steeringDocs.reviewUpdate",
+      async (item?: any) => {
+        await reviewUpdate(documentService, treeProvider, updatePreviewProvider, item);
+      }
+    )
+  );
+
   // Check updates command
   context.subscriptions.push(
     vscode.commands.registerCommand("steeringDocs.checkUpdates", async () => {
@@ -135,6 +178,113 @@ export function registerCommands(
     )
   );
 
+  // Select registry version command (from the palette or a source node)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "steeringDocs.selectRegistryVersion",
+      async (item?: any) => {
+        await selectRegistryVersion(
+          documentService,
+          configurationService,
+          item?.type === "source" ? item.id : undefined
+        );
+      }
+    )
+  );
+
+  // Verify source access command
+  context.subscriptions.push(
+    vscode.commands.registerCommand("steeringDocs.verifySources", async () => {
+      await handleVerifySources(documentService);
+    })
+  );
+
+  // Token commands (from the palette, a source node, the status bar item and rate limit errors)
+  if (tokenStore) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "steeringDocs.setToken",
+        async (item?: any) => {
+          await setToken(
+            tokenStore,
+            configurationService.getSources(),
+            item?.type === "source" ? item.id : undefined
+          );
+        }
+      )
+    );
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "steeringDocs.clearToken",
+        async (item?: any) => {
+          await clearToken(
+            tokenStore,
+            configurationService.getSources(),
+            item?.type === "source" ? item.id : undefined
+          );
+        }
+      )
+    );
+  }
+
+  // Offline bundle commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "steeringDocs.exportBundle",
+      async (item?: any) => {
+        await exportBundle(
+          documentService,
+          configurationService,
+          item?.type === "source" ? item.id : undefined
+        );
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("steeringDocs.importBundle", async () => {
+      await importBundle(context, documentService, configurationService);
+    })
+  );
+
+  // Install the documents recorded in the lockfile
+  context.subscriptions.push(
+    vscode.commands.registerCommand("steeringDocs.sync", async () => {
+      await syncSteeringDocs(documentService, treeProvider);
+    })
+  );
+
+  // Cache inspection commands
+  if (contentCache) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand("steeringDocs.manageContentCache", async () => {
+        await manageContentCache(contentCache);
+      })
+    );
+  }
+
+  if (cacheManager) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand("steeringDocs.manageCache", async () => {
+        await manageCache(cacheManager, treeProvider, contentCache, workspaceAnalysisCache);
+      })
+    );
+  }
+
+  // Tools for registry maintainers
+  context.subscriptions.push(
+    vscode.commands.registerCommand("steeringDocs.generateIndex", async () => {
+      await generateRegistryIndex(configurationService, rulesService);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("steeringDocs.enhanceFrontmatter", async () => {
+      await enhanceFrontmatter(configurationService, rulesService);
+    })
+  );
+
   // Recommend documents command
   if (recommendationService && recommendationPanel) {
     console.log('[Commands] Registering steeringDocs.recommend command');
@@ -149,6 +299,154 @@ export function registerCommands(
   }
 }
 
+/**
+ * Show an extension error, offering to set a token when the API rate limit was hit
+ * @param error Error to show
+ * @param message Message to show instead of the error message
+ */
+function showExtensionError(error: ExtensionError, message: string = error.message): void {
+  if (error.code !== ErrorCode.RATE_LIMITED) {
+    vscode.window.showErrorMessage(message);
+    return;
+  }
+
+  vscode.window
+    .showErrorMessage(message, "Set Token")
+    .then((choice) => {
+      if (choice === "Set Token") {
+        vscode.commands.executeCommand("steeringDocs.setToken");
+      }
+    });
+}
+
+/**
+ * Offer to switch pinned sources to newer registry releases
+ * @param releases Newer releases found for pinned sources
+ */
+export function showRegistryReleases(releases: RegistryReleaseInfo[]): void {
+  for (const release of releases) {
+    vscode.window
+      .showInformationMessage(
+        `A newer registry release ${release.latestRelease} is available for ${release.sourceName} (pinned to ${formatRef(release.pinnedRef)})`,
+        "Change Version"
+      )
+      .then((choice) => {
+        if (choice === "Change Version") {
+          vscode.commands.executeCommand("steeringDocs.selectRegistryVersion", {
+            type: "source",
+            id: release.sourceId,
+          });
+        }
+      });
+  }
+}
+
+/**
+ * Report problems found in a source's index.json
+ * @param report Problems of the index and whether it was still used
+ */
+export function showIndexProblems(report: RegistryIndexReport): void {
+  const count = report.problems.length;
+  const message = report.usedIndex
+    ? `index.json of ${report.sourceName} has ${count === 1 ? "1 invalid entry" : `${count} invalid entries`}`
+    : `index.json of ${report.sourceName} can't be used (${report.problems[0].message}); documents were loaded by scanning the registry instead`;
+
+  vscode.window
+    .showWarningMessage(message, "Show Details")
+    .then(async (choice) => {
+      if (choice !== "Show Details") {
+        return;
+      }
+
+      const lines = report.problems.map(
+        (problem) => `${problem.location}: ${problem.message}`
+      );
+      const document = await vscode.workspace.openTextDocument({
+        content: [`Problems in index.json of ${report.sourceName}`, "", ...lines].join("\n"),
+        language: "plaintext",
+      });
+      await vscode.window.showTextDocument(document, { preview: true });
+    });
+}
+
+/**
+ * Report problems found in the workspace's steering rules file
+ * @param problems Problems of the rules file; the invalid parts were ignored
+ */
+export function showRulesProblems(problems: SteeringRulesProblem[]): void {
+  const count = problems.length;
+  vscode.window
+    .showWarningMessage(
+      `${RULES_FILE} has ${count === 1 ? "1 problem" : `${count} problems`}; the invalid rules were ignored`,
+      "Show Details"
+    )
+    .then(async (choice) => {
+      if (choice !== "Show Details") {
+        return;
+      }
+
+      const lines = problems.map(
+        (problem) => `${problem.location}: ${problem.message}`
+      );
+      const document = await vscode.workspace.openTextDocument({
+        content: [`Problems in ${RULES_FILE}`, "", ...lines].join("\n"),
+        language: "plaintext",
+      });
+      await vscode.window.showTextDocument(document, { preview: true });
+    });
+}
+
+/**
+ * Handle verify sources command
+ * Checks that every source's repository and raw content can be read with its token
+ */
+async function handleVerifySources(
+  documentService: DocumentService
+): Promise<void> {
+  const sources = documentService
+    .getSources()
+    .filter((source) => source.client.verifyAccess);
+
+  if (sources.length === 0) {
+    vscode.window.showInformationMessage("No remote sources to verify");
+    return;
+  }
+
+  const results = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Verifying source access...",
+      cancellable: false,
+    },
+    async () => {
+      const lines: { ok: boolean; text: string }[] = [];
+      for (const source of sources) {
+        try {
+          const description = await source.client.verifyAccess!();
+          lines.push({ ok: true, text: `${source.name}: ${description}` });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          lines.push({ ok: false, text: `${source.name}: ${message}` });
+        }
+      }
+      return lines;
+    }
+  );
+
+  const failures = results.filter((result) => !result.ok);
+  if (failures.length === 0) {
+    vscode.window.showInformationMessage(
+      results.map((result) => result.text).join("\n")
+    );
+  } else {
+    vscode.window.showErrorMessage(
+      failures.map((result) => result.text).join("\n"),
+      { modal: true }
+    );
+  }
+}
+
 /**
  * Handle refresh command
  */
@@ -164,11 +462,9 @@ async function handleRefresh(
     },
     async () => {
       try {
-        // Clear cache
-        documentService.clearCache();
-
-        // Refetch document list (this will populate cache again)
-        await documentService.fetchDocumentList();
+        // Refetch the document list from every source; the tree keeps showing
+        // the previous list until the new one arrives
+        await documentService.revalidate();
 
         // Refresh tree view
         treeProvider.refresh();
@@ -179,9 +475,13 @@ async function handleRefresh(
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "Unknown error";
-        vscode.window.showErrorMessage(
-          `Failed to refresh documents: ${message}`
-        );
+        if (error instanceof ExtensionError) {
+          showExtensionError(error, `Failed to refresh documents: ${message}`);
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to refresh documents: ${message}`
+          );
+        }
       }
     }
   );
@@ -210,7 +510,7 @@ async function handlePreview(
         cancellable: false,
       },
       async () => {
-        return await documentService.fetchDocumentContent(doc.path);
+        return await documentService.fetchDocumentContent(doc.path, doc.source, doc.sha);
       }
     );
 
@@ -230,7 +530,7 @@ async function handlePreview(
     await vscode.commands.executeCommand("markdown.showPreview", document.uri);
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(`Failed to preview document: ${message}`);
@@ -269,7 +569,7 @@ async function handleInstall(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(`Failed to install document: ${message}`);
@@ -308,7 +608,7 @@ async function handleQuickLoad(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(
@@ -333,8 +633,8 @@ async function handleSetInclusionMode(
       return;
     }
 
-    // Use installed document path if available, otherwise use metadata path
-    const docPath: string = item.installed?.path || item.metadata.path;
+    // Use installed document path if available, otherwise use the local path for the metadata
+    const docPath: string = item.installed?.path || documentService.getLocalPath(item.metadata);
 
     await documentService.setInclusionMode(docPath, mode);
 
@@ -342,7 +642,7 @@ async function handleSetInclusionMode(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(
@@ -366,8 +666,8 @@ async function handleSetInclusionFileMatch(
       return;
     }
 
-    // Use installed document path if available, otherwise use metadata path
-    const docPath: string = item.installed?.path || item.metadata.path;
+    // Use installed document path if available, otherwise use the local path for the metadata
+    const docPath: string = item.installed?.path || documentService.getLocalPath(item.metadata);
 
     // Prompt for file match pattern
     const pattern = await vscode.window.showInputBox({
@@ -391,7 +691,7 @@ async function handleSetInclusionFileMatch(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(
@@ -432,7 +732,7 @@ async function handleUpdate(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(`Failed to update document: ${message}`);
@@ -460,6 +760,10 @@ async function handleCheckUpdates(
         // Refresh tree view to show update indicators
         treeProvider.refresh();
 
+        // Newer registry releases are a separate, explicit choice
+        const releases = await documentService.checkForRegistryReleases();
+        showRegistryReleases(releases);
+
         // Show summary notification
         if (updates.length === 0) {
           vscode.window.showInformationMessage("All documents are up to date");
@@ -468,14 +772,18 @@ async function handleCheckUpdates(
             updates.length === 1
               ? "1 document has an update available"
               : `${updates.length} documents have updates available`;
-          vscode.window.showInformationMessage(message);
+          offerUpdateReview(message, updates);
         }
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "Unknown error";
-        vscode.window.showErrorMessage(
-          `Failed to check for updates: ${message}`
-        );
+        if (error instanceof ExtensionError) {
+          showExtensionError(error, `Failed to check for updates: ${message}`);
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to check for updates: ${message}`
+          );
+        }
       }
     }
   );
@@ -524,7 +832,7 @@ async function handleToggleActive(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(`Failed to toggle active state: ${message}`);
@@ -553,7 +861,8 @@ async function handleToggle(
 
     // Check if document is currently installed using path-based matching
     const installedDocs = await documentService.getInstalledDocuments();
-    const installedDoc = installedDocs.find((d) => d.path === doc.path);
+    const localPath = documentService.getLocalPath(doc);
+    const installedDoc = installedDocs.find((d) => d.path === localPath);
     const isInstalled = !!installedDoc;
 
     if (isInstalled) {
@@ -586,7 +895,7 @@ async function handleToggle(
     treeProvider.refresh();
   } catch (error) {
     if (error instanceof ExtensionError) {
-      vscode.window.showErrorMessage(error.message);
+      showExtensionError(error);
     } else {
       const message = error instanceof Error ? error.message : "Unknown error";
       vscode.window.showErrorMessage(`Failed to toggle document: ${message}`);
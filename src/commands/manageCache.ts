@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CacheManager } from '../services/CacheManager';
+import { ContentCache } from '../services/ContentCache';
+import { WorkspaceAnalysisCache } from '../services/WorkspaceAnalysisCache';
+import { SteeringDocsTreeProvider } from '../providers/SteeringDocsTreeProvider';
+import { CacheNamespaceStats, WorkspaceAnalysisCacheState } from '../models/types';
+import { formatAge, formatDuration, formatSize } from '../utils/format';
+import { manageContentCache } from './contentCache';
+
+/**
+ * Display names of the cache namespaces
+ */
+const NAMESPACE_LABELS: Record<string, string> = {
+    documentList: 'Document lists',
+    blobMetadata: 'Parsed document metadata',
+    http: 'HTTP responses'
+};
+
+/**
+ * Quick Pick item for a cache and what selecting it does
+ */
+interface CacheQuickPickItem extends vscode.QuickPickItem {
+    target?: { type: 'namespace'; stats: CacheNamespaceStats } | { type: 'content' | 'workspace' | 'all' };
+}
+
+/**
+ * Handle the manage cache command
+ * Lists the cache namespaces, the document content cache and the workspace analysis,
+ * and clears the selected one
+ * @param cacheManager Cache of document lists, metadata and HTTP responses
+ * @param treeProvider Tree provider refreshed after cached document lists are cleared
+ * @param contentCache Content cache of downloaded documents
+ * @param workspaceAnalysisCache Cache of workspace analysis results
+ */
+export async function manageCache(
+    cacheManager: CacheManager,
+    treeProvider: SteeringDocsTreeProvider,
+    contentCache?: ContentCache,
+    workspaceAnalysisCache?: WorkspaceAnalysisCache
+): Promise<void> {
+    try {
+        const now = Date.now();
+        const items: CacheQuickPickItem[] = [];
+
+        const namespaces = cacheManager.getStats();
+        if (namespaces.length > 0) {
+            items.push({ label: 'Extension state', kind: vscode.QuickPickItemKind.Separator });
+        }
+        for (const stats of namespaces) {
+            items.push({
+                label: `$(database) ${NAMESPACE_LABELS[stats.namespace] ?? stats.namespace}`,
+                description: `${stats.namespace} - ${stats.entries} entries, ${formatSize(stats.size)}`,
+                detail: describeNamespace(stats, now),
+                target: { type: 'namespace', stats }
+            });
+        }
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (contentCache || (workspaceAnalysisCache && workspaceRoot)) {
+            items.push({ label: 'Other caches', kind: vscode.QuickPickItemKind.Separator });
+        }
+        if (contentCache) {
+            const stats = await contentCache.getStats();
+            items.push({
+                label: '$(file) Downloaded documents',
+                description: `${stats.entries} documents, ${formatSize(stats.size)} of ${formatSize(stats.maxSize)}`,
+                detail: 'Document bodies by blob SHA, used for offline preview and install - select to inspect',
+                target: { type: 'content' }
+            });
+        }
+
+        if (workspaceAnalysisCache && workspaceRoot) {
+            items.push({
+                label: '$(search) Workspace analysis',
+                description: path.basename(workspaceRoot),
+                detail: describeWorkspaceAnalysis(workspaceAnalysisCache.getState(workspaceRoot), now),
+                target: { type: 'workspace' }
+            });
+        }
+
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+        items.push({ label: '$(trash) Clear All', target: { type: 'all' } });
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a cache to clear it',
+            matchOnDescription: true
+        });
+        const target = selection?.target;
+        if (!target) {
+            return;
+        }
+
+        switch (target.type) {
+            case 'namespace': {
+                const label = (NAMESPACE_LABELS[target.stats.namespace] ?? target.stats.namespace).toLowerCase();
+                const answer = await vscode.window.showWarningMessage(
+                    `Clear ${target.stats.entries} cached ${label}?`,
+                    { modal: true },
+                    'Clear'
+                );
+                if (answer !== 'Clear') {
+                    return;
+                }
+
+                const removed = await cacheManager.clearNamespace(target.stats.namespace);
+                if (target.stats.namespace === 'documentList') {
+                    treeProvider.refresh();
+                }
+                vscode.window.showInformationMessage(`Cleared ${removed} cached ${label}`);
+                return;
+            }
+
+            case 'content':
+                await manageContentCache(contentCache!);
+                return;
+
+            case 'workspace':
+                workspaceAnalysisCache!.clear(workspaceRoot!);
+                vscode.window.showInformationMessage('Workspace analysis cleared; the next recommendation analyzes the workspace again');
+                return;
+
+            case 'all': {
+                const answer = await vscode.window.showWarningMessage(
+                    'Clear all cached document lists, metadata, responses and downloaded documents? They will be downloaded again on the next refresh.',
+                    { modal: true },
+                    'Clear All'
+                );
+                if (answer !== 'Clear All') {
+                    return;
+                }
+
+                await cacheManager.clear();
+                await contentCache?.clear();
+                workspaceAnalysisCache?.clearAll();
+                treeProvider.refresh();
+                vscode.window.showInformationMessage('All caches cleared');
+                return;
+            }
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to manage the cache: ${message}`);
+    }
+}
+
+/**
+ * Describe the age and expiry of a namespace's entries
+ * @param stats Usage of the namespace
+ * @param now Current time in milliseconds since the epoch
+ * @returns Detail line such as "Stored 2 h ago - TTL 1 h"
+ */
+function describeNamespace(stats: CacheNamespaceStats, now: number): string {
+    const age = stats.entries === 1
+        ? `Stored ${formatAge(now - stats.newest)}`
+        : `Oldest stored ${formatAge(now - stats.oldest)}, newest ${formatAge(now - stats.newest)}`;
+    const ttl = stats.ttl !== undefined ? `TTL ${formatDuration(stats.ttl * 1000)}` : 'no expiry';
+    const expired = stats.expired > 0 ? ` - ${stats.expired} expired (kept for offline use)` : '';
+    return `${age} - ${ttl}${expired}`;
+}
+
+/**
+ * Describe the cached analysis of the current workspace
+ * @param state Cached analysis
+ * @param now Current time in milliseconds since the epoch
+ * @returns Detail line with the age, expiry and detected project
+ */
+function describeWorkspaceAnalysis(state: WorkspaceAnalysisCacheState, now: number): string {
+    if (!state.context || state.analyzedAt === undefined || state.expiresAt === undefined) {
+        return 'Not analyzed yet, or the result expired';
+    }
+
+    const detected = [...state.context.languages, ...state.context.frameworks.map(framework => framework.name)];
+    const parts = [
+        `Analyzed ${formatAge(now - state.analyzedAt)}`,
+        `expires in ${formatDuration(state.expiresAt - now)}`,
+        `${state.context.projectType}${detected.length > 0 ? `: ${detected.join(', ')}` : ''}`
+    ];
+    if (state.watching) {
+        parts.push('cleared when package.json or tsconfig.json change');
+    }
+    return parts.join(' - ');
+}
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { TokenStore } from '../services/TokenStore';
+import { isGitHubDotCom } from '../services/GitHubClient';
+import { SourceConfig } from '../models/types';
+
+/**
+ * Quick Pick item for a document source
+ */
+interface SourceQuickPickItem extends vscode.QuickPickItem {
+    source: SourceConfig;
+}
+
+/**
+ * Handle the set token command
+ * Stores a personal access token for a source, or signs in with GitHub for github.com sources;
+ * GitHub Enterprise Server sources need a token of their instance
+ * @param tokenStore Token store instance
+ * @param sources Configured sources
+ * @param sourceId Source to change (asked for when there are several remote sources)
+ */
+export async function setToken(tokenStore: TokenStore, sources: SourceConfig[], sourceId?: string): Promise<void> {
+    try {
+        const source = await pickSource(tokenStore, sources, 'Select the source to set a token for', sourceId);
+        if (!source) {
+            return;
+        }
+
+        if (source.type === 'github' && isGitHubDotCom(source)) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: '$(github) Sign in with GitHub', description: 'use your VS Code GitHub account', signIn: true },
+                    { label: '$(key) Enter a personal access token', signIn: false }
+                ],
+                { placeHolder: `How should ${source.name} authenticate?` }
+            );
+            if (!choice) {
+                return;
+            }
+
+            if (choice.signIn) {
+                const account = await tokenStore.useGitHubSession(source.id);
+                vscode.window.showInformationMessage(`${source.name} now uses the GitHub account ${account}`);
+                return;
+            }
+        }
+
+        const token = await vscode.window.showInputBox({
+            prompt: `Access token for ${source.name}`,
+            placeHolder: source.type === 'gitlab' ? 'glpat-...' : source.type === 'github' ? 'ghp_...' : 'Access token',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Enter a token'
+        });
+        if (!token) {
+            return;
+        }
+
+        await tokenStore.setToken(source.id, token.trim());
+        vscode.window.showInformationMessage(`Token saved for ${source.name}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to set token: ${message}`);
+    }
+}
+
+/**
+ * Handle the clear token command
+ * @param tokenStore Token store instance
+ * @param sources Configured sources
+ * @param sourceId Source to change (asked for when several sources have a token)
+ */
+export async function clearToken(tokenStore: TokenStore, sources: SourceConfig[], sourceId?: string): Promise<void> {
+    try {
+        const withToken = sources.filter(source => tokenStore.hasToken(source.id));
+        if (withToken.length === 0) {
+            vscode.window.showInformationMessage('None of the configured sources has a stored token');
+            return;
+        }
+
+        const source = await pickSource(tokenStore, withToken, 'Select the source to clear the token of', sourceId);
+        if (!source) {
+            return;
+        }
+
+        await tokenStore.clearToken(source.id);
+        vscode.window.showInformationMessage(`Token cleared for ${source.name}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to clear token: ${message}`);
+    }
+}
+
+/**
+ * Choose the source to change
+ * @param tokenStore Token store instance
+ * @param sources Sources to choose from
+ * @param placeHolder Quick Pick placeholder
+ * @param sourceId Source passed to the command, if any
+ * @returns The chosen source, or undefined if there is none or the user cancelled
+ */
+async function pickSource(
+    tokenStore: TokenStore,
+    sources: SourceConfig[],
+    placeHolder: string,
+    sourceId?: string
+): Promise<SourceConfig | undefined> {
+    const remoteSources = sources.filter(source => source.type !== 'local' && source.type !== 'bundle');
+
+    if (sourceId) {
+        return remoteSources.find(source => source.id === sourceId);
+    }
+
+    if (remoteSources.length === 0) {
+        vscode.window.showInformationMessage('None of the configured sources uses a token');
+        return undefined;
+    }
+
+    if (remoteSources.length === 1) {
+        return remoteSources[0];
+    }
+
+    const items: SourceQuickPickItem[] = remoteSources.map(source => ({
+        label: source.name,
+        description: tokenStore.isGitHubSession(source.id)
+            ? 'signed in with GitHub'
+            : tokenStore.hasToken(source.id) ? 'token set' : 'no token',
+        source
+    }));
+    const selection = await vscode.window.showQuickPick(items, { placeHolder });
+    return selection?.source;
+}
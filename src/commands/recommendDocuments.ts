@@ -211,7 +211,8 @@ async function bulkActivateDocuments(
 
             for (const scored of documents) {
                 // Skip if already installed
-                const isInstalled = installedDocs.some(d => d.path === scored.document.path);
+                const localPath = documentService.getLocalPath(scored.document);
+                const isInstalled = installedDocs.some(d => d.path === localPath);
                 if (isInstalled) {
                     continue;
                 }
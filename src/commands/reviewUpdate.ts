@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { DocumentService } from '../services/DocumentService';
+import { SteeringDocsTreeProvider } from '../providers/SteeringDocsTreeProvider';
+import { UpdatePreviewProvider } from '../providers/UpdatePreviewProvider';
+import { DocumentMetadata, ExtensionError, UpdateInfo } from '../models/types';
+
+/**
+ * Handle the review update command
+ * Opens a diff between the installed document and the content the update would write,
+ * and applies the update only if the user accepts it
+ * @param documentService Document service preparing and applying the update
+ * @param treeProvider Tree provider refreshed after the update is applied
+ * @param previewProvider Provider of the incoming content shown in the diff
+ * @param item Tree item of the document, or undefined to pick one of the available updates
+ */
+export async function reviewUpdate(
+    documentService: DocumentService,
+    treeProvider: SteeringDocsTreeProvider,
+    previewProvider: UpdatePreviewProvider,
+    item?: { metadata?: DocumentMetadata }
+): Promise<void> {
+    try {
+        const doc = item?.metadata ?? await pickUpdate(documentService);
+        if (!doc) {
+            return;
+        }
+
+        const update = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Preparing the update of ${doc.name}...`,
+                cancellable: false
+            },
+            () => documentService.prepareUpdate(doc)
+        );
+        if (update.content === update.currentContent) {
+            vscode.window.showInformationMessage(`Document "${doc.name}" is already up to date`);
+            return;
+        }
+
+        const previewUri = previewProvider.show(documentService.getLocalPath(doc), update.content);
+        let answer: string | undefined;
+        try {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                update.fileUri,
+                previewUri,
+                `${doc.name}: Installed ↔ Version ${doc.version}`,
+                { preview: true }
+            );
+
+            const question = `Update "${doc.name}" to version ${doc.version}?`;
+            if (update.discardsLocalChanges) {
+                answer = await vscode.window.showWarningMessage(
+                    `${question} Your local changes can't be merged and will be lost.`,
+                    'Accept',
+                    'Reject'
+                );
+            } else {
+                const note = update.conflicts > 0
+                    ? ` ${update.conflicts} conflicting changes will be written with conflict markers.`
+                    : update.merged ? ' Your local changes are merged in.' : '';
+                answer = await vscode.window.showInformationMessage(`${question}${note}`, 'Accept', 'Reject');
+            }
+        } finally {
+            await closeDiff(previewUri);
+            previewProvider.release(previewUri);
+        }
+
+        if (answer !== 'Accept') {
+            return;
+        }
+
+        await documentService.applyUpdate(update);
+        treeProvider.refresh();
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to review the update: ${message}`);
+        }
+    }
+}
+
+/**
+ * Report available updates with an action to review them
+ * @param message Notification text
+ * @param updates Available updates
+ */
+export function offerUpdateReview(message: string, updates: UpdateInfo[]): void {
+    const action = updates.length === 1 ? 'Review Update' : 'Review Updates';
+    vscode.window.showInformationMessage(message, action).then(choice => {
+        if (choice === action) {
+            // A single update opens directly, several are picked from a list
+            vscode.commands.executeCommand(
+                'steeringDocs.reviewUpdate',
+                updates.length === 1 ? { metadata: updates[0].document } : undefined
+            );
+        }
+    });
+}
+
+/**
+ * Choose one of the available updates
+ * @param documentService Document service checking for updates
+ * @returns New version of the chosen document, or undefined if there is none or the user cancelled
+ */
+async function pickUpdate(documentService: DocumentService): Promise<DocumentMetadata | undefined> {
+    const updates = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checking for updates...',
+            cancellable: false
+        },
+        () => documentService.checkForUpdates()
+    );
+    if (updates.length === 0) {
+        vscode.window.showInformationMessage('All documents are up to date');
+        return undefined;
+    }
+    if (updates.length === 1) {
+        return updates[0].document;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+        updates.map(update => ({
+            label: update.document.name,
+            description: `${update.currentVersion} → ${update.newVersion}`,
+            detail: documentService.getLocalPath(update.document),
+            document: update.document
+        })),
+        { placeHolder: 'Select a document to review its update' }
+    );
+    return selection?.document;
+}
+
+/**
+ * Close the diff editors showing a preview
+ * @param previewUri URI of the incoming content
+ */
+async function closeDiff(previewUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff
+            && tab.input.modified.toString() === previewUri.toString());
+    if (tabs.length > 0) {
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { DocumentService, DocumentSource } from '../services/DocumentService';
+import { ConfigurationService } from '../services/ConfigurationService';
+import { ExtensionError, SourceRef } from '../models/types';
+import { formatRef } from '../utils/format';
+
+/**
+ * Quick Pick item for a registry version
+ */
+interface RefQuickPickItem extends vscode.QuickPickItem {
+    ref?: string;
+    isCommit?: boolean;
+}
+
+/**
+ * Quick Pick item for a document source
+ */
+interface SourceQuickPickItem extends vscode.QuickPickItem {
+    source: DocumentSource;
+}
+
+/**
+ * Handle the select registry version command
+ * Lets the user pin a source to a release, tag or commit SHA, or follow its branch again
+ * @param documentService Document service instance
+ * @param configurationService Configuration service used to store the pinned ref
+ * @param sourceId Source to change (asked for when several sources support versions)
+ */
+export async function selectRegistryVersion(
+    documentService: DocumentService,
+    configurationService: ConfigurationService,
+    sourceId?: string
+): Promise<void> {
+    try {
+        const source = await pickSource(documentService, sourceId);
+        if (!source || !source.client.listRefs) {
+            return;
+        }
+
+        const refs = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Loading versions of ${source.name}...`,
+                cancellable: false
+            },
+            async () => source.client.listRefs!()
+        );
+
+        const branch = configurationService.getSources().find(config => config.id === source.id)?.branch || 'main';
+        const selection = await vscode.window.showQuickPick(createRefItems(refs, branch, source.ref), {
+            placeHolder: source.ref
+                ? `${source.name} is pinned to ${formatRef(source.ref)}`
+                : `${source.name} follows the ${branch} branch`,
+            matchOnDescription: true
+        });
+        if (!selection) {
+            return;
+        }
+
+        let ref = selection.ref;
+        if (selection.isCommit) {
+            ref = await vscode.window.showInputBox({
+                prompt: 'Full commit SHA to pin the registry to',
+                placeHolder: '40-character commit SHA',
+                validateInput: value => /^[0-9a-f]{40}$/i.test(value.trim())
+                    ? undefined
+                    : 'Enter the full 40-character commit SHA'
+            });
+            if (!ref) {
+                return;
+            }
+            ref = ref.trim().toLowerCase();
+        }
+
+        if (ref === source.ref) {
+            return;
+        }
+
+        // The configuration change listener reloads the source with the new ref
+        await configurationService.setSourceRef(source.id, ref);
+
+        vscode.window.showInformationMessage(ref
+            ? `${source.name} is now pinned to ${formatRef(ref)}`
+            : `${source.name} now follows the ${branch} branch`);
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to change registry version: ${message}`);
+        }
+    }
+}
+
+/**
+ * Choose the source to change
+ * @param documentService Document service instance
+ * @param sourceId Source passed to the command, if any
+ * @returns The chosen source, or undefined if there is none or the user cancelled
+ */
+async function pickSource(documentService: DocumentService, sourceId?: string): Promise<DocumentSource | undefined> {
+    const sources = documentService.getSources().filter(source => source.client.listRefs);
+
+    if (sourceId) {
+        return sources.find(source => source.id === sourceId);
+    }
+
+    if (sources.length === 0) {
+        vscode.window.showInformationMessage('None of the configured sources has versions to choose from');
+        return undefined;
+    }
+
+    if (sources.length === 1) {
+        return sources[0];
+    }
+
+    const items: SourceQuickPickItem[] = sources.map(source => ({
+        label: source.name,
+        description: source.ref ? `pinned to ${formatRef(source.ref)}` : 'follows branch',
+        source
+    }));
+    const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Select a registry' });
+    return selection?.source;
+}
+
+/**
+ * Build the version Quick Pick items
+ * @param refs Releases and tags of the registry
+ * @param branch Branch the source follows when not pinned
+ * @param currentRef Currently pinned ref
+ * @returns Items for following the branch, each ref, and entering a commit SHA
+ */
+function createRefItems(refs: SourceRef[], branch: string, currentRef?: string): RefQuickPickItem[] {
+    const items: RefQuickPickItem[] = [
+        {
+            label: `$(git-branch) Follow ${branch}`,
+            description: currentRef ? 'latest documents' : 'current'
+        }
+    ];
+
+    for (const ref of refs) {
+        const details = [
+            ref.type === 'release' ? 'release' : 'tag',
+            ref.prerelease ? 'pre-release' : undefined,
+            ref.name === currentRef ? 'current' : undefined
+        ].filter(Boolean);
+
+        items.push({
+            label: `${ref.type === 'release' ? '$(package)' : '$(tag)'} ${ref.name}`,
+            description: [ref.title, details.join(', ')].filter(Boolean).join(' · '),
+            detail: ref.publishedAt ? `Published ${new Date(ref.publishedAt).toLocaleDateString()}` : undefined,
+            ref: ref.name
+        });
+    }
+
+    items.push({
+        label: '$(git-commit) Pin to a commit SHA...',
+        isCommit: true
+    });
+
+    return items;
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { DocumentService } from '../services/DocumentService';
+import { FrontmatterService } from '../services/FrontmatterService';
+import { LOCKFILE } from '../services/LockfileService';
+import { LockfileSyncService } from '../services/LockfileSyncService';
+import { SteeringDocsTreeProvider } from '../providers/SteeringDocsTreeProvider';
+import { ExtensionError, SyncOptions, SyncReport } from '../models/types';
+
+/**
+ * Handle the sync command
+ * Installs exactly the documents, versions and inclusion modes recorded in the lockfile,
+ * asking before documents with local changes are overwritten and before documents missing
+ * from the lockfile are removed
+ * @param documentService Document service fetching the locked content
+ * @param treeProvider Tree provider refreshed after syncing
+ */
+export async function syncSteeringDocs(
+    documentService: DocumentService,
+    treeProvider: SteeringDocsTreeProvider
+): Promise<void> {
+    try {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            vscode.window.showErrorMessage('Open a workspace folder to sync steering documents');
+            return;
+        }
+
+        const syncService = new LockfileSyncService(documentService, new FrontmatterService());
+        const plan = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Reading ${LOCKFILE}...`,
+                cancellable: false
+            },
+            () => syncService.plan(workspaceRoot)
+        );
+
+        const options: SyncOptions = { overwriteModified: false, removeUnlocked: false };
+        if (plan.changes.length > 0) {
+            const count = (action: string) => plan.changes.filter(change => change.action === action).length;
+            const summary = `Sync will add ${count('add')}, update ${count('update')} and remove ${count('remove')} documents.`;
+            const modified = plan.changes.filter(change => change.modified).map(change => change.localPath);
+
+            const answer = modified.length > 0
+                ? await vscode.window.showWarningMessage(
+                    `${summary} These documents have local changes: ${modified.join(', ')}`,
+                    { modal: true },
+                    'Overwrite Local Changes',
+                    'Keep Local Changes'
+                )
+                : await vscode.window.showInformationMessage(summary, { modal: true }, 'Sync');
+            if (!answer) {
+                return;
+            }
+            options.overwriteModified = answer === 'Overwrite Local Changes';
+
+            // Documents missing from the lockfile may have been installed before it existed
+            const unlocked = plan.changes
+                .filter(change => change.action === 'remove' && (options.overwriteModified || !change.modified))
+                .map(change => change.localPath);
+            if (unlocked.length > 0) {
+                const removal = await vscode.window.showWarningMessage(
+                    `These installed documents aren't in ${LOCKFILE}: ${unlocked.join(', ')}. `
+                        + 'They may have been installed before the lockfile existed.',
+                    { modal: true },
+                    'Remove Them',
+                    'Keep Them'
+                );
+                if (!removal) {
+                    return;
+                }
+                options.removeUnlocked = removal === 'Remove Them';
+            }
+        }
+
+        const report = await syncService.apply(workspaceRoot, plan, options);
+        treeProvider.refresh();
+        await showSyncReport(report, syncService);
+    } catch (error) {
+        if (error instanceof ExtensionError) {
+            vscode.window.showErrorMessage(error.message);
+        } else {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to sync steering documents: ${message}`);
+        }
+    }
+}
+
+/**
+ * Summarize a sync, offering the full report
+ * @param report Outcome of the sync
+ * @param syncService Service formatting the report
+ */
+async function showSyncReport(report: SyncReport, syncService: LockfileSyncService): Promise<void> {
+    const changed = report.added.length + report.updated.length + report.removed.length;
+    const summary = changed === 0 && report.skipped.length === 0
+        ? `All ${report.unchanged} documents match ${LOCKFILE}`
+        : `Synced steering documents: ${report.added.length} added, ${report.updated.length} updated, `
+            + `${report.removed.length} removed, ${report.skipped.length} skipped`;
+
+    const choice = report.skipped.length > 0
+        ? await vscode.window.showWarningMessage(summary, 'Show Report')
+        : await vscode.window.showInformationMessage(summary, ...(changed > 0 ? ['Show Report'] : []));
+    if (choice === 'Show Report') {
+        const document = await vscode.workspace.openTextDocument({
+            content: syncService.formatReport(report),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+}
@@ -1,30 +1,78 @@
 import * as vscode from 'vscode';
-import { GitHubClient } from './services/GitHubClient';
+import * as path from 'path';
 import { CacheManager } from './services/CacheManager';
+import { ContentCache } from './services/ContentCache';
+import { CACHE_SCHEMAS } from './models/cacheSchemas';
 import { FrontmatterService } from './services/FrontmatterService';
-import { DocumentService } from './services/DocumentService';
+import { DocumentService, DocumentSource } from './services/DocumentService';
+import { ConfigurationService } from './services/ConfigurationService';
+import { SourceProviderFactory } from './services/SourceProviderFactory';
+import { TokenStore } from './services/TokenStore';
+import { isGitHubDotCom } from './services/GitHubClient';
 import { SteeringDocsTreeProvider } from './providers/SteeringDocsTreeProvider';
 import { RecommendationPanel } from './providers/RecommendationPanel';
-import { registerCommands } from './commands';
+import { RateLimitStatusBar } from './providers/RateLimitStatusBar';
+import { registerCommands, showIndexProblems, showRegistryReleases, showRulesProblems } from './commands';
+import { offerUpdateReview } from './commands/reviewUpdate';
 import { RecommendationService } from './services/RecommendationService';
 import { WorkspaceAnalyzer } from './services/WorkspaceAnalyzer';
 import { WorkspaceAnalysisCache } from './services/WorkspaceAnalysisCache';
 import { DocumentMatcher } from './services/DocumentMatcher';
+import { RULES_FILE, SteeringRulesService } from './services/SteeringRulesService';
+import { LOCKFILE } from './services/LockfileService';
+import { formatRef } from './utils/format';
+import { SourceConfig } from './models/types';
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
     console.log('Kiro Steering Documents Browser is now active');
 
     // Get configuration
     const config = vscode.workspace.getConfiguration('steeringDocs');
-    const repository = config.get<string>('repository', 'mikeartee/kiro-steering-docs');
-    const branch = config.get<string>('branch', 'main');
-    const githubToken = config.get<string>('githubToken', '');
+    const configurationService = new ConfigurationService();
+    const sourceConfigs = configurationService.getSources();
 
-    // Initialize services
-    const githubClient = new GitHubClient(repository, branch, githubToken || undefined);
-    const cacheManager = new CacheManager(context.globalState);
+    // Load tokens from secret storage, moving any tokens still kept in settings
+    const tokenStore = new TokenStore(context.secrets);
+    context.subscriptions.push(tokenStore);
+    await loadTokens(tokenStore, sourceConfigs);
+    await migrateSettingTokens(tokenStore, configurationService);
+
+    // Initialize services - one provider per configured source
+    const cacheManager = new CacheManager(context.globalState, CACHE_SCHEMAS);
+    const migration = await cacheManager.migrate();
+    if (migration.migrated > 0 || migration.discarded > 0) {
+        console.log(`Cache migrated: ${migration.migrated} entries upgraded, ${migration.discarded} discarded`);
+    }
+    const providerFactory = new SourceProviderFactory(cacheManager, () => configurationService.getNetworkSettings());
+    const createSource = (source: SourceConfig): DocumentSource => ({
+        id: source.id,
+        name: source.name,
+        ref: source.ref,
+        repository: source.repository,
+        branch: source.branch,
+        // The github.com sign-in is never sent to other hosts, even if a source was moved to one after signing in
+        client: providerFactory.create(
+            source,
+            () => tokenStore.getToken(source.id, source.type === 'github' && isGitHubDotCom(source))
+        )
+    });
+    let sourceKeys = sourceConfigs.map(getSourceKey);
+    let sources = sourceConfigs.map(createSource);
     const frontmatterService = new FrontmatterService();
-    const documentService = new DocumentService(githubClient, cacheManager, frontmatterService);
+    const contentCache = new ContentCache(
+        path.join(context.globalStorageUri.fsPath, 'content'),
+        configurationService.getContentCacheSize()
+    );
+    const documentService = new DocumentService(
+        sources,
+        cacheManager,
+        frontmatterService,
+        configurationService.getCacheTimeout(),
+        contentCache
+    );
+
+    // Report invalid entries in a registry's index.json instead of silently dropping them
+    context.subscriptions.push(documentService.onDidFindIndexProblems(showIndexProblems));
 
     // Create and register tree view provider
     const treeProvider = new SteeringDocsTreeProvider(documentService);
@@ -34,10 +82,104 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(treeView);
 
+    // Show pinned registry versions in the view header
+    treeView.description = describePinnedSources(sources);
+
+    // Show when the documents were last refreshed, and update the tree in place once a
+    // background refresh of an expired document list completes
+    const updateTreeMessage = () => {
+        treeView.message = treeProvider.getStatusMessage();
+    };
+    context.subscriptions.push(treeProvider.onDidLoadDocuments(updateTreeMessage));
+    context.subscriptions.push(documentService.onDidChangeDocumentListState(state => {
+        if (!state.refreshing) {
+            treeProvider.refresh();
+        }
+        updateTreeMessage();
+    }));
+    const messageTimer = setInterval(updateTreeMessage, 60 * 1000);
+    context.subscriptions.push({ dispose: () => clearInterval(messageTimer) });
+
+    // Reload the tree when a local folder source changes on disk
+    let sourceWatchers = documentService.watchSources(() => treeProvider.refresh());
+    context.subscriptions.push({ dispose: () => sourceWatchers.forEach(watcher => watcher.dispose()) });
+
+    // Reload the tree when the lockfile changes, e.g. after pulling a teammate's installs
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (workspaceRoot) {
+        const lockfileWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, LOCKFILE));
+        lockfileWatcher.onDidChange(() => treeProvider.refresh());
+        lockfileWatcher.onDidCreate(() => treeProvider.refresh());
+        lockfileWatcher.onDidDelete(() => treeProvider.refresh());
+        context.subscriptions.push(lockfileWatcher);
+    }
+
+    // Reload the tree with the new token - it may grant access to more documents
+    context.subscriptions.push(tokenStore.onDidChange(() => {
+        documentService.clearCache();
+        treeProvider.refresh();
+    }));
+
+    // Show the remaining API quota in the status bar
+    const rateLimitStatusBar = new RateLimitStatusBar(sources);
+    context.subscriptions.push(rateLimitStatusBar);
+
+    // Apply settings changes without reloading the window
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+        // Proxy and TLS settings are read on every request; just retry loading the tree
+        if (event.affectsConfiguration('http') || event.affectsConfiguration('steeringDocs.caCertificates')) {
+            treeProvider.refresh();
+        }
+
+        if (!event.affectsConfiguration('steeringDocs')) {
+            return;
+        }
+
+        try {
+            if (event.affectsConfiguration('steeringDocs.cacheTimeout')) {
+                documentService.setCacheTimeout(configurationService.getCacheTimeout());
+                treeProvider.refresh();
+            }
+
+            if (event.affectsConfiguration('steeringDocs.contentCacheSize')) {
+                await contentCache.setMaxSize(configurationService.getContentCacheSize());
+            }
+
+            // Load the tokens of added sources and move tokens that were just entered in settings
+            const updatedConfigs = configurationService.getSources();
+            await loadTokens(tokenStore, updatedConfigs);
+            if (updatedConfigs.some(source => source.token)) {
+                await migrateSettingTokens(tokenStore, configurationService, true);
+            }
+
+            // Keep the clients (and cached documents) of sources whose settings didn't change
+            const updatedKeys = updatedConfigs.map(getSourceKey);
+            if (updatedKeys.join('\n') === sourceKeys.join('\n')) {
+                return;
+            }
+
+            sources = updatedConfigs.map((source, index) => {
+                const unchanged = sourceKeys.indexOf(updatedKeys[index]);
+                return unchanged >= 0 ? sources[unchanged] : createSource(source);
+            });
+            sourceKeys = updatedKeys;
+
+            await documentService.setSources(sources);
+            sourceWatchers.forEach(watcher => watcher.dispose());
+            sourceWatchers = documentService.watchSources(() => treeProvider.refresh());
+            rateLimitStatusBar.setSources(sources);
+            treeView.description = describePinnedSources(sources);
+            treeProvider.refresh();
+        } catch (error) {
+            console.error('Failed to apply configuration change:', error);
+        }
+    }));
+
     // Initialize recommendation services
-    const workspaceAnalyzer = new WorkspaceAnalyzer();
+    const rulesService = new SteeringRulesService();
+    const workspaceAnalyzer = new WorkspaceAnalyzer(rulesService);
     const workspaceAnalysisCache = new WorkspaceAnalysisCache(workspaceAnalyzer);
-    const documentMatcher = new DocumentMatcher();
+    const documentMatcher = new DocumentMatcher(rulesService);
     const recommendationService = new RecommendationService(
         documentService,
         workspaceAnalysisCache,
@@ -50,8 +192,25 @@ export function activate(context: vscode.ExtensionContext) {
         dispose: () => workspaceAnalysisCache.dispose()
     });
 
+    // Load the workspace's metadata and detection rules, and reload them when the file changes
+    const loadRules = async () => {
+        const problems = await rulesService.load(workspaceRoot);
+        workspaceAnalysisCache.clearAll();
+        if (problems.length > 0) {
+            showRulesProblems(problems);
+        }
+    };
+    await loadRules();
+    if (workspaceRoot) {
+        const rulesWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, RULES_FILE));
+        rulesWatcher.onDidChange(loadRules);
+        rulesWatcher.onDidCreate(loadRules);
+        rulesWatcher.onDidDelete(loadRules);
+        context.subscriptions.push(rulesWatcher);
+    }
+
     // Register all command handlers
-    registerCommands(context, documentService, treeProvider, recommendationService, recommendationPanel);
+    registerCommands(context, documentService, treeProvider, recommendationService, recommendationPanel, configurationService, tokenStore, rulesService, contentCache, cacheManager, workspaceAnalysisCache);
 
     // Optionally trigger auto-check for updates
     const autoCheckUpdates = config.get<boolean>('autoCheckUpdates', true);
@@ -63,12 +222,84 @@ export function activate(context: vscode.ExtensionContext) {
                 const message = updates.length === 1
                     ? '1 steering document has an update available'
                     : `${updates.length} steering documents have updates available`;
-                vscode.window.showInformationMessage(message);
+                offerUpdateReview(message, updates);
             }
         }).catch(error => {
             // Silently fail - don't bother user on activation
             console.error('Failed to check for updates on activation:', error);
         });
+
+        documentService.checkForRegistryReleases()
+            .then(showRegistryReleases)
+            .catch(error => console.error('Failed to check for registry releases on activation:', error));
+    }
+}
+
+/**
+ * Describe the pinned registry versions for the tree view header
+ * @param sources Document sources
+ * @returns Pinned refs, or undefined if no source is pinned
+ */
+function describePinnedSources(sources: DocumentSource[]): string | undefined {
+    const pinnedSources = sources.filter(source => source.ref);
+    if (pinnedSources.length === 0) {
+        return undefined;
+    }
+
+    return sources.length === 1
+        ? `pinned to ${formatRef(pinnedSources[0].ref!)}`
+        : pinnedSources.map(source => `${source.name}@${formatRef(source.ref!)}`).join(', ');
+}
+
+/**
+ * Identify a source's settings, ignoring its token (tokens are read on every request)
+ * @param source Source configuration
+ * @returns Key that changes whenever the source needs a new client
+ */
+function getSourceKey(source: SourceConfig): string {
+    const { token: _token, ...settings } = source;
+    return JSON.stringify(settings);
+}
+
+/**
+ * Load the stored tokens of the configured sources
+ * Secret storage can be unavailable (e.g. no keyring), in which case the sources use anonymous access
+ * @param tokenStore Token store instance
+ * @param sources Configured sources
+ */
+async function loadTokens(tokenStore: TokenStore, sources: SourceConfig[]): Promise<void> {
+    try {
+        await tokenStore.load(sources.map(source => source.id));
+    } catch (error) {
+        console.error('Failed to load tokens from secure storage:', error);
+    }
+}
+
+/**
+ * Move tokens from the githubToken and sources settings into secret storage
+ * @param tokenStore Token store instance
+ * @param configurationService Configuration service used to read and clean the settings
+ * @param overwrite Whether a token in settings replaces a stored one (set when the user just edited it)
+ */
+async function migrateSettingTokens(
+    tokenStore: TokenStore,
+    configurationService: ConfigurationService,
+    overwrite: boolean = false
+): Promise<void> {
+    try {
+        const imported = await tokenStore.importTokens(configurationService.getSources(), overwrite);
+        if (imported === 0) {
+            return;
+        }
+
+        await configurationService.removeSettingTokens();
+        vscode.window.showInformationMessage(
+            imported === 1
+                ? 'Your Steering Docs token was moved from settings to secure storage'
+                : `${imported} Steering Docs tokens were moved from settings to secure storage`
+        );
+    } catch (error) {
+        console.error('Failed to move tokens to secure storage:', error);
     }
 }
 
@@ -0,0 +1,30 @@
+import { CacheNamespace, DocumentMetadata } from './types';
+
+/**
+ * Schemas of the cache namespaces, keyed by the part of a cache key before the first ":"
+ *
+ * Bump a namespace's version whenever the shape of its values changes and add a migration
+ * from the previous version, or leave it out to discard the old entries. Only the entries
+ * of that namespace are touched when the extension activates.
+ */
+export const CACHE_SCHEMAS: Record<string, CacheNamespace> = {
+    // Document lists of all sources ("documentList") and of each source ("documentList:<id>")
+    documentList: {
+        version: 2,
+        migrations: {
+            // Version 2 added the recommendation fields; lists parsed before can't be completed
+            // without downloading the documents again
+            1: (documents: DocumentMetadata[]) => Array.isArray(documents) && documents.every(doc =>
+                doc.tags !== undefined || doc.requiredDependencies !== undefined || doc.filePatterns !== undefined
+            ) ? documents : undefined
+        }
+    },
+    // Frontmatter and categories of downloaded blobs, per source ("blobMetadata:<id>")
+    blobMetadata: {
+        version: 1
+    },
+    // Response validators and bodies for conditional requests ("http:<url>")
+    http: {
+        version: 1
+    }
+};
@@ -1,9 +1,9 @@
-import { RecommendationMetadata, ProjectType } from './types';
+import { ProjectType, SteeringRule, SteeringRules } from './types';
 
 /**
  * Metadata rules for language-specific documents
  */
-export const LANGUAGE_RULES: Record<string, RecommendationMetadata> = {
+export const LANGUAGE_RULES: Record<string, SteeringRule> = {
   'javascript': {
     requiredDependencies: [],
     applicableTo: [
@@ -39,6 +39,7 @@ export const LANGUAGE_RULES: Record<string, RecommendationMetadata> = {
     enhancedTags: ['python', 'formatting', 'code-generation']
   },
   'bash': {
+    keywords: ['shell'],
     requiredDependencies: [],
     applicableTo: [ProjectType.CLI_TOOL],
     filePatterns: ['**/*.sh', '**/*.bash'],
@@ -66,9 +67,13 @@ export const LANGUAGE_RULES: Record<string, RecommendationMetadata> = {
 
 /**
  * Metadata rules for framework-specific documents
+ * Frameworks with packages are also detected in a workspace's package.json; scopes and
+ * prefix patterns cover companion packages such as react-dom or @nestjs/common
  */
-export const FRAMEWORK_RULES: Record<string, RecommendationMetadata> = {
+export const FRAMEWORK_RULES: Record<string, SteeringRule> = {
   'react': {
+    packages: ['react', 'react-*'],
+    confidence: 0.9,
     requiredDependencies: ['react'],
     applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY],
     filePatterns: [
@@ -79,12 +84,16 @@ export const FRAMEWORK_RULES: Record<string, RecommendationMetadata> = {
     enhancedTags: ['react', 'components', 'best-practices']
   },
   'vue': {
+    packages: ['vue', 'vue-*', '@vue'],
+    confidence: 0.9,
     requiredDependencies: ['vue'],
     applicableTo: [ProjectType.WEB_APP],
     filePatterns: ['components/**/*.vue', 'src/components/**/*.vue'],
     enhancedTags: ['vue', 'components', 'best-practices']
   },
   'express': {
+    packages: ['express', 'express-*'],
+    confidence: 0.85,
     requiredDependencies: ['express'],
     applicableTo: [ProjectType.API_SERVER],
     filePatterns: ['routes/**/*.js', 'routes/**/*.ts', 'api/**/*'],
@@ -101,14 +110,80 @@ export const FRAMEWORK_RULES: Record<string, RecommendationMetadata> = {
     applicableTo: [ProjectType.WEB_APP, ProjectType.API_SERVER],
     filePatterns: ['views/**/*.py', 'models/**/*.py', 'urls.py'],
     enhancedTags: ['django', 'python', 'web', 'best-practices']
+  },
+  'angular': {
+    packages: ['@angular/core', '@angular'],
+    confidence: 0.9,
+    requiredDependencies: ['@angular/core'],
+    applicableTo: [ProjectType.WEB_APP],
+    filePatterns: ['src/app/**/*.ts'],
+    enhancedTags: ['angular', 'components', 'best-practices']
+  },
+  'svelte': {
+    packages: ['svelte', 'svelte-*', '@sveltejs'],
+    confidence: 0.9,
+    requiredDependencies: ['svelte'],
+    applicableTo: [ProjectType.WEB_APP],
+    filePatterns: ['src/**/*.svelte'],
+    enhancedTags: ['svelte', 'components', 'best-practices']
+  },
+  'next.js': {
+    keywords: ['nextjs'],
+    packages: ['next', 'next-*'],
+    confidence: 0.95,
+    requiredDependencies: ['next'],
+    applicableTo: [ProjectType.WEB_APP],
+    filePatterns: ['pages/**/*', 'app/**/*'],
+    enhancedTags: ['next.js', 'react', 'best-practices']
+  },
+  'nuxt': {
+    packages: ['nuxt', '@nuxt', '@nuxtjs'],
+    confidence: 0.95,
+    requiredDependencies: ['nuxt'],
+    applicableTo: [ProjectType.WEB_APP],
+    filePatterns: ['pages/**/*.vue'],
+    enhancedTags: ['nuxt', 'vue', 'best-practices']
+  },
+  'fastify': {
+    packages: ['fastify', 'fastify-*', '@fastify'],
+    confidence: 0.85,
+    requiredDependencies: ['fastify'],
+    applicableTo: [ProjectType.API_SERVER],
+    filePatterns: ['routes/**/*'],
+    enhancedTags: ['fastify', 'nodejs', 'api', 'best-practices']
+  },
+  'nestjs': {
+    packages: ['@nestjs/core', '@nestjs'],
+    confidence: 0.9,
+    requiredDependencies: ['@nestjs/core'],
+    applicableTo: [ProjectType.API_SERVER],
+    filePatterns: ['src/**/*.module.ts', 'src/**/*.controller.ts'],
+    enhancedTags: ['nestjs', 'nodejs', 'api', 'best-practices']
+  },
+  'koa': {
+    packages: ['koa', 'koa-*', '@koa'],
+    confidence: 0.85,
+    requiredDependencies: ['koa'],
+    applicableTo: [ProjectType.API_SERVER],
+    filePatterns: ['routes/**/*'],
+    enhancedTags: ['koa', 'nodejs', 'api', 'best-practices']
+  },
+  'hapi': {
+    packages: ['@hapi/hapi', 'hapi', '@hapi'],
+    confidence: 0.85,
+    requiredDependencies: ['@hapi/hapi'],
+    applicableTo: [ProjectType.API_SERVER],
+    filePatterns: ['routes/**/*'],
+    enhancedTags: ['hapi', 'nodejs', 'api', 'best-practices']
   }
 };
 
 /**
  * Metadata rules for practice documents
  */
-export const PRACTICE_RULES: Record<string, RecommendationMetadata> = {
+export const PRACTICE_RULES: Record<string, SteeringRule> = {
   'testing': {
+    keywords: ['test'],
     requiredDependencies: [],
     applicableTo: [
       ProjectType.WEB_APP,
@@ -138,6 +213,7 @@ export const PRACTICE_RULES: Record<string, RecommendationMetadata> = {
     enhancedTags: ['security', 'best-practices']
   },
   'codeQuality': {
+    keywords: ['code-quality', 'quality'],
     requiredDependencies: [],
     applicableTo: [
       ProjectType.WEB_APP,
@@ -150,6 +226,7 @@ export const PRACTICE_RULES: Record<string, RecommendationMetadata> = {
     enhancedTags: ['code-quality', 'best-practices']
   },
   'gitWorkflow': {
+    keywords: ['git', 'workflow'],
     requiredDependencies: [],
     applicableTo: [
       ProjectType.WEB_APP,
@@ -162,3 +239,12 @@ export const PRACTICE_RULES: Record<string, RecommendationMetadata> = {
     enhancedTags: ['git', 'workflow', 'best-practices']
   }
 };
+
+/**
+ * Built-in rules, extended by a workspace's .kiro/steering-rules.json
+ */
+export const DEFAULT_RULES: SteeringRules = {
+  languages: LANGUAGE_RULES,
+  frameworks: FRAMEWORK_RULES,
+  practices: PRACTICE_RULES
+};
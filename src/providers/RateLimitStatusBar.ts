@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { DocumentSource } from '../services/DocumentService';
+import { formatDuration } from '../utils/format';
+import { RateLimitInfo } from '../models/types';
+
+/**
+ * Status bar item showing the remaining API quota of the document sources
+ * Clicking it sets a token
+ */
+export class RateLimitStatusBar implements vscode.Disposable {
+    private readonly countdownInterval = 30000; // 30 seconds
+    private readonly item: vscode.StatusBarItem;
+    private subscriptions: { dispose(): void }[] = [];
+    private countdown: NodeJS.Timeout | undefined;
+    private sources: DocumentSource[] = [];
+
+    constructor(sources: DocumentSource[]) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.item.command = 'steeringDocs.setToken';
+        this.setSources(sources);
+    }
+
+    /**
+     * Show the quota of a new set of sources
+     * @param sources Document sources whose clients report rate limits
+     */
+    setSources(sources: DocumentSource[]): void {
+        this.disposeSubscriptions();
+        this.sources = sources;
+
+        for (const source of sources) {
+            if (source.client.onDidChangeRateLimit) {
+                this.subscriptions.push(source.client.onDidChangeRateLimit(() => this.update()));
+            }
+        }
+
+        this.update();
+    }
+
+    /**
+     * Refresh the item from the sources' current quota
+     */
+    update(): void {
+        const rateLimit = this.getLowestQuota();
+
+        if (!rateLimit) {
+            this.item.hide();
+            this.stopCountdown();
+            return;
+        }
+
+        const resetIn = rateLimit.resetAt - Date.now();
+
+        if (rateLimit.remaining === 0 && resetIn > 0) {
+            this.item.text = `$(warning) Steering Docs: rate limited · ${formatDuration(resetIn)}`;
+            this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else {
+            this.item.text = `$(cloud) ${rateLimit.remaining}/${rateLimit.limit}`;
+            this.item.backgroundColor = undefined;
+        }
+
+        this.item.tooltip = resetIn > 0
+            ? `Steering Docs API quota: ${rateLimit.remaining} of ${rateLimit.limit} requests left, resets in ${formatDuration(resetIn)}.\nClick to set a token.`
+            : `Steering Docs API quota: ${rateLimit.remaining} of ${rateLimit.limit} requests left.\nClick to set a token.`;
+        this.item.show();
+
+        // Keep the countdown current until the quota resets
+        if (resetIn > 0) {
+            this.startCountdown();
+        } else {
+            this.stopCountdown();
+        }
+    }
+
+    /**
+     * Dispose of the item, listeners and countdown timer
+     */
+    dispose(): void {
+        this.stopCountdown();
+        this.disposeSubscriptions();
+        this.item.dispose();
+    }
+
+    /**
+     * Stop listening to the current sources
+     */
+    private disposeSubscriptions(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.dispose();
+        }
+        this.subscriptions = [];
+    }
+
+    /**
+     * Find the quota closest to exhaustion across all sources
+     * @returns Quota with the fewest remaining requests, or undefined if none is known
+     */
+    private getLowestQuota(): RateLimitInfo | undefined {
+        let lowest: RateLimitInfo | undefined;
+
+        for (const source of this.sources) {
+            const rateLimit = source.client.getRateLimit?.();
+            if (rateLimit && (!lowest || rateLimit.remaining < lowest.remaining)) {
+                lowest = rateLimit;
+            }
+        }
+
+        return lowest;
+    }
+
+    /**
+     * Start refreshing the countdown periodically
+     */
+    private startCountdown(): void {
+        if (!this.countdown) {
+            this.countdown = setInterval(() => this.update(), this.countdownInterval);
+        }
+    }
+
+    /**
+     * Stop refreshing the countdown
+     */
+    private stopCountdown(): void {
+        if (this.countdown) {
+            clearInterval(this.countdown);
+            this.countdown = undefined;
+        }
+    }
+}
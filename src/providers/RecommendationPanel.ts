@@ -53,7 +53,9 @@ export class RecommendationPanel {
             let documentContent: string;
             try {
                 documentContent = await this.documentService.fetchDocumentContent(
-                    recommendation.document.path
+                    recommendation.document.path,
+                    recommendation.document.source,
+                    recommendation.document.sha
                 );
             } catch (error) {
                 // Show error in webview
@@ -325,6 +325,44 @@ suite('SteeringDocsTreeProvider Tests', () => {
             'Documents should not be collapsible');
     });
 
+    test('createDocumentTreeItem should flag locally modified documents', () => {
+        const createMethod = (treeProvider as any).createDocumentTreeItem.bind(treeProvider);
+
+        const docItem = {
+            type: 'document' as const,
+            metadata: {
+                name: 'tech.md',
+                path: 'tech.md',
+                category: 'practices',
+                version: '1.0.0',
+                description: 'Tech stack',
+                sha: 'abc123',
+                size: 100,
+                downloadUrl: 'https://example.com/tech.md'
+            },
+            installed: {
+                name: 'tech.md',
+                path: 'tech.md',
+                version: '1.0.0',
+                installedAt: new Date(),
+                sha: 'abc123',
+                inclusionMode: 'always' as const,
+                locked: true,
+                modified: true
+            },
+            hasUpdate: false
+        };
+
+        const treeItem = createMethod(docItem);
+
+        assert.strictEqual(treeItem.iconPath.id, 'edit', 'Modified documents should have a distinct icon');
+        assert.match(treeItem.tooltip, /Modified locally/);
+
+        const unmodified = createMethod({ ...docItem, installed: { ...docItem.installed, modified: false } });
+        assert.strictEqual(unmodified.iconPath.id, 'circle-filled');
+        assert.doesNotMatch(unmodified.tooltip, /Modified locally/);
+    });
+
     test('createDocumentTreeItem should handle non-installed nested documents', () => {
         const createMethod = (treeProvider as any).createDocumentTreeItem.bind(treeProvider);
         
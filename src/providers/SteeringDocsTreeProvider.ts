@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import { DocumentService } from '../services/DocumentService';
 import { DocumentMetadata, InstalledDocument, CategoryDefinition } from '../models/types';
+import { formatAge, formatRef } from '../utils/format';
 
 /**
  * Tree item types for the steering documents tree view
  */
-type TreeItem = CategoryTreeItem | FolderTreeItem | DocumentTreeItem;
+type TreeItem = SourceTreeItem | CategoryTreeItem | FolderTreeItem | DocumentTreeItem;
+
+/**
+ * Source repository node in the tree (only shown when several sources are configured)
+ */
+interface SourceTreeItem {
+    type: 'source';
+    id: string;
+    label: string;
+    // Tag or commit SHA the source is pinned to
+    ref?: string;
+}
 
 /**
  * Category node in the tree
@@ -15,6 +27,7 @@ interface CategoryTreeItem {
     id: string;
     label: string;
     description: string;
+    sourceId?: string;
 }
 
 /**
@@ -26,6 +39,7 @@ interface FolderTreeItem {
     path: string;
     label: string;
     parentPath?: string;
+    sourceId?: string;
 }
 
 /**
@@ -44,6 +58,11 @@ interface DocumentTreeItem {
 export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private _onDidLoadDocuments = new vscode.EventEmitter<void>();
+    /**
+     * Fired after the tree loaded the document list, whether or not it succeeded
+     */
+    readonly onDidLoadDocuments = this._onDidLoadDocuments.event;
 
     private showActiveOnly = false;
     private categories: CategoryDefinition[] = [];
@@ -60,6 +79,26 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Describe how fresh the shown documents are, for the tree view's message area
+     * @returns Message such as "Last refreshed 5 min ago", or undefined before the first load
+     */
+    getStatusMessage(): string | undefined {
+        const state = this.documentService.getDocumentListState();
+        if (state.refreshedAt === undefined) {
+            return state.offline ? 'Offline - no cached documents available' : undefined;
+        }
+
+        const age = formatAge(Date.now() - state.refreshedAt);
+        if (state.offline) {
+            return `Offline - showing documents last refreshed ${age}`;
+        }
+        if (state.refreshing) {
+            return `Refreshing... (last refreshed ${age})`;
+        }
+        return `Last refreshed ${age}`;
+    }
+
     /**
      * Get current filter state
      */
@@ -79,7 +118,9 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      * Get tree item representation for VS Code
      */
     getTreeItem(element: TreeItem): vscode.TreeItem {
-        if (element.type === 'category') {
+        if (element.type === 'source') {
+            return this.createSourceTreeItem(element);
+        } else if (element.type === 'category') {
             return this.createCategoryTreeItem(element);
         } else if (element.type === 'folder') {
             return this.createFolderTreeItem(element);
@@ -93,21 +134,26 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      */
     async getChildren(element?: TreeItem): Promise<TreeItem[]> {
         if (!element) {
-            // Root level - return categories
+            // Root level - return sources or categories
             return this.getRootItems();
         }
 
+        if (element.type === 'source') {
+            // Return categories that have documents in this source
+            return this.getCategoryItems(element.id);
+        }
+
         if (element.type === 'category') {
             // Return top-level folders and documents in this category
-            const documents = await this.getDocumentsForCategory(element.id);
+            const documents = await this.getDocumentsForCategory(element.id, element.sourceId);
             // Filter to only DocumentTreeItem types for buildFolderHierarchy
             const documentItems = documents.filter((item): item is DocumentTreeItem => item.type === 'document');
-            return this.buildFolderHierarchy(element.id, documentItems);
+            return this.buildFolderHierarchy(element.id, documentItems, element.sourceId);
         }
 
         if (element.type === 'folder') {
             // Return child folders and documents within this folder
-            return this.getChildrenForFolder(element.categoryId, element.path);
+            return this.getChildrenForFolder(element.categoryId, element.path, element.sourceId);
         }
 
         // Document nodes have no children
@@ -115,29 +161,34 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
     }
 
     /**
-     * Get root level items (categories or error message)
+     * Get root level items (sources, categories or error message)
      */
     private async getRootItems(): Promise<TreeItem[]> {
         try {
             // Fetch data
             await this.fetchData();
 
-            // Return categories that have documents
-            const categoryItems: TreeItem[] = [];
-            
-            for (const category of this.categories) {
-                const docs = await this.getDocumentsForCategory(category.id);
-                if (docs.length > 0) {
-                    categoryItems.push({
-                        type: 'category',
-                        id: category.id,
-                        label: category.label,
-                        description: category.description
+            const sources = this.documentService.getSources();
+            if (sources.length <= 1) {
+                // Single source - show categories directly at the root
+                return this.getCategoryItems();
+            }
+
+            // Several sources - group categories under a node per source that has documents
+            const sourceItems: TreeItem[] = [];
+            for (const source of sources) {
+                const categoryItems = await this.getCategoryItems(source.id);
+                if (categoryItems.length > 0) {
+                    sourceItems.push({
+                        type: 'source',
+                        id: source.id,
+                        label: source.name,
+                        ref: source.ref
                     });
                 }
             }
 
-            return categoryItems;
+            return sourceItems;
         } catch (error) {
             // Return empty array on error - errors will be shown via notifications
             console.error('Failed to load steering documents:', error);
@@ -145,16 +196,63 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
         }
     }
 
+    /**
+     * Get category items that have documents
+     * @param sourceId Only include documents from this source (all sources if omitted)
+     */
+    private async getCategoryItems(sourceId?: string): Promise<TreeItem[]> {
+        const categoryItems: TreeItem[] = [];
+
+        for (const category of this.categories) {
+            const docs = await this.getDocumentsForCategory(category.id, sourceId);
+            if (docs.length > 0) {
+                categoryItems.push({
+                    type: 'category',
+                    id: category.id,
+                    label: category.label,
+                    description: category.description,
+                    sourceId
+                });
+            }
+        }
+
+        return categoryItems;
+    }
+
+    /**
+     * Check whether a document belongs to a source
+     * @param doc Document metadata
+     * @param sourceId Source id to match (undefined matches every source)
+     */
+    private isFromSource(doc: DocumentMetadata, sourceId?: string): boolean {
+        if (sourceId === undefined) {
+            return true;
+        }
+        // Documents without a source come from the primary source
+        return (doc.source ?? this.documentService.getSources()[0]?.id) === sourceId;
+    }
+
+    /**
+     * Find the installed copy of a remote document
+     * Matches by local path so same-path documents from different sources stay separate
+     */
+    private findInstalled(doc: DocumentMetadata): InstalledDocument | undefined {
+        const localPath = this.documentService.getLocalPath(doc);
+        return this.installedDocuments.find(inst => inst.path === localPath);
+    }
+
     /**
      * Get documents for a specific category
      */
-    private async getDocumentsForCategory(categoryId: string): Promise<TreeItem[]> {
-        const categoryDocs = this.remoteDocuments.filter(doc => doc.category === categoryId);
+    private async getDocumentsForCategory(categoryId: string, sourceId?: string): Promise<TreeItem[]> {
+        const categoryDocs = this.remoteDocuments.filter(doc =>
+            doc.category === categoryId && this.isFromSource(doc, sourceId)
+        );
         const documentItems: TreeItem[] = [];
 
         for (const doc of categoryDocs) {
             // Find matching installed document by path instead of name
-            const installed = this.installedDocuments.find(inst => inst.path === doc.path);
+            const installed = this.findInstalled(doc);
 
             // Check if document has an update
             const hasUpdate = installed ? installed.sha !== doc.sha : false;
@@ -183,15 +281,16 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      */
     private async fetchData(): Promise<void> {
         try {
-            // Fetch remote documents and installed documents in parallel
+            // Fetch remote documents and installed documents in parallel.
+            // A known document list is shown right away, even if expired, and refreshed in the background
             const [remote, installed] = await Promise.all([
-                this.documentService.fetchDocumentList(),
+                this.documentService.getDocumentList(),
                 this.documentService.getInstalledDocuments()
             ]);
 
             this.remoteDocuments = remote;
             this.installedDocuments = installed;
-            this.isOffline = false;
+            this.isOffline = this.documentService.getDocumentListState().offline;
 
             // Extract unique categories from documents
             const categoryMap = new Map<string, CategoryDefinition>();
@@ -209,6 +308,8 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
             // Mark as offline if fetch fails
             this.isOffline = true;
             throw error;
+        } finally {
+            this._onDidLoadDocuments.fire();
         }
     }
 
@@ -251,6 +352,7 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      * 
      * @param categoryId - The category ID these documents belong to
      * @param documents - Flat list of document tree items
+     * @param sourceId - The source the documents belong to (undefined when not grouped by source)
      * @returns Hierarchical list of folders and root-level documents
      * 
      * @example
@@ -265,7 +367,7 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      *   - FolderTreeItem { path: "languages", label: "languages" }
      *   - DocumentTreeItem { path: "tech.md" }
      */
-    private buildFolderHierarchy(categoryId: string, documents: DocumentTreeItem[]): TreeItem[] {
+    private buildFolderHierarchy(categoryId: string, documents: DocumentTreeItem[], sourceId?: string): TreeItem[] {
         const items: TreeItem[] = [];
         const folderSet = new Set<string>();
 
@@ -303,7 +405,8 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
                 categoryId,
                 path: folderPath,
                 label,
-                parentPath
+                parentPath,
+                sourceId
             });
         }
 
@@ -349,6 +452,7 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      * 
      * @param categoryId - The category ID
      * @param folderPath - The folder path (e.g., "languages" or "code-quality/patterns")
+     * @param sourceId - Only include documents from this source (all sources if omitted)
      * @returns List of child folders and documents within this folder
      * 
      * @example
@@ -362,12 +466,14 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
      *   - DocumentTreeItem { path: "languages/typescript-formatting.md" }
      *   - DocumentTreeItem { path: "languages/python-formatting.md" }
      */
-    private getChildrenForFolder(categoryId: string, folderPath: string): TreeItem[] {
+    private getChildrenForFolder(categoryId: string, folderPath: string, sourceId?: string): TreeItem[] {
         const items: TreeItem[] = [];
         const childFolders = new Set<string>();
 
         // Get all documents in this category
-        const categoryDocs = this.remoteDocuments.filter(doc => doc.category === categoryId);
+        const categoryDocs = this.remoteDocuments.filter(doc =>
+            doc.category === categoryId && this.isFromSource(doc, sourceId)
+        );
 
         // Find documents and subfolders that are direct children of this folder
         for (const doc of categoryDocs) {
@@ -386,7 +492,7 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
 
                 if (slashIndex === -1) {
                     // Document is a direct child of this folder
-                    const installed = this.installedDocuments.find(inst => inst.path === doc.path);
+                    const installed = this.findInstalled(doc);
                     const hasUpdate = installed ? installed.sha !== doc.sha : false;
 
                     // Apply active filter if enabled
@@ -422,7 +528,8 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
                 categoryId,
                 path: subfolderPath,
                 label,
-                parentPath: folderPath
+                parentPath: folderPath,
+                sourceId
             });
         }
 
@@ -448,6 +555,20 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
         });
     }
 
+    /**
+     * Create VS Code tree item for a source repository
+     */
+    private createSourceTreeItem(source: SourceTreeItem): vscode.TreeItem {
+        const item = new vscode.TreeItem(source.label, vscode.TreeItemCollapsibleState.Expanded);
+        item.tooltip = source.ref
+            ? `Documents from ${source.label}, pinned to ${source.ref}`
+            : `Documents from ${source.label}`;
+        item.description = source.ref ? `pinned to ${formatRef(source.ref)}` : undefined;
+        item.contextValue = 'source';
+        item.iconPath = new vscode.ThemeIcon('repo');
+        return item;
+    }
+
     /**
      * Create VS Code tree item for a category
      */
@@ -508,8 +629,17 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
             `Category: ${doc.metadata.category}`
         ];
 
+        const sources = this.documentService.getSources();
+        if (sources.length > 1) {
+            const source = sources.find(s => s.id === doc.metadata.source);
+            lines.push(`Source: ${source?.name ?? doc.metadata.source ?? sources[0].name}`);
+        }
+
         if (doc.installed) {
             lines.push(`Installed: ${doc.installed.installedAt.toLocaleDateString()}`);
+            if (!doc.installed.locked) {
+                lines.push('Not recorded in steering.lock.json - update or reinstall to record it');
+            }
             
             if (doc.installed.inclusionMode) {
                 lines.push(`Inclusion: ${doc.installed.inclusionMode}`);
@@ -520,6 +650,10 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
             }
         }
 
+        if (doc.installed?.modified) {
+            lines.push('✏️ Modified locally - updates are merged with your changes');
+        }
+
         if (doc.hasUpdate) {
             lines.push('⚠️ Update available');
         }
@@ -554,6 +688,11 @@ export class SteeringDocsTreeProvider implements vscode.TreeDataProvider<TreeIte
             return new vscode.ThemeIcon('circle-outline');
         }
 
+        if (doc.installed.modified) {
+            // Edited since installation - pencil in the color of modified files
+            return new vscode.ThemeIcon('edit', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+        }
+
         // Installed - show colored dot based on inclusion mode
         switch (doc.installed.inclusionMode) {
             case 'always':
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+
+/**
+ * URI scheme of the incoming document versions shown when reviewing an update
+ */
+export const UPDATE_PREVIEW_SCHEME = 'steering-update';
+
+/**
+ * Read-only content of incoming document versions, so they can be compared with the
+ * installed file in a diff editor
+ */
+export class UpdatePreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly contents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    /**
+     * Fired when the content of a preview is replaced
+     */
+    readonly onDidChange = this.changeEmitter.event;
+
+    /**
+     * Make content available for previewing
+     * @param localPath Path of the document relative to the steering directory, which keeps its file extension
+     * @param content Content to show
+     * @returns URI of the preview
+     */
+    show(localPath: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: UPDATE_PREVIEW_SCHEME, path: `/${localPath}` });
+        this.contents.set(uri.toString(), content);
+        this.changeEmitter.fire(uri);
+        return uri;
+    }
+
+    /**
+     * Forget the content of a preview that is no longer shown
+     * @param uri URI returned by show()
+     */
+    release(uri: vscode.Uri): void {
+        this.contents.delete(uri.toString());
+    }
+
+    /**
+     * Provide the content of a preview
+     * @param uri URI returned by show()
+     * @returns Content, or an empty document once the preview was released
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    dispose(): void {
+        this.contents.clear();
+        this.changeEmitter.dispose();
+    }
+}
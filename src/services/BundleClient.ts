@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readBundle } from './BundleService';
+import { BundleFile, BundleManifest, ErrorCode, ExtensionError, RegistryBundle, SourceEntry, SourceProvider } from '../models/types';
+
+/**
+ * Read-only source provider serving a registry from an offline bundle file
+ */
+export class BundleClient implements SourceProvider {
+    readonly type = 'bundle';
+    private bundle: Promise<RegistryBundle> | undefined;
+
+    /**
+     * @param bundlePath Absolute path of the bundle file
+     */
+    constructor(private readonly bundlePath: string) {}
+
+    /**
+     * Get the manifest of the bundle
+     * @returns Source registry, ref and creation time of the bundle
+     */
+    async getManifest(): Promise<BundleManifest> {
+        return (await this.load()).manifest;
+    }
+
+    /**
+     * List directory contents
+     * @param dirPath Directory path within the registry
+     * @returns Files and folders directly inside the directory
+     */
+    async listDirectory(dirPath: string): Promise<SourceEntry[]> {
+        const prefix = dirPath ? `${dirPath.replace(/\/+$/, '')}/` : '';
+        return (await this.getTree()).filter(entry =>
+            entry.path.startsWith(prefix) && !entry.path.slice(prefix.length).includes('/')
+        );
+    }
+
+    /**
+     * List every file and folder of the bundle
+     * @returns All entries, with folders derived from the file paths
+     */
+    async getTree(): Promise<SourceEntry[]> {
+        const bundle = await this.load();
+        const entries: SourceEntry[] = [];
+        const folders = new Set<string>();
+
+        for (const file of bundle.files) {
+            const segments = file.path.split('/');
+            for (let depth = 1; depth < segments.length; depth++) {
+                const folder = segments.slice(0, depth).join('/');
+                if (!folders.has(folder)) {
+                    folders.add(folder);
+                    entries.push({
+                        name: segments[depth - 1],
+                        path: folder,
+                        type: 'dir',
+                        sha: '',
+                        size: 0,
+                        downloadUrl: this.getDownloadUrl(folder)
+                    });
+                }
+            }
+
+            entries.push({
+                name: path.posix.basename(file.path),
+                path: file.path,
+                type: 'file',
+                sha: file.sha,
+                size: Buffer.byteLength(file.content),
+                downloadUrl: this.getDownloadUrl(file.path)
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Read a file from the bundle
+     * @param filePath File path within the registry
+     * @returns File content as string
+     */
+    async getRawFileContent(filePath: string): Promise<string> {
+        return (await this.getFile(filePath)).content;
+    }
+
+    /**
+     * Get the git blob SHA recorded for a file
+     * @param filePath File path within the registry
+     * @returns Blob SHA
+     */
+    async getBlobSha(filePath: string): Promise<string> {
+        return (await this.getFile(filePath)).sha;
+    }
+
+    /**
+     * Read a file from the bundle by its recorded blob SHA
+     * @param sha Git blob SHA
+     * @returns File content as string
+     */
+    async getBlobContent(sha: string): Promise<string> {
+        const file = (await this.load()).files.find(f => f.sha === sha);
+        if (!file) {
+            throw new ExtensionError(
+                `Blob not found in bundle: ${sha}`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+        return file.content;
+    }
+
+    /**
+     * Look up a file in the bundle
+     * @param filePath File path within the registry
+     * @returns Bundle file
+     */
+    private async getFile(filePath: string): Promise<BundleFile> {
+        const file = (await this.load()).files.find(f => f.path === filePath);
+        if (!file) {
+            throw new ExtensionError(
+                `File not found in bundle: ${filePath}`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+        return file;
+    }
+
+    /**
+     * Read the bundle file once and keep it in memory
+     * @returns Parsed bundle
+     */
+    private load(): Promise<RegistryBundle> {
+        if (!this.bundle) {
+            this.bundle = readBundle(this.bundlePath);
+            // Allow a retry after a failed read (e.g. the file was restored)
+            this.bundle.catch(() => {
+                this.bundle = undefined;
+            });
+        }
+        return this.bundle;
+    }
+
+    /**
+     * Build a URI identifying a file inside the bundle
+     * @param filePath File path within the registry
+     * @returns URI of the bundle file with the registry path as fragment
+     */
+    private getDownloadUrl(filePath: string): string {
+        return vscode.Uri.file(this.bundlePath).with({ fragment: filePath }).toString();
+    }
+}
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+import { BundleClient } from './BundleClient';
+import { BundleService } from './BundleService';
+import { CacheManager } from './CacheManager';
+import { DocumentService } from './DocumentService';
+import { FrontmatterService } from './FrontmatterService';
+import { LocalFolderClient } from './LocalFolderClient';
+import { ErrorCode, ExtensionError } from '../models/types';
+
+/**
+ * Create a memento that stores nothing, so every fetch goes to the source
+ */
+function createMemento(): vscode.Memento {
+    return {
+        keys: () => [],
+        get: <T>(_key: string): T | undefined => undefined,
+        update: async (_key: string, _value: any): Promise<void> => {}
+    };
+}
+
+suite('BundleService Tests', () => {
+    const origin = { name: 'Registry', type: 'github' as const, repository: 'test/repo', branch: 'main', ref: 'v1.0.0' };
+    let rootPath: string;
+    let registryPath: string;
+    let bundlePath: string;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-bundle-'));
+        registryPath = path.join(rootPath, 'registry');
+        bundlePath = path.join(rootPath, 'registry.steeringbundle');
+
+        await fs.mkdir(path.join(registryPath, 'testing'), { recursive: true });
+        await fs.writeFile(path.join(registryPath, 'categories.json'), JSON.stringify({
+            categories: [{ id: 'testing', label: 'Testing', description: 'Testing practices' }]
+        }));
+        await fs.writeFile(path.join(registryPath, 'testing', 'hello.md'), 'hello\n');
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    /**
+     * Create a document service reading from the given client
+     */
+    function createService(id: string, client: LocalFolderClient | BundleClient): DocumentService {
+        return new DocumentService(
+            [{ id, name: id, client }],
+            new CacheManager(createMemento()),
+            new FrontmatterService()
+        );
+    }
+
+    test('An exported bundle should serve the same documents offline', async () => {
+        const source = createService('registry', new LocalFolderClient(registryPath));
+        const manifest = await new BundleService(source).exportBundle('registry', origin, bundlePath);
+
+        assert.strictEqual(manifest.documentCount, 1);
+        assert.deepStrictEqual(manifest.source, origin);
+
+        const client = new BundleClient(bundlePath);
+        const offline = createService('offline', client);
+        const documents = await offline.fetchDocumentList();
+
+        assert.deepStrictEqual(documents.map(doc => [doc.path, doc.category]), [['testing/hello.md', 'testing']]);
+        assert.strictEqual(await client.getRawFileContent('testing/hello.md'), 'hello\n');
+        // Same value as `git hash-object` for "hello\n"
+        assert.strictEqual(await client.getBlobSha('testing/hello.md'), 'ce013625030ba8dba906f756967f9e9ca394464a');
+        assert.deepStrictEqual((await client.listDirectory('')).map(entry => [entry.name, entry.type]),
+            [['categories.json', 'file'], ['testing', 'dir']]);
+        assert.strictEqual((await client.getManifest()).source.ref, 'v1.0.0');
+    });
+
+    test('importBundle should keep a copy named after the snapshot time', async () => {
+        const source = createService('registry', new LocalFolderClient(registryPath));
+        const service = new BundleService(source);
+        await service.exportBundle('registry', origin, bundlePath);
+
+        const { manifest, path: storedPath } = await service.importBundle(bundlePath, path.join(rootPath, 'storage'));
+        await fs.rm(bundlePath);
+
+        assert.strictEqual(path.dirname(storedPath), path.join(rootPath, 'storage'));
+        assert.ok(path.basename(storedPath).startsWith('registry-'));
+        assert.strictEqual((await new BundleClient(storedPath).getManifest()).createdAt, manifest.createdAt);
+    });
+
+    test('Files missing from the bundle should raise NOT_FOUND', async () => {
+        const source = createService('registry', new LocalFolderClient(registryPath));
+        await new BundleService(source).exportBundle('registry', origin, bundlePath);
+
+        await assert.rejects(
+            () => new BundleClient(bundlePath).getRawFileContent('testing/missing.md'),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND
+        );
+    });
+
+    test('Invalid or newer bundles should be rejected', async () => {
+        const service = new BundleService(createService('registry', new LocalFolderClient(registryPath)));
+        await fs.writeFile(bundlePath, 'not a bundle');
+
+        await assert.rejects(
+            () => service.importBundle(bundlePath, path.join(rootPath, 'storage')),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.PARSE_ERROR
+        );
+
+        await fs.writeFile(bundlePath, gzipSync(JSON.stringify({
+            manifest: { formatVersion: 99, createdAt: new Date().toISOString(), source: origin, documentCount: 0 },
+            files: []
+        })));
+
+        await assert.rejects(
+            () => new BundleClient(bundlePath).getManifest(),
+            (error: unknown) => error instanceof ExtensionError &&
+                error.code === ErrorCode.PARSE_ERROR &&
+                /newer version/.test(error.message)
+        );
+    });
+});
@@ -0,0 +1,185 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { DocumentService } from './DocumentService';
+import { INDEX_FILE } from './RegistryIndexService';
+import { gitBlobSha } from '../utils/gitHash';
+import {
+    BundleFile,
+    BundleManifest,
+    BundleOrigin,
+    ErrorCode,
+    ExtensionError,
+    RegistryBundle
+} from '../models/types';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Version of the bundle layout written by this extension
+ */
+export const BUNDLE_FORMAT_VERSION = 1;
+
+/**
+ * File extension of registry bundles
+ */
+export const BUNDLE_EXTENSION = 'steeringbundle';
+
+/**
+ * Service for exporting registries to offline bundles and importing them again
+ */
+export class BundleService {
+    /**
+     * @param documentService Document service providing the sources to export
+     */
+    constructor(private readonly documentService: DocumentService) {}
+
+    /**
+     * Snapshot a source's index.json, categories.json and documents into a bundle file
+     * @param sourceId Id of the source to export
+     * @param origin Registry details recorded in the manifest
+     * @param filePath Path of the bundle file to write
+     * @param onProgress Called with the number of documents downloaded and the total
+     * @returns Manifest of the written bundle
+     */
+    async exportBundle(
+        sourceId: string,
+        origin: BundleOrigin,
+        filePath: string,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<BundleManifest> {
+        const sources = this.documentService.getSources();
+        const source = sources.find(s => s.id === sourceId);
+        if (!source) {
+            throw new ExtensionError(
+                `Unknown document source "${sourceId}"`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+
+        // Documents of the primary source may not carry a source id
+        const documents = (await this.documentService.fetchDocumentList())
+            .filter(doc => (doc.source ?? sources[0].id) === sourceId);
+
+        // The document list is built from index.json or categories.json - a registry may publish either
+        const files: BundleFile[] = [];
+        for (const registryFile of [INDEX_FILE, 'categories.json']) {
+            try {
+                const content = await source.client.getRawFileContent(registryFile);
+                files.push({ path: registryFile, sha: gitBlobSha(content), content });
+            } catch (error) {
+                if (!(error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND)) {
+                    throw error;
+                }
+            }
+        }
+
+        for (const [position, doc] of documents.entries()) {
+            const content = await source.client.getRawFileContent(doc.path);
+            files.push({ path: doc.path, sha: gitBlobSha(content), content });
+            onProgress?.(position + 1, documents.length);
+        }
+
+        const bundle: RegistryBundle = {
+            manifest: {
+                formatVersion: BUNDLE_FORMAT_VERSION,
+                createdAt: new Date().toISOString(),
+                source: origin,
+                documentCount: documents.length
+            },
+            files
+        };
+
+        await writeBundle(filePath, bundle);
+        return bundle.manifest;
+    }
+
+    /**
+     * Validate a bundle and copy it into the extension's storage folder,
+     * so it stays available when the original file (e.g. on a removable drive) is gone
+     * @param filePath Path of the bundle to import
+     * @param storageFolder Folder that imported bundles are kept in
+     * @returns Manifest of the bundle and the path of the stored copy
+     */
+    async importBundle(filePath: string, storageFolder: string): Promise<{ manifest: BundleManifest; path: string }> {
+        const bundle = await readBundle(filePath);
+
+        // Name the copy after the snapshot time so a newer bundle of the same registry gets a new path
+        await fs.mkdir(storageFolder, { recursive: true });
+        const baseName = path.basename(filePath, path.extname(filePath));
+        const snapshot = bundle.manifest.createdAt.replace(/[^0-9]/g, '');
+        const storedPath = path.join(storageFolder, `${baseName}-${snapshot}.${BUNDLE_EXTENSION}`);
+        if (path.resolve(storedPath) !== path.resolve(filePath)) {
+            await fs.copyFile(filePath, storedPath);
+        }
+
+        return { manifest: bundle.manifest, path: storedPath };
+    }
+}
+
+/**
+ * Read and validate a bundle file
+ * @param filePath Path of the bundle
+ * @returns Parsed bundle
+ */
+export async function readBundle(filePath: string): Promise<RegistryBundle> {
+    let data: Buffer;
+    try {
+        data = await fs.readFile(filePath);
+    } catch (error) {
+        throw new ExtensionError(
+            `Failed to read bundle ${filePath}: ${error instanceof Error ? error.message : error}`,
+            (error as NodeJS.ErrnoException).code === 'ENOENT' ? ErrorCode.NOT_FOUND : ErrorCode.FILE_SYSTEM_ERROR,
+            false
+        );
+    }
+
+    let bundle: RegistryBundle;
+    try {
+        bundle = JSON.parse((await gunzipAsync(data)).toString('utf-8'));
+    } catch {
+        throw new ExtensionError(
+            `${path.basename(filePath)} is not a steering docs bundle`,
+            ErrorCode.PARSE_ERROR,
+            false
+        );
+    }
+
+    if (!bundle?.manifest || !Array.isArray(bundle.files) || typeof bundle.manifest.formatVersion !== 'number') {
+        throw new ExtensionError(
+            `${path.basename(filePath)} is not a steering docs bundle`,
+            ErrorCode.PARSE_ERROR,
+            false
+        );
+    }
+
+    if (bundle.manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+        throw new ExtensionError(
+            `${path.basename(filePath)} was created by a newer version of the extension (bundle format ${bundle.manifest.formatVersion})`,
+            ErrorCode.PARSE_ERROR,
+            false
+        );
+    }
+
+    return bundle;
+}
+
+/**
+ * Write a bundle as gzip-compressed JSON
+ * @param filePath Path of the bundle file
+ * @param bundle Bundle to write
+ */
+async function writeBundle(filePath: string, bundle: RegistryBundle): Promise<void> {
+    try {
+        await fs.writeFile(filePath, await gzipAsync(JSON.stringify(bundle)));
+    } catch (error) {
+        throw new ExtensionError(
+            `Failed to write bundle ${filePath}: ${error instanceof Error ? error.message : error}`,
+            ErrorCode.FILE_SYSTEM_ERROR,
+            false
+        );
+    }
+}
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import { CacheManager } from './CacheManager';
+import { CACHE_SCHEMAS } from '../models/cacheSchemas';
 
 /**
  * Mock implementation of vscode.Memento for testing
@@ -117,6 +118,90 @@ suite('CacheManager Tests', () => {
         assert.strictEqual(cacheManager.has('expireKey'), false, 'Should not exist after expiration');
     });
 
+    test('getEntry should return expired entries without removing them', async () => {
+        const timestamp = Date.now() - 5000;
+        await memento.update('steeringDocs.cache.staleKey', { value: 'value', timestamp, ttl: 1 });
+
+        assert.deepStrictEqual(cacheManager.getEntry('staleKey'), { value: 'value', timestamp, expired: true });
+        assert.ok(cacheManager.getEntry('staleKey'), 'Expired entry should be kept');
+        assert.strictEqual(cacheManager.get('staleKey'), undefined, 'get should still treat the entry as expired');
+
+        await cacheManager.set('freshKey', 'value', 60);
+        assert.strictEqual(cacheManager.getEntry('freshKey')?.expired, false);
+    });
+
+    test('migrate should upgrade or discard old entries per namespace', async () => {
+        const timestamp = Date.now();
+        await memento.update('steeringDocs.cache.list:a', { value: ['a'], timestamp, ttl: 60 });
+        await memento.update('steeringDocs.cache.list:b', { value: [], timestamp });
+        await memento.update('steeringDocs.cache.list:c', { value: ['c'], timestamp, version: 9 });
+        await memento.update('steeringDocs.cache.blob:a', { value: 'blob', timestamp });
+        await memento.update('steeringDocs.cache.other', { value: 'other', timestamp });
+
+        cacheManager = new CacheManager(memento as any, {
+            list: {
+                version: 3,
+                migrations: {
+                    1: (value: string[]) => value.length > 0 ? { items: value } : undefined,
+                    2: (value: { items: string[] }) => ({ ...value, count: value.items.length })
+                }
+            },
+            blob: { version: 2 }
+        });
+
+        assert.deepStrictEqual(await cacheManager.migrate(), { migrated: 1, discarded: 3 });
+        assert.deepStrictEqual(memento.get('steeringDocs.cache.list:a'), {
+            value: { items: ['a'], count: 1 }, timestamp, ttl: 60, version: 3
+        });
+        assert.strictEqual(cacheManager.get('list:b'), undefined, 'An entry its migration rejects should be discarded');
+        assert.strictEqual(cacheManager.get('list:c'), undefined, 'An entry from a newer version should be discarded');
+        assert.strictEqual(cacheManager.get('blob:a'), undefined, 'An entry without a migration path should be discarded');
+        assert.strictEqual(cacheManager.get('other'), 'other', 'Unversioned namespaces should be left alone');
+
+        await cacheManager.set('list:d', { items: [], count: 0 });
+        assert.strictEqual(memento.get<{ version?: number }>('steeringDocs.cache.list:d')?.version, 3);
+        assert.deepStrictEqual(await cacheManager.migrate(), { migrated: 0, discarded: 0 });
+    });
+
+    test('documentList schema should discard lists cached before the recommendation fields', async () => {
+        const timestamp = Date.now();
+        const doc = { name: 'api.md', path: 'practices/api.md', category: 'practices' };
+        await memento.update('steeringDocs.cache.documentList', { value: [doc], timestamp });
+        await memento.update('steeringDocs.cache.documentList:default', { value: [{ ...doc, tags: [] }], timestamp });
+
+        cacheManager = new CacheManager(memento as any, CACHE_SCHEMAS);
+        assert.deepStrictEqual(await cacheManager.migrate(), { migrated: 1, discarded: 1 });
+        assert.strictEqual(cacheManager.get('documentList'), undefined);
+        assert.deepStrictEqual(cacheManager.get('documentList:default'), [{ ...doc, tags: [] }]);
+    });
+
+    test('get should ignore entries written with another schema version', async () => {
+        await memento.update('steeringDocs.cache.list:old', { value: 'old', timestamp: Date.now(), version: 1 });
+        cacheManager = new CacheManager(memento as any, { list: { version: 2 } });
+
+        assert.strictEqual(cacheManager.get('list:old'), undefined);
+        assert.strictEqual(cacheManager.getEntry('list:old'), undefined);
+    });
+
+    test('getStats and clearNamespace should summarize and clear namespaces', async () => {
+        const now = Date.now();
+        await memento.update('steeringDocs.cache.list:a', { value: ['a'], timestamp: now - 5000, ttl: 1 });
+        await memento.update('steeringDocs.cache.list:b', { value: ['b'], timestamp: now, ttl: 60 });
+        await memento.update('steeringDocs.cache.other', { value: 'other', timestamp: now });
+        await memento.update('unrelated', 'kept');
+
+        const stats = cacheManager.getStats();
+        assert.deepStrictEqual(stats.map(({ size: _size, ...namespace }) => namespace), [
+            { namespace: 'list', entries: 2, oldest: now - 5000, newest: now, ttl: 60, expired: 1 },
+            { namespace: 'other', entries: 1, oldest: now, newest: now, ttl: undefined, expired: 0 }
+        ]);
+        assert.ok(stats.every(namespace => namespace.size > 0));
+
+        assert.strictEqual(await cacheManager.clearNamespace('list'), 2);
+        assert.deepStrictEqual(cacheManager.getStats().map(namespace => namespace.namespace), ['other']);
+        assert.strictEqual(memento.get('unrelated'), 'kept');
+    });
+
     test('Cache persistence across multiple operations', async () => {
         // Set multiple values
         await cacheManager.set('user', { name: 'John', age: 30 });
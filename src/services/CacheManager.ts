@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { CacheLookup, CacheMigrationResult, CacheNamespace, CacheNamespaceStats } from '../models/types';
 
 /**
  * Cache entry with TTL support
@@ -7,6 +8,8 @@ interface CacheEntry<T> {
     value: T;
     timestamp: number;
     ttl?: number;
+    // Schema version of the value; entries written before versioning are version 1
+    version?: number;
 }
 
 /**
@@ -16,7 +19,54 @@ interface CacheEntry<T> {
 export class CacheManager {
     private readonly CACHE_PREFIX = 'steeringDocs.cache.';
 
-    constructor(private readonly globalState: vscode.Memento) {}
+    /**
+     * @param globalState Storage for the cache entries
+     * @param namespaces Schemas of the versioned namespaces; entries of other namespaces aren't versioned
+     */
+    constructor(
+        private readonly globalState: vscode.Memento,
+        private readonly namespaces: Record<string, CacheNamespace> = {}
+    ) {}
+
+    /**
+     * Upgrade entries written with an older schema version of their namespace, and discard
+     * those that have no migration path (or come from a newer version)
+     * Run on activation before the cache is used; namespaces are migrated independently
+     * @returns Number of entries upgraded and discarded
+     */
+    async migrate(): Promise<CacheMigrationResult> {
+        const result: CacheMigrationResult = { migrated: 0, discarded: 0 };
+
+        for (const cacheKey of this.globalState.keys()) {
+            if (!cacheKey.startsWith(this.CACHE_PREFIX)) {
+                continue;
+            }
+
+            const namespace = this.getNamespace(cacheKey.substring(this.CACHE_PREFIX.length));
+            const entry = this.globalState.get<CacheEntry<unknown>>(cacheKey);
+            if (!namespace || !entry || (entry.version ?? 1) === namespace.version) {
+                continue;
+            }
+
+            let value: unknown = entry.value;
+            let version = entry.version ?? 1;
+            while (value !== undefined && version < namespace.version) {
+                const migration = namespace.migrations?.[version];
+                value = migration ? migration(value) : undefined;
+                version++;
+            }
+
+            if (value === undefined || version !== namespace.version) {
+                await this.globalState.update(cacheKey, undefined);
+                result.discarded++;
+            } else {
+                await this.globalState.update(cacheKey, { ...entry, value, version });
+                result.migrated++;
+            }
+        }
+
+        return result;
+    }
 
     /**
      * Get a value from the cache
@@ -27,7 +77,7 @@ export class CacheManager {
         const cacheKey = this.CACHE_PREFIX + key;
         const entry = this.globalState.get<CacheEntry<T>>(cacheKey);
 
-        if (!entry) {
+        if (!entry || !this.isCurrentVersion(key, entry)) {
             return undefined;
         }
 
@@ -45,6 +95,25 @@ export class CacheManager {
         return entry.value;
     }
 
+    /**
+     * Get a cache entry whether or not it has expired
+     * Unlike get, expired entries are kept so they can be shown while they are refreshed
+     * @param key Cache key
+     * @returns The cached value with its age, or undefined if not found
+     */
+    getEntry<T>(key: string): CacheLookup<T> | undefined {
+        const entry = this.globalState.get<CacheEntry<T>>(this.CACHE_PREFIX + key);
+        if (!entry || !this.isCurrentVersion(key, entry)) {
+            return undefined;
+        }
+
+        return {
+            value: entry.value,
+            timestamp: entry.timestamp,
+            expired: entry.ttl !== undefined && Date.now() - entry.timestamp > entry.ttl * 1000
+        };
+    }
+
     /**
      * Set a value in the cache
      * @param key Cache key
@@ -56,7 +125,8 @@ export class CacheManager {
         const entry: CacheEntry<T> = {
             value,
             timestamp: Date.now(),
-            ttl
+            ttl,
+            version: this.getNamespace(key)?.version
         };
 
         await this.globalState.update(cacheKey, entry);
@@ -81,6 +151,63 @@ export class CacheManager {
         }
     }
 
+    /**
+     * Clear all entries of a namespace
+     * @param namespace Namespace, the part of the cache keys before the first ":"
+     * @returns Number of entries removed
+     */
+    async clearNamespace(namespace: string): Promise<number> {
+        let removed = 0;
+        for (const cacheKey of this.globalState.keys()) {
+            if (!cacheKey.startsWith(this.CACHE_PREFIX)) {
+                continue;
+            }
+            if (this.getNamespaceName(cacheKey.substring(this.CACHE_PREFIX.length)) === namespace) {
+                await this.globalState.update(cacheKey, undefined);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Summarize the stored entries per namespace, including expired ones
+     * @returns Usage of each namespace that has entries, sorted by namespace
+     */
+    getStats(): CacheNamespaceStats[] {
+        const stats = new Map<string, CacheNamespaceStats>();
+        const now = Date.now();
+
+        for (const cacheKey of this.globalState.keys()) {
+            if (!cacheKey.startsWith(this.CACHE_PREFIX)) {
+                continue;
+            }
+
+            const entry = this.globalState.get<CacheEntry<unknown>>(cacheKey);
+            if (!entry) {
+                continue;
+            }
+
+            const namespace = this.getNamespaceName(cacheKey.substring(this.CACHE_PREFIX.length));
+            const current = stats.get(namespace)
+                ?? { namespace, entries: 0, size: 0, oldest: entry.timestamp, newest: 0, expired: 0 };
+
+            current.entries++;
+            current.size += Buffer.byteLength(cacheKey) + Buffer.byteLength(JSON.stringify(entry) ?? '');
+            current.oldest = Math.min(current.oldest, entry.timestamp);
+            if (entry.timestamp >= current.newest) {
+                current.newest = entry.timestamp;
+                current.ttl = entry.ttl;
+            }
+            if (entry.ttl !== undefined && now - entry.timestamp > entry.ttl * 1000) {
+                current.expired++;
+            }
+            stats.set(namespace, current);
+        }
+
+        return Array.from(stats.values()).sort((a, b) => a.namespace.localeCompare(b.namespace));
+    }
+
     /**
      * Check if a cache entry exists and is not expired
      * @param key Cache key
@@ -89,4 +216,34 @@ export class CacheManager {
     has(key: string): boolean {
         return this.get(key) !== undefined;
     }
+
+    /**
+     * Look up the schema of the namespace a key belongs to
+     * @param key Cache key
+     * @returns Schema of the namespace, or undefined if it isn't versioned
+     */
+    private getNamespace(key: string): CacheNamespace | undefined {
+        return this.namespaces[this.getNamespaceName(key)];
+    }
+
+    /**
+     * Get the namespace a key belongs to
+     * @param key Cache key
+     * @returns The part of the key before the first ":"
+     */
+    private getNamespaceName(key: string): string {
+        return key.split(':')[0];
+    }
+
+    /**
+     * Check that an entry was written with the current schema version of its namespace
+     * Guards against entries written after migrate ran, e.g. by an older window still open
+     * @param key Cache key
+     * @param entry Stored entry
+     * @returns True if the entry can be used
+     */
+    private isCurrentVersion(key: string, entry: CacheEntry<unknown>): boolean {
+        const namespace = this.getNamespace(key);
+        return !namespace || (entry.version ?? 1) === namespace.version;
+    }
 }
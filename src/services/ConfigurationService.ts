@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONTENT_CACHE_SIZE_MB } from './ContentCache';
+import { ErrorCode, ExtensionError, NetworkSettings, SourceConfig, SourceType } from '../models/types';
+
+/**
+ * Raw source entry as written in the steeringDocs.sources setting
+ */
+interface SourceSetting {
+    id?: string;
+    name?: string;
+    type?: string;
+    repository?: string;
+    path?: string;
+    branch?: string;
+    ref?: string;
+    token?: string;
+    baseUrl?: string;
+    apiBaseUrl?: string;
+    rawBaseUrl?: string;
+}
+
+/**
+ * Hosting services that have a source provider
+ */
+const SOURCE_TYPES: SourceType[] = ['github', 'gitlab', 'gitea', 'local', 'bundle'];
+
+/**
+ * Id used for the source built from the single-repository settings
+ */
+export const DEFAULT_SOURCE_ID = 'default';
+
+/**
+ * Service for reading the extension configuration
+ */
+export class ConfigurationService {
+    private readonly section = 'steeringDocs';
+    // Invalid source entries the user was last warned about, so each problem is reported once
+    private reportedInvalidSources = '';
+
+    /**
+     * Get the configured document sources
+     * Falls back to the single repository/branch/githubToken settings when no sources are listed,
+     * or when none of the listed sources is valid
+     * @returns Source configurations in the order they were configured
+     */
+    getSources(): SourceConfig[] {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const entries = config.get<SourceSetting[]>('sources', []);
+        const sources = Array.isArray(entries) ? this.normalizeSources(entries) : [];
+
+        return sources.length > 0
+            ? sources.map(({ source }) => source)
+            : [this.getDefaultSource(config)];
+    }
+
+    /**
+     * Get how long fetched document lists are cached
+     * @returns Cache timeout in seconds (0 disables caching)
+     */
+    getCacheTimeout(): number {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const timeout = config.get<number>('cacheTimeout', 3600);
+        return typeof timeout === 'number' && Number.isFinite(timeout) && timeout >= 0 ? timeout : 3600;
+    }
+
+    /**
+     * Get the size limit of the document content cache
+     * @returns Size limit in bytes (0 disables the cache)
+     */
+    getContentCacheSize(): number {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const size = config.get<number>('contentCacheSize', DEFAULT_CONTENT_CACHE_SIZE_MB);
+        const megabytes = typeof size === 'number' && Number.isFinite(size) && size >= 0 ? size : DEFAULT_CONTENT_CACHE_SIZE_MB;
+        return Math.round(megabytes * 1024 * 1024);
+    }
+
+    /**
+     * Get the proxy and TLS settings for outgoing requests
+     * Uses VS Code's http.proxy settings, falling back to the HTTPS_PROXY / HTTP_PROXY / NO_PROXY environment
+     * @returns Network settings
+     */
+    getNetworkSettings(): NetworkSettings {
+        const http = vscode.workspace.getConfiguration('http');
+        const config = vscode.workspace.getConfiguration(this.section);
+        const env = process.env;
+
+        const noProxySetting = http.get<string[]>('noProxy', []);
+        const proxy = http.get<string>('proxy', '').trim()
+            || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+            || undefined;
+        const noProxy = [
+            ...(Array.isArray(noProxySetting) ? noProxySetting : []),
+            ...(env.NO_PROXY || env.no_proxy || '').split(',')
+        ].map(entry => entry.trim()).filter(Boolean);
+        const caCertificates = config.get<string[]>('caCertificates', []);
+
+        return {
+            proxy,
+            proxyAuthorization: http.get<string | null>('proxyAuthorization', null) || undefined,
+            noProxy,
+            strictSSL: http.get<boolean>('proxyStrictSSL', true),
+            caCertificates: Array.isArray(caCertificates)
+                ? caCertificates.filter(file => typeof file === 'string' && file.trim()).map(file => this.resolvePath(file.trim()))
+                : []
+        };
+    }
+
+    /**
+     * Pin a source to a tag or commit SHA, or make it follow its branch again
+     * Writes to the settings scope (workspace or user) the source is configured in
+     * @param sourceId Id of the source to update
+     * @param ref Tag or commit SHA, or undefined to follow the branch
+     */
+    async setSourceRef(sourceId: string, ref: string | undefined): Promise<void> {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const entries = config.get<SourceSetting[]>('sources', []);
+
+        const sources = Array.isArray(entries) ? this.normalizeSources(entries) : [];
+        if (sources.length === 0) {
+            await config.update('ref', ref, this.getTarget(config, 'ref'));
+            return;
+        }
+
+        const match = sources.find(({ source }) => source.id === sourceId);
+        if (!match) {
+            throw new ExtensionError(
+                `Source not found: ${sourceId}`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+
+        const updated = entries.map((entry, index) => {
+            if (index !== match.index) {
+                return entry;
+            }
+            const { ref: _previous, ...rest } = entry;
+            return ref ? { ...rest, ref } : rest;
+        });
+        await config.update('sources', updated, this.getTarget(config, 'sources'));
+    }
+
+    /**
+     * Add an offline bundle as a document source
+     * When no sources are listed yet, the single-repository settings are kept as the first source
+     * unless the bundle replaces them
+     * @param bundlePath Absolute path of the bundle file
+     * @param name Display name of the source
+     * @param replace Whether the bundle replaces all other sources
+     */
+    async addBundleSource(bundlePath: string, name: string, replace: boolean): Promise<void> {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const entries = config.get<SourceSetting[]>('sources', []);
+        const bundleEntry: SourceSetting = { name, type: 'bundle', path: bundlePath };
+
+        let updated: SourceSetting[];
+        if (replace) {
+            updated = [bundleEntry];
+        } else if (Array.isArray(entries) && entries.length > 0) {
+            // A newer bundle of the same registry replaces the previous one
+            updated = [...entries.filter(entry => !(entry?.type === 'bundle' && entry.name === name)), bundleEntry];
+        } else {
+            const { id, name: defaultName, repository, branch, ref } = this.getSources()[0];
+            updated = [{ id, name: defaultName, repository, branch, ...(ref ? { ref } : {}) }, bundleEntry];
+        }
+
+        await config.update('sources', updated, this.getTarget(config, 'sources'));
+    }
+
+    /**
+     * Remove tokens from the githubToken and sources settings once they are kept in secret storage
+     * Cleans both the user and the workspace settings
+     */
+    async removeSettingTokens(): Promise<void> {
+        const config = vscode.workspace.getConfiguration(this.section);
+        const scopes: Array<[vscode.ConfigurationTarget, 'globalValue' | 'workspaceValue']> = [
+            [vscode.ConfigurationTarget.Global, 'globalValue'],
+            [vscode.ConfigurationTarget.Workspace, 'workspaceValue']
+        ];
+
+        for (const [target, scope] of scopes) {
+            if (config.inspect<string>('githubToken')?.[scope]) {
+                await config.update('githubToken', undefined, target);
+            }
+
+            const entries = config.inspect<SourceSetting[]>('sources')?.[scope];
+            if (Array.isArray(entries) && entries.some(entry => entry?.token)) {
+                const updated = entries.map(entry => {
+                    if (!entry?.token) {
+                        return entry;
+                    }
+                    const { token: _token, ...rest } = entry;
+                    return rest;
+                });
+                await config.update('sources', updated, target);
+            }
+        }
+    }
+
+    /**
+     * Find the settings scope a setting is defined in
+     * @param config Extension configuration
+     * @param key Setting key within the extension section
+     * @returns Workspace target if the workspace overrides the setting, otherwise the user settings
+     */
+    private getTarget(config: vscode.WorkspaceConfiguration, key: string): vscode.ConfigurationTarget {
+        const inspected = config.inspect(key);
+        return inspected?.workspaceValue !== undefined
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+    }
+
+    /**
+     * Build the source described by the single repository/branch/githubToken settings
+     * @param config Extension configuration
+     * @returns Default source configuration
+     */
+    private getDefaultSource(config: vscode.WorkspaceConfiguration): SourceConfig {
+        const repository = config.get<string>('repository', 'mikeartee/kiro-steering-docs');
+        return {
+            id: DEFAULT_SOURCE_ID,
+            name: repository,
+            type: 'github',
+            repository,
+            branch: config.get<string>('branch', 'main'),
+            ref: config.get<string>('ref', '').trim() || undefined,
+            token: config.get<string>('githubToken', '') || undefined
+        };
+    }
+
+    /**
+     * Validate source entries and assign each a unique id
+     * Invalid entries are skipped and reported to the user
+     * @param entries Raw source entries from settings
+     * @returns Normalized source configurations with the index of their settings entry
+     */
+    private normalizeSources(entries: SourceSetting[]): Array<{ index: number; source: SourceConfig }> {
+        const sources: Array<{ index: number; source: SourceConfig }> = [];
+        const usedIds = new Set<string>();
+        const invalid: string[] = [];
+
+        for (const [index, entry] of entries.entries()) {
+            if (!entry) {
+                continue;
+            }
+
+            const type = (entry.type || 'github') as SourceType;
+            if (!SOURCE_TYPES.includes(type)) {
+                console.warn(`[ConfigurationService] Ignoring source with unsupported type "${entry.type}":`, entry);
+                invalid.push(`entry ${index + 1} has unsupported type "${entry.type}"`);
+                continue;
+            }
+
+            // Local and bundle sources point at a folder or file instead of a repository
+            const onDisk = type === 'local' || type === 'bundle';
+            const location = onDisk ? entry.path : entry.repository;
+            if (typeof location !== 'string' || !location.trim()) {
+                console.warn(`[ConfigurationService] Ignoring source without a ${onDisk ? 'path' : 'repository'}:`, entry);
+                invalid.push(`entry ${index + 1} has no ${onDisk ? 'path' : 'repository'}`);
+                continue;
+            }
+
+            const repository = onDisk ? this.resolvePath(location.trim()) : location.trim();
+            const name = entry.name?.trim() || (onDisk ? path.basename(repository, path.extname(repository)) : repository);
+
+            // Derive a stable id from the explicit id, the display name or the repository
+            const baseId = this.toSourceId(entry.id || name);
+            let id = baseId;
+            let suffix = 2;
+            while (usedIds.has(id)) {
+                id = `${baseId}-${suffix++}`;
+            }
+            usedIds.add(id);
+
+            sources.push({
+                index,
+                source: {
+                    id,
+                    name,
+                    type,
+                    repository,
+                    branch: entry.branch?.trim() || 'main',
+                    ref: onDisk ? undefined : entry.ref?.trim() || undefined,
+                    token: entry.token || undefined,
+                    baseUrl: this.normalizeUrl(entry.baseUrl),
+                    apiBaseUrl: this.normalizeUrl(entry.apiBaseUrl),
+                    rawBaseUrl: this.normalizeUrl(entry.rawBaseUrl)
+                }
+            });
+        }
+
+        this.reportInvalidSources(invalid, sources.length === 0);
+        return sources;
+    }
+
+    /**
+     * Warn about invalid source entries, once for each distinct set of problems
+     * @param invalid Descriptions of the invalid entries
+     * @param usingDefault Whether the default repository is used because no entry is valid
+     */
+    private reportInvalidSources(invalid: string[], usingDefault: boolean): void {
+        const report = invalid.join('; ');
+        if (report === this.reportedInvalidSources) {
+            return;
+        }
+        this.reportedInvalidSources = report;
+
+        if (invalid.length > 0) {
+            const fallback = usingDefault ? ' Using the default repository instead.' : '';
+            vscode.window.showWarningMessage(`Ignoring invalid steeringDocs.sources entries: ${report}.${fallback}`);
+        }
+    }
+
+    /**
+     * Trim a URL setting and drop trailing slashes
+     * @param url URL from settings
+     * @returns Normalized URL, or undefined if not set
+     */
+    private normalizeUrl(url: string | undefined): string | undefined {
+        return url?.trim().replace(/\/+$/, '') || undefined;
+    }
+
+    /**
+     * Resolve a folder or file path from settings, expanding ~ and resolving relative paths
+     * against the first workspace folder
+     * @param folder Path from settings
+     * @returns Absolute path
+     */
+    private resolvePath(folder: string): string {
+        if (folder === '~' || folder.startsWith('~/')) {
+            return path.join(os.homedir(), folder.slice(1));
+        }
+
+        if (path.isAbsolute(folder)) {
+            return path.normalize(folder);
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder
+            ? path.resolve(workspaceFolder.uri.fsPath, folder)
+            : path.resolve(folder);
+    }
+
+    /**
+     * Convert a display value into a folder-safe source id
+     * @param value Id, name or repository of the source
+     * @returns Lowercase id containing only letters, digits and dashes
+     */
+    private toSourceId(value: string): string {
+        const id = value
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+        return id || 'source';
+    }
+}
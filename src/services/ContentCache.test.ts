@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentCache } from './ContentCache';
+import { gitBlobSha } from '../utils/gitHash';
+
+suite('ContentCache Tests', () => {
+    let folder: string;
+
+    setup(async () => {
+        folder = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'content-cache-')), 'content');
+    });
+
+    teardown(async () => {
+        await fs.rm(path.dirname(folder), { recursive: true, force: true });
+    });
+
+    test('put and get should store bodies by blob SHA and reject bodies that do not match it', async () => {
+        const cache = new ContentCache(folder, 1024);
+        const content = '# Testing\n\nWrite tests first.\n';
+        const sha = gitBlobSha(content);
+
+        assert.strictEqual(await cache.get(sha), undefined);
+        assert.strictEqual(await cache.put(sha, content, 'practices/testing.md'), true);
+        assert.strictEqual(await cache.put(gitBlobSha('other'), content), false, 'Bodies are checked against their SHA');
+        assert.strictEqual(await cache.get(sha), content);
+
+        // A new instance reads the index written by the first one
+        const reopened = new ContentCache(folder, 1024);
+        assert.strictEqual(await reopened.get(sha), content);
+        assert.deepStrictEqual((await reopened.getEntries()).map(entry => entry.path), ['practices/testing.md']);
+
+        // A damaged body is dropped instead of being returned
+        await fs.writeFile(path.join(folder, sha), 'tampered');
+        assert.strictEqual(await reopened.get(sha), undefined);
+        assert.strictEqual((await reopened.getStats()).entries, 0);
+    });
+
+    test('put should evict the least recently used bodies beyond the size limit', async () => {
+        const bodies = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+        const [first, second, third] = bodies.map(body => gitBlobSha(body));
+        const cache = new ContentCache(folder, 100);
+
+        await cache.put(first, bodies[0]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cache.put(second, bodies[1]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cache.get(first);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cache.put(third, bodies[2]);
+
+        assert.deepStrictEqual((await cache.getEntries()).map(entry => entry.sha), [third, first]);
+        assert.deepStrictEqual(await cache.getStats(), { entries: 2, size: 80, maxSize: 100 });
+        await assert.rejects(fs.stat(path.join(folder, second)), 'The evicted body should be deleted');
+
+        await cache.setMaxSize(50);
+        assert.deepStrictEqual((await cache.getEntries()).map(entry => entry.sha), [third]);
+
+        await cache.clear();
+        assert.deepStrictEqual(await cache.getStats(), { entries: 0, size: 0, maxSize: 50 });
+        await assert.rejects(fs.stat(folder));
+    });
+
+    test('the index should be rebuilt from the files when it is missing', async () => {
+        const content = '# Security\n';
+        const sha = gitBlobSha(content);
+        await new ContentCache(folder, 1024).put(sha, content);
+        await fs.rm(path.join(folder, 'index.json'));
+
+        const cache = new ContentCache(folder, 1024);
+        assert.deepStrictEqual((await cache.getStats()).entries, 1);
+        assert.strictEqual(await cache.get(sha), content);
+    });
+});
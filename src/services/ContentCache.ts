@@ -0,0 +1,249 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { gitBlobSha } from '../utils/gitHash';
+import { writeFileAtomic } from '../utils/fileSystem';
+import { ContentCacheEntry, ContentCacheStats } from '../models/types';
+
+/**
+ * Default size limit of the content cache, in megabytes
+ */
+export const DEFAULT_CONTENT_CACHE_SIZE_MB = 50;
+
+/**
+ * Name of the file listing the cached bodies, kept next to them
+ */
+const INDEX_FILE_NAME = 'index.json';
+
+/**
+ * Git blob SHAs, which are also the file names of the cached bodies
+ */
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * Content-addressed cache of document bodies, stored as files in the extension's storage folder
+ * (globalState is not meant for large values)
+ *
+ * Bodies are keyed by their git blob SHA, so a cached body never goes stale: a changed document
+ * has a new SHA in the document list. Bodies are checked against their SHA when stored and read,
+ * and the least recently used ones are evicted once the cache grows beyond its size limit.
+ *
+ * Does not depend on the VS Code API
+ */
+export class ContentCache {
+    private entries?: Promise<Map<string, ContentCacheEntry>>;
+    private saving: Promise<void> = Promise.resolve();
+
+    /**
+     * @param folder Folder the bodies are stored in, created on the first write
+     * @param maxSize Size limit in bytes (0 disables the cache)
+     */
+    constructor(private readonly folder: string, private maxSize: number) {}
+
+    /**
+     * Read a cached body and mark it as recently used
+     * @param sha Git blob SHA of the body
+     * @returns The body, or undefined if it isn't cached
+     */
+    async get(sha: string): Promise<string | undefined> {
+        const entries = await this.load();
+        const entry = entries.get(sha);
+        if (!entry) {
+            return undefined;
+        }
+
+        let data: Buffer | undefined;
+        try {
+            data = await fs.readFile(this.getFilePath(sha));
+        } catch {
+            // Deleted outside the extension
+        }
+
+        if (!data || gitBlobSha(data) !== sha) {
+            entries.delete(sha);
+            await fs.rm(this.getFilePath(sha), { force: true });
+            await this.save();
+            return undefined;
+        }
+
+        entry.lastUsed = Date.now();
+        await this.save();
+        return data.toString('utf-8');
+    }
+
+    /**
+     * Store a body, evicting the least recently used bodies if the cache grows beyond its limit
+     * @param sha Git blob SHA the body was listed with
+     * @param content Body to store
+     * @param documentPath Registry path the body was downloaded from, shown when inspecting the cache
+     * @returns Whether the body was stored; bodies that don't match their SHA or exceed the limit are not
+     */
+    async put(sha: string, content: string, documentPath?: string): Promise<boolean> {
+        const data = Buffer.from(content, 'utf-8');
+        if (!SHA_PATTERN.test(sha) || data.length > this.maxSize || gitBlobSha(data) !== sha) {
+            return false;
+        }
+
+        const entries = await this.load();
+        if (!entries.has(sha)) {
+            await fs.mkdir(this.folder, { recursive: true });
+            await writeFileAtomic(this.getFilePath(sha), data);
+        }
+
+        entries.set(sha, {
+            sha,
+            size: data.length,
+            lastUsed: Date.now(),
+            path: documentPath ?? entries.get(sha)?.path
+        });
+        await this.evict();
+        return true;
+    }
+
+    /**
+     * Get the cached bodies
+     * @returns Entries, most recently used first
+     */
+    async getEntries(): Promise<ContentCacheEntry[]> {
+        const entries = await this.load();
+        return Array.from(entries.values()).sort((a, b) => b.lastUsed - a.lastUsed);
+    }
+
+    /**
+     * Get the number and total size of the cached bodies
+     * @returns Cache usage and size limit
+     */
+    async getStats(): Promise<ContentCacheStats> {
+        const entries = await this.load();
+        let size = 0;
+        for (const entry of entries.values()) {
+            size += entry.size;
+        }
+        return { entries: entries.size, size, maxSize: this.maxSize };
+    }
+
+    /**
+     * Change the size limit, evicting bodies beyond the new limit
+     * @param maxSize Size limit in bytes (0 disables the cache)
+     */
+    async setMaxSize(maxSize: number): Promise<void> {
+        this.maxSize = maxSize;
+        await this.evict();
+    }
+
+    /**
+     * Delete all cached bodies
+     */
+    async clear(): Promise<void> {
+        this.entries = Promise.resolve(new Map());
+        await this.saving;
+        await fs.rm(this.folder, { recursive: true, force: true });
+    }
+
+    /**
+     * Delete the least recently used bodies until the cache fits its size limit, then save the index
+     */
+    private async evict(): Promise<void> {
+        const entries = await this.load();
+        let { size } = await this.getStats();
+
+        const leastRecentlyUsed = Array.from(entries.values()).sort((a, b) => a.lastUsed - b.lastUsed);
+        for (const entry of leastRecentlyUsed) {
+            if (size <= this.maxSize) {
+                break;
+            }
+            entries.delete(entry.sha);
+            size -= entry.size;
+            await fs.rm(this.getFilePath(entry.sha), { force: true });
+        }
+
+        await this.save();
+    }
+
+    /**
+     * Load the index on first use
+     * @returns Cached bodies keyed by SHA
+     */
+    private load(): Promise<Map<string, ContentCacheEntry>> {
+        if (!this.entries) {
+            this.entries = this.readIndex();
+        }
+        return this.entries;
+    }
+
+    /**
+     * Read the index and reconcile it with the files in the cache folder
+     * Files missing from the index (e.g. after a failed write) are added with their modification
+     * time as last use, index entries without a file are dropped
+     * @returns Cached bodies keyed by SHA
+     */
+    private async readIndex(): Promise<Map<string, ContentCacheEntry>> {
+        const entries = new Map<string, ContentCacheEntry>();
+
+        let files: string[];
+        try {
+            files = await fs.readdir(this.folder);
+        } catch {
+            return entries;
+        }
+
+        const indexed = new Map<string, ContentCacheEntry>();
+        try {
+            const parsed = JSON.parse(await fs.readFile(path.join(this.folder, INDEX_FILE_NAME), 'utf-8'));
+            for (const entry of Array.isArray(parsed) ? parsed : []) {
+                if (typeof entry?.sha === 'string' && typeof entry.size === 'number' && typeof entry.lastUsed === 'number') {
+                    indexed.set(entry.sha, entry);
+                }
+            }
+        } catch {
+            // Missing or damaged index, rebuilt from the files
+        }
+
+        for (const file of files) {
+            if (!SHA_PATTERN.test(file)) {
+                continue;
+            }
+
+            const entry = indexed.get(file);
+            if (entry) {
+                entries.set(file, entry);
+                continue;
+            }
+
+            try {
+                const stats = await fs.stat(path.join(this.folder, file));
+                entries.set(file, { sha: file, size: stats.size, lastUsed: stats.mtimeMs });
+            } catch {
+                // Deleted in the meantime
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Write the index after the writes already queued
+     * Failures are only logged, the index is rebuilt from the files when it can't be read
+     */
+    private save(): Promise<void> {
+        this.saving = this.saving
+            .then(async () => {
+                const entries = await this.load();
+                await fs.mkdir(this.folder, { recursive: true });
+                await writeFileAtomic(
+                    path.join(this.folder, INDEX_FILE_NAME),
+                    Buffer.from(JSON.stringify(Array.from(entries.values())), 'utf-8')
+                );
+            })
+            .catch(error => console.warn('Failed to save the content cache index:', error));
+        return this.saving;
+    }
+
+    /**
+     * Get the file a body is stored in
+     * @param sha Git blob SHA of the body
+     * @returns Absolute file path
+     */
+    private getFilePath(sha: string): string {
+        return path.join(this.folder, sha);
+    }
+}
@@ -8,11 +8,14 @@ import {
     FilePattern,
     SCORING_WEIGHTS
 } from '../models/types';
+import { SteeringRulesService } from './SteeringRulesService';
 
 /**
  * Service for scoring and ranking documents based on workspace context
  */
 export class DocumentMatcher {
+    constructor(private readonly rulesService: SteeringRulesService = new SteeringRulesService()) {}
+
     /**
      * Scores a single document based on workspace context
      * @param document Document to score
@@ -137,13 +140,13 @@ export class DocumentMatcher {
         }
 
         const matchedFrameworks: string[] = [];
+        const frameworkRules = this.rulesService.getRules().frameworks;
 
         for (const framework of frameworks) {
-            // Check if any document tag matches the framework name
-            const normalizedFrameworkName = framework.name.toLowerCase();
+            // Check if any document tag matches the framework name or one of its keywords
+            const keywords = this.rulesService.getKeywords(framework.name, frameworkRules[framework.name]);
             const hasMatch = document.tags.some(tag => 
-                tag.toLowerCase() === normalizedFrameworkName ||
-                tag.toLowerCase().includes(normalizedFrameworkName)
+                keywords.some(keyword => tag.toLowerCase().includes(keyword))
             );
 
             if (hasMatch) {
@@ -277,7 +280,8 @@ export class DocumentMatcher {
         }
 
         const matchedLanguages: string[] = [];
-        const normalizedLanguages = languages.map(l => l.toLowerCase());
+        const languageRules = this.rulesService.getRules().languages;
+        const normalizedLanguages = languages.flatMap(l => this.rulesService.getKeywords(l, languageRules[l]));
 
         for (const tag of document.tags) {
             const normalizedTag = tag.toLowerCase();
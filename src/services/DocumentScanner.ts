@@ -1,6 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { DocumentLocation } from '../models/types';
+import { DocumentLocation, ErrorCode, ExtensionError } from '../models/types';
 
 /**
  * Service for scanning the repository to find steering documents
@@ -23,17 +23,22 @@ export class DocumentScanner {
   /**
    * Scans the repository for all steering documents
    * @param repoRoot - Root directory of the repository
+   * @param categories - Category folders to scan (defaults to the built-in registry categories)
    * @returns Array of document locations with path and category
    */
-  async scanRepository(repoRoot: string): Promise<DocumentLocation[]> {
+  async scanRepository(repoRoot: string, categories: string[] = this.targetDirectories): Promise<DocumentLocation[]> {
     const documents: DocumentLocation[] = [];
 
-    for (const category of this.targetDirectories) {
+    for (const category of categories) {
+      if (this.excludedDirectories.includes(category)) {
+        continue;
+      }
+
       const categoryPath = path.join(repoRoot, category);
       
       try {
         await fs.access(categoryPath);
-        const categoryDocs = await this.scanDirectory(categoryPath, category);
+        const categoryDocs = await this.scanDirectory(categoryPath, category, categoryPath);
         documents.push(...categoryDocs);
       } catch (error) {
         // Directory doesn't exist, skip it
@@ -44,13 +49,48 @@ export class DocumentScanner {
     return documents;
   }
 
+  /**
+   * Reads the category folders listed in the repository's categories.json
+   * @param repoRoot - Root directory of the repository
+   * @returns Category ids, or undefined when the file doesn't exist
+   */
+  async readCategories(repoRoot: string): Promise<string[] | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(repoRoot, 'categories.json'), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new ExtensionError(
+        `Failed to read categories.json: ${error instanceof Error ? error.message : error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        false
+      );
+    }
+
+    try {
+      const categories = JSON.parse(content).categories;
+      return Array.isArray(categories)
+        ? categories.map(category => category?.id).filter((id): id is string => typeof id === 'string' && id !== '')
+        : [];
+    } catch (error) {
+      throw new ExtensionError(
+        `Invalid categories.json: ${error instanceof Error ? error.message : error}`,
+        ErrorCode.PARSE_ERROR,
+        false
+      );
+    }
+  }
+
   /**
    * Recursively scans a directory for markdown files
    * @param dir - Directory to scan
    * @param category - Category name (code-formatting, practices, agents)
+   * @param categoryRoot - Root directory of the category
    * @returns Array of document locations
    */
-  private async scanDirectory(dir: string, category: string): Promise<DocumentLocation[]> {
+  private async scanDirectory(dir: string, category: string, categoryRoot: string): Promise<DocumentLocation[]> {
     const documents: DocumentLocation[] = [];
     
     try {
@@ -66,12 +106,12 @@ export class DocumentScanner {
           }
 
           // Recursively scan subdirectories
-          const subDocs = await this.scanDirectory(fullPath, category);
+          const subDocs = await this.scanDirectory(fullPath, category, categoryRoot);
           documents.push(...subDocs);
         } else if (entry.isFile() && entry.name.endsWith('.md')) {
           // Check if this file should be included
           if (this.shouldInclude(fullPath)) {
-            const subcategory = this.determineSubcategory(fullPath);
+            const subcategory = this.determineSubcategory(fullPath, categoryRoot);
             documents.push({
               path: fullPath,
               category,
@@ -122,23 +162,18 @@ export class DocumentScanner {
   /**
    * Determines the subcategory from the file path
    * @param filePath - Full path to the file
+   * @param categoryRoot - Root directory of the file's category
    * @returns Subcategory name or undefined
    */
-  private determineSubcategory(filePath: string): string | undefined {
-    const pathParts = filePath.split(path.sep);
-    
-    // Find the category index first
-    const categoryIndex = pathParts.findIndex(part => 
-      this.targetDirectories.includes(part)
-    );
+  private determineSubcategory(filePath: string, categoryRoot: string): string | undefined {
+    const pathParts = path.relative(categoryRoot, filePath).split(path.sep);
 
-    if (categoryIndex !== -1 && categoryIndex < pathParts.length - 2) {
+    if (pathParts.length > 1) {
       // Return the directory immediately after the category
       // For example: code-formatting/languages/javascript.md -> languages
-      return pathParts[categoryIndex + 1];
+      return pathParts[0];
     }
 
     return undefined;
   }
 }
-
@@ -1,11 +1,35 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import { DocumentService } from './DocumentService';
 import { GitHubClient } from './GitHubClient';
 import { CacheManager } from './CacheManager';
+import { ContentCache } from './ContentCache';
 import { FrontmatterService } from './FrontmatterService';
-import { DocumentMetadata, ErrorCode, ExtensionError } from '../models/types';
+import { DocumentMetadata, ErrorCode, ExtensionError, RegistryIndexReport } from '../models/types';
+import { gitBlobSha, textBlobSha } from '../utils/gitHash';
+import { LockfileService } from './LockfileService';
+
+/**
+ * Create an in-memory memento that keeps the values it is given
+ */
+function createMemento(): vscode.Memento {
+    const storage = new Map<string, any>();
+    return {
+        keys: () => Array.from(storage.keys()),
+        get: <T>(key: string): T | undefined => storage.get(key),
+        update: async (key: string, value: any): Promise<void> => {
+            if (value === undefined) {
+                storage.delete(key);
+            } else {
+                storage.set(key, value);
+            }
+        }
+    };
+}
 
 suite('DocumentService Tests', () => {
     let documentService: DocumentService;
@@ -146,6 +170,609 @@ suite('DocumentService Tests', () => {
         }
     });
 
+    test('getLocalPath should keep primary source paths and prefix secondary sources', () => {
+        const service = new DocumentService(
+            [
+                { id: 'community', name: 'Community', client: new GitHubClient('test/community', 'main') },
+                { id: 'internal', name: 'Internal', client: new GitHubClient('test/internal', 'main') }
+            ],
+            mockCacheManager,
+            frontmatterService
+        );
+
+        const baseDoc: DocumentMetadata = {
+            name: 'api.md',
+            path: 'practices/api.md',
+            category: 'practices',
+            version: '1.0.0',
+            description: 'API guidelines',
+            sha: 'abc123',
+            size: 100,
+            downloadUrl: 'https://example.com/api.md'
+        };
+
+        assert.strictEqual(service.getLocalPath(baseDoc), 'practices/api.md',
+            'Documents without a source belong to the primary source');
+        assert.strictEqual(service.getLocalPath({ ...baseDoc, source: 'community' }), 'practices/api.md',
+            'Primary source documents keep their repository path');
+        assert.strictEqual(service.getLocalPath({ ...baseDoc, source: 'internal' }), 'internal/practices/api.md',
+            'Secondary source documents are placed in a folder named after the source');
+    });
+
+    test('fetchDocumentList should merge documents from all sources without collisions', async () => {
+        const createClient = (repository: string, sha: string): GitHubClient => {
+            const client = new GitHubClient(repository, 'main');
+            (client as any).getRawFileContent = async (path: string) => path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "1.0.0"\n---\n# Doc\n';
+            (client as any).getTree = async () => undefined;
+            (client as any).getRepositoryContents = async () => [{
+                name: 'api.md',
+                path: 'practices/api.md',
+                type: 'file',
+                sha,
+                size: 10,
+                download_url: `https://example.com/${repository}/api.md`
+            }];
+            return client;
+        };
+
+        const service = new DocumentService(
+            [
+                { id: 'community', name: 'Community', client: createClient('test/community', 'sha-1') },
+                { id: 'internal', name: 'Internal', client: createClient('test/internal', 'sha-2') }
+            ],
+            mockCacheManager,
+            frontmatterService
+        );
+
+        const documents = await service.fetchDocumentList();
+
+        assert.strictEqual(documents.length, 2, 'Should include the document from each source');
+        assert.deepStrictEqual(documents.map(doc => doc.source), ['community', 'internal'],
+            'Each document should record its source');
+        assert.deepStrictEqual(documents.map(doc => service.getLocalPath(doc)),
+            ['practices/api.md', 'internal/practices/api.md'],
+            'Same-path documents should map to different local paths');
+    });
+
+    test('invalidateSource should re-read only the changed source', async () => {
+        const listCalls: Record<string, number> = { remote: 0, local: 0 };
+        const createClient = (id: string) => {
+            const client = new GitHubClient(`test/${id}`, 'main');
+            (client as any).getRawFileContent = async (path: string) => path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "1.0.0"\n---\n# Doc\n';
+            (client as any).getTree = async () => undefined;
+            (client as any).getRepositoryContents = async () => {
+                listCalls[id]++;
+                return [{ name: 'api.md', path: 'practices/api.md', type: 'file', sha: id, size: 10, download_url: '' }];
+            };
+            return client;
+        };
+
+        const service = new DocumentService(
+            [
+                { id: 'remote', name: 'Remote', client: createClient('remote') },
+                { id: 'local', name: 'Local', client: createClient('local') }
+            ],
+            new CacheManager(createMemento()),
+            frontmatterService
+        );
+
+        await service.fetchDocumentList();
+        await service.invalidateSource('local');
+        const documents = await service.fetchDocumentList();
+
+        assert.strictEqual(documents.length, 2);
+        assert.deepStrictEqual(listCalls, { remote: 1, local: 2 },
+            'Only the invalidated source should be fetched again');
+    });
+
+    test('setSources should keep the cache of unchanged sources and drop replaced ones', async () => {
+        const listCalls: Record<string, number> = { community: 0, internal: 0, team: 0 };
+        const createClient = (id: string) => {
+            const client = new GitHubClient(`test/${id}`, 'main');
+            (client as any).getRawFileContent = async (path: string) => path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "1.0.0"\n---\n# Doc\n';
+            (client as any).getTree = async () => undefined;
+            (client as any).getRepositoryContents = async () => {
+                listCalls[id]++;
+                return [{ name: `${id}.md`, path: `practices/${id}.md`, type: 'file', sha: id, size: 10, download_url: '' }];
+            };
+            return client;
+        };
+
+        const community = { id: 'community', name: 'Community', client: createClient('community') };
+        const service = new DocumentService(
+            [community, { id: 'internal', name: 'Internal', client: createClient('internal') }],
+            new CacheManager(createMemento()),
+            frontmatterService
+        );
+        await service.fetchDocumentList();
+
+        await service.setSources([community, { id: 'internal', name: 'Team', client: createClient('team') }]);
+        const documents = await service.fetchDocumentList();
+
+        assert.deepStrictEqual(documents.map(doc => doc.path), ['practices/community.md', 'practices/team.md']);
+        assert.deepStrictEqual(listCalls, { community: 1, internal: 1, team: 1 },
+            'The unchanged source should be served from cache');
+    });
+
+    test('fetchDocumentContent should read documents with a blob SHA through the content cache', async () => {
+        const content = '# Testing\n';
+        const sha = gitBlobSha(content);
+        let downloads = 0;
+        const client = new GitHubClient('test/repo', 'main');
+        (client as any).getRawFileContent = async () => {
+            downloads++;
+            if (downloads > 1) {
+                throw new Error('getaddrinfo ENOTFOUND raw.githubusercontent.com');
+            }
+            return content;
+        };
+
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'content-cache-'));
+        try {
+            const contentCache = new ContentCache(folder, 1024);
+            const service = new DocumentService(client, mockCacheManager, frontmatterService, 3600, contentCache);
+
+            assert.strictEqual(await service.fetchDocumentContent('practices/testing.md', undefined, sha), content);
+            assert.strictEqual(await service.fetchDocumentContent('practices/testing.md', undefined, sha), content,
+                'The cached body should be returned without network access');
+            assert.strictEqual(downloads, 1);
+
+            await assert.rejects(service.fetchDocumentContent('practices/testing.md'),
+                'Documents without a SHA are always downloaded');
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    });
+
+    test('mergeLocalChanges should keep local edits and frontmatter keys and mark conflicting hunks', () => {
+        const base = '---\nversion: 1.0.0\ninclusion: always\nsha: aaa\n---\n# Testing\n\nUse Jest.\n\nRun tests in CI.\n';
+        const local = '---\nversion: 1.0.0\ninclusion: always\nsha: aaa\nteam: platform\n---\n# Testing\n\nUse Jest.\nMock the database.\n\nRun tests in CI.\n';
+        const incoming = '---\nversion: 2.0.0\ninclusion: always\nsha: bbb\n---\n# Testing\n\nUse Jest.\n\nRun tests in CI on every push.\n';
+
+        const merged = (documentService as any).mergeLocalChanges(base, local, incoming, '2.0.0');
+
+        assert.strictEqual(merged.conflicts, 0);
+        const { frontmatter, body } = frontmatterService.parse(merged.text);
+        assert.deepStrictEqual(frontmatter, { version: '2.0.0', inclusion: 'always', sha: 'bbb', team: 'platform' });
+        assert.strictEqual(body, '# Testing\n\nUse Jest.\nMock the database.\n\nRun tests in CI on every push.\n');
+
+        const conflicting = local.replace('Run tests in CI.', 'Run tests nightly.');
+        const conflicted = (documentService as any).mergeLocalChanges(base, conflicting, incoming, '2.0.0');
+
+        assert.strictEqual(conflicted.conflicts, 1);
+        assert.match(
+            conflicted.text,
+            /<<<<<<< Local changes\nRun tests nightly\.\n=======\nRun tests in CI on every push\.\n>>>>>>> Version 2\.0\.0/
+        );
+        assert.match(conflicted.text, /Mock the database\./, 'Non-conflicting local edits are kept');
+    });
+
+    /**
+     * Run a test with a temporary folder as the open workspace
+     */
+    const withWorkspace = async (run: (rootPath: string) => Promise<void>): Promise<void> => {
+        const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'update-workspace-'));
+        const original = Object.getOwnPropertyDescriptor(vscode.workspace, 'workspaceFolders');
+        Object.defineProperty(vscode.workspace, 'workspaceFolders', {
+            value: [{ uri: vscode.Uri.file(rootPath), name: 'test', index: 0 }],
+            configurable: true
+        });
+        try {
+            await run(rootPath);
+        } finally {
+            if (original) {
+                Object.defineProperty(vscode.workspace, 'workspaceFolders', original);
+            } else {
+                delete (vscode.workspace as any).workspaceFolders;
+            }
+            await fs.rm(rootPath, { recursive: true, force: true });
+        }
+    };
+
+    /**
+     * Install version 1 of practices/testing.md, optionally edit it, and return version 2 as its update
+     * @param edit Local edit of the installed content
+     * @param installedAvailable Whether version 1 can still be fetched by SHA as the merge base
+     */
+    const installForUpdate = async (
+        rootPath: string,
+        edit: (content: string) => string = content => content,
+        installedAvailable: boolean = true
+    ) => {
+        const v1 = '---\nversion: 1.0.0\n---\n# Testing\n\nUse Jest.\n\nRun tests in CI.\n';
+        const v2 = '---\nversion: 2.0.0\n---\n# Testing\n\nUse Jest.\n\nRun tests in CI on every push.\n';
+        const client = new GitHubClient('test/repo', 'main');
+        (client as any).getRawFileContent = async () => v2;
+        (client as any).getBlobContent = async (sha: string) => {
+            if (!installedAvailable || sha !== gitBlobSha(v1)) {
+                throw new ExtensionError('Blob not found', ErrorCode.NOT_FOUND, false);
+            }
+            return v1;
+        };
+
+        const service = new DocumentService(client, mockCacheManager, frontmatterService);
+        const installedDoc: DocumentMetadata = {
+            name: 'testing.md',
+            path: 'practices/testing.md',
+            category: 'practices',
+            version: '1.0.0',
+            description: 'Testing guidelines',
+            sha: gitBlobSha(v1),
+            size: v1.length,
+            downloadUrl: ''
+        };
+        const installed = service.renderDocumentContent(v1, installedDoc, 'always');
+        const filePath = path.join(rootPath, '.kiro', 'steering', 'practices', 'testing.md');
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, edit(installed));
+        await (service as any).lockDocument(rootPath, installedDoc, installed);
+
+        return { service, filePath, newDoc: { ...installedDoc, version: '2.0.0', sha: gitBlobSha(v2) } };
+    };
+
+    test('prepareUpdate should use the new version as is when there are no local changes', async () => {
+        await withWorkspace(async rootPath => {
+            const { service, filePath, newDoc } = await installForUpdate(rootPath);
+
+            const update = await service.prepareUpdate(newDoc);
+
+            assert.strictEqual(update.merged, false);
+            assert.strictEqual(update.discardsLocalChanges, false);
+            assert.strictEqual(update.conflicts, 0);
+            assert.strictEqual(update.content, update.upstreamContent);
+            assert.match(update.content, /Run tests in CI on every push\./);
+            assert.match(update.content, /inclusion: always/, 'The inclusion mode is kept');
+
+            await service.applyUpdate(update);
+
+            assert.strictEqual(await fs.readFile(filePath, 'utf-8'), update.content);
+            const entry = (await new LockfileService().read(rootPath)).documents['practices/testing.md'];
+            assert.strictEqual(entry.sha, newDoc.sha);
+            assert.strictEqual(entry.contentSha, textBlobSha(update.content));
+        });
+    });
+
+    test('prepareUpdate should merge local changes into the new version', async () => {
+        await withWorkspace(async rootPath => {
+            const { service, filePath, newDoc } = await installForUpdate(
+                rootPath,
+                content => content.replace('Use Jest.\n', 'Use Jest.\nMock the database.\n')
+            );
+
+            const update = await service.prepareUpdate(newDoc);
+
+            assert.strictEqual(update.merged, true);
+            assert.strictEqual(update.discardsLocalChanges, false);
+            assert.strictEqual(update.conflicts, 0);
+            assert.match(update.content, /Mock the database\.\n\nRun tests in CI on every push\./);
+            assert.doesNotMatch(update.upstreamContent, /Mock the database/);
+
+            await service.applyUpdate(update);
+
+            // The lockfile records the upstream content, so the merged document stays modified
+            assert.strictEqual(await fs.readFile(filePath, 'utf-8'), update.content);
+            const entry = (await new LockfileService().read(rootPath)).documents['practices/testing.md'];
+            assert.strictEqual(entry.contentSha, textBlobSha(update.upstreamContent));
+        });
+    });
+
+    test('prepareUpdate should report discarded local changes when the installed version is unavailable', async () => {
+        await withWorkspace(async rootPath => {
+            const { service, newDoc } = await installForUpdate(
+                rootPath,
+                content => `${content}Local notes\n`,
+                false
+            );
+
+            const update = await service.prepareUpdate(newDoc);
+
+            assert.strictEqual(update.merged, false);
+            assert.strictEqual(update.discardsLocalChanges, true);
+            assert.strictEqual(update.content, update.upstreamContent);
+            assert.match(update.currentContent, /Local notes/);
+        });
+    });
+
+    test('applyUpdate should refuse to overwrite a document changed after the update was prepared', async () => {
+        await withWorkspace(async rootPath => {
+            const { service, filePath, newDoc } = await installForUpdate(rootPath);
+            const update = await service.prepareUpdate(newDoc);
+
+            const edited = `${update.currentContent}Edited during review\n`;
+            await fs.writeFile(filePath, edited);
+
+            await assert.rejects(
+                service.applyUpdate(update),
+                (error: ExtensionError) => error.code === ErrorCode.FILE_SYSTEM_ERROR
+                    && /changed after the update was prepared/.test(error.message)
+            );
+            assert.strictEqual(await fs.readFile(filePath, 'utf-8'), edited);
+        });
+    });
+
+    test('cacheTimeout should control how long document lists are cached', async () => {
+        let listCalls = 0;
+        const client = new GitHubClient('test/repo', 'main');
+        (client as any).getTree = async () => undefined;
+        (client as any).getRawFileContent = async () =>
+            JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] });
+        (client as any).getRepositoryContents = async () => {
+            listCalls++;
+            return [];
+        };
+
+        const memento = createMemento();
+        const service = new DocumentService(client, new CacheManager(memento), frontmatterService, 120);
+        await service.fetchDocumentList();
+
+        const entry = memento.get<{ ttl?: number }>('steeringDocs.cache.documentList:default');
+        assert.strictEqual(entry?.ttl, 120);
+
+        // A timeout of 0 disables caching
+        service.setCacheTimeout(0);
+        await service.fetchDocumentList();
+        await service.fetchDocumentList();
+        assert.strictEqual(listCalls, 3);
+    });
+
+    test('getDocumentList should return an expired list right away and refresh it in the background', async () => {
+        let fail = false;
+        let listCalls = 0;
+        const client = new GitHubClient('test/repo', 'main');
+        (client as any).getTree = async () => {
+            if (fail) {
+                throw new Error('getaddrinfo ENOTFOUND api.github.com');
+            }
+            return undefined;
+        };
+        (client as any).getRawFileContent = async (path: string) => path === 'categories.json'
+            ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+            : '---\nversion: "2.0.0"\ntags: ["api"]\n---\n# Doc\n';
+        (client as any).getRepositoryContents = async () => {
+            listCalls++;
+            return [{ name: 'fresh.md', path: 'practices/fresh.md', type: 'file', sha: 'fresh', size: 10, download_url: '' }];
+        };
+
+        // A list cached two hours ago with a one hour timeout
+        const memento = createMemento();
+        const refreshedAt = Date.now() - 2 * 60 * 60 * 1000;
+        const expired: DocumentMetadata[] = [{
+            name: 'old.md', path: 'practices/old.md', category: 'practices', version: '1.0.0',
+            description: '', sha: 'old', size: 10, downloadUrl: '', tags: []
+        }];
+        await memento.update('steeringDocs.cache.documentList', { value: expired, timestamp: refreshedAt, ttl: 3600 });
+
+        const service = new DocumentService(client, new CacheManager(memento), frontmatterService);
+        const states: boolean[] = [];
+        service.onDidChangeDocumentListState(state => states.push(state.refreshing));
+
+        const shown = await service.getDocumentList();
+        assert.deepStrictEqual(shown.map(doc => doc.name), ['old.md'], 'The expired list should be shown without waiting');
+        assert.deepStrictEqual(service.getDocumentListState(), { refreshedAt, stale: true, refreshing: true, offline: false });
+
+        const fresh = await service.revalidate();
+        assert.deepStrictEqual(fresh.map(doc => doc.name), ['fresh.md']);
+        assert.strictEqual(listCalls, 1, 'Concurrent refreshes should share one fetch');
+        assert.deepStrictEqual(states, [true, false]);
+        assert.deepStrictEqual((await service.getDocumentList()).map(doc => doc.name), ['fresh.md']);
+        assert.strictEqual(service.getDocumentListState().stale, false);
+
+        // A failed refresh keeps the last list and reports the offline state
+        fail = true;
+        await assert.rejects(service.revalidate(), /ENOTFOUND/);
+        const state = service.getDocumentListState();
+        assert.strictEqual(state.offline, true);
+        assert.strictEqual(state.refreshing, false);
+        assert.deepStrictEqual((await service.getDocumentList()).map(doc => doc.name), ['fresh.md']);
+    });
+
+    test('getDocumentList should show a partial refresh and not refresh again right away', async () => {
+        let listCalls = 0;
+        const createClient = (reachable: boolean): GitHubClient => {
+            const client = new GitHubClient('test/repo', 'main');
+            (client as any).getTree = async () => {
+                if (!reachable) {
+                    throw new Error('getaddrinfo ENOTFOUND git.internal');
+                }
+                return undefined;
+            };
+            (client as any).getRawFileContent = async (path: string) => path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "2.0.0"\n---\n# Doc\n';
+            (client as any).getRepositoryContents = async () => {
+                listCalls++;
+                return [{ name: 'fresh.md', path: 'practices/fresh.md', type: 'file', sha: 'fresh', size: 10, download_url: '' }];
+            };
+            return client;
+        };
+
+        const memento = createMemento();
+        const expired: DocumentMetadata[] = [{
+            name: 'old.md', path: 'practices/old.md', category: 'practices', version: '1.0.0',
+            description: '', sha: 'old', size: 10, downloadUrl: '', tags: []
+        }];
+        await memento.update('steeringDocs.cache.documentList', {
+            value: expired,
+            timestamp: Date.now() - 2 * 60 * 60 * 1000,
+            ttl: 3600
+        });
+
+        const service = new DocumentService(
+            [
+                { id: 'community', name: 'Community', client: createClient(true) },
+                { id: 'internal', name: 'Internal', client: createClient(false) }
+            ],
+            new CacheManager(memento),
+            frontmatterService
+        );
+
+        await service.getDocumentList();
+        await service.revalidate();
+        assert.strictEqual(listCalls, 1);
+
+        // The state change refreshes the tree, which must not start another refresh
+        assert.deepStrictEqual((await service.getDocumentList()).map(doc => doc.name), ['fresh.md'],
+            'The partial result should replace the expired list on screen');
+        assert.strictEqual(service.getDocumentListState().refreshing, false);
+        assert.strictEqual(listCalls, 1);
+    });
+
+    test('fetchDocumentList should list with one tree call and only download unknown blobs', async () => {
+        const client = new GitHubClient('test/repo', 'main');
+        const downloads: string[] = [];
+        let treeCalls = 0;
+        let tree = [
+            { name: 'categories.json', path: 'categories.json', type: 'file', sha: 'cat-1', size: 10, downloadUrl: '' },
+            { name: 'practices', path: 'practices', type: 'dir', sha: 'tree-1', size: 0, downloadUrl: '' },
+            { name: 'api.md', path: 'practices/api.md', type: 'file', sha: 'doc-1', size: 10, downloadUrl: '' },
+            { name: 'README.md', path: 'practices/README.md', type: 'file', sha: 'readme-1', size: 10, downloadUrl: '' }
+        ];
+        (client as any).getTree = async () => {
+            treeCalls++;
+            return tree;
+        };
+        (client as any).getRepositoryContents = async () => {
+            throw new Error('Directories should not be listed when a tree is available');
+        };
+        (client as any).getRawFileContent = async (path: string) => {
+            downloads.push(path);
+            return path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "2.0.0"\ntags: ["api"]\n---\n# Doc\n';
+        };
+
+        const service = new DocumentService(client, new CacheManager(createMemento()), frontmatterService);
+
+        const first = await service.fetchDocumentList();
+        assert.strictEqual(first.length, 1, 'README.md should be skipped');
+        assert.deepStrictEqual(downloads, ['categories.json', 'practices/api.md']);
+
+        // Unchanged registry: one tree call, no downloads
+        downloads.length = 0;
+        service.clearCache();
+        const second = await service.fetchDocumentList();
+        assert.strictEqual(treeCalls, 2);
+        assert.deepStrictEqual(downloads, []);
+        assert.strictEqual(second[0].version, '2.0.0', 'Frontmatter should be reused from the blob cache');
+        assert.deepStrictEqual(second[0].tags, ['api']);
+
+        // Changed document: only that document is downloaded
+        tree = tree.map(item => item.path === 'practices/api.md' ? { ...item, sha: 'doc-2' } : item);
+        service.clearCache();
+        await service.fetchDocumentList();
+        assert.deepStrictEqual(downloads, ['practices/api.md']);
+    });
+
+    test('fetchDocumentList should load the catalog from index.json when the registry publishes one', async () => {
+        const client = new GitHubClient('test/repo', 'main');
+        const downloads: string[] = [];
+        (client as any).getTree = async () => [
+            { name: 'index.json', path: 'index.json', type: 'file', sha: 'index-1', size: 10, downloadUrl: '' },
+            { name: 'categories.json', path: 'categories.json', type: 'file', sha: 'cat-1', size: 10, downloadUrl: '' }
+        ];
+        (client as any).getRawFileContent = async (path: string) => {
+            downloads.push(path);
+            return JSON.stringify({
+                version: 1,
+                documents: [
+                    {
+                        name: 'api.md',
+                        path: 'practices/api.md',
+                        category: 'practices',
+                        version: '2.0.0',
+                        sha: 'ce013625030ba8dba906f756967f9e9ca394464a',
+                        tags: ['api']
+                    },
+                    { name: 'broken.md', path: 'practices/broken.md' }
+                ]
+            });
+        };
+
+        const reports: RegistryIndexReport[] = [];
+        const service = new DocumentService(client, new CacheManager(createMemento()), frontmatterService);
+        service.onDidFindIndexProblems(report => reports.push(report));
+
+        const documents = await service.fetchDocumentList();
+
+        assert.deepStrictEqual(downloads, ['index.json'], 'Only the index should be downloaded');
+        assert.deepStrictEqual(documents.map(doc => [doc.path, doc.version, doc.source]), [['practices/api.md', '2.0.0', 'default']]);
+        assert.deepStrictEqual(documents[0].tags, ['api']);
+        assert.strictEqual(reports.length, 1);
+        assert.strictEqual(reports[0].usedIndex, true);
+        assert.strictEqual(reports[0].problems[0].location, 'documents[1] (practices/broken.md)');
+    });
+
+    test('fetchDocumentList should crawl the registry when index.json is missing or unusable', async () => {
+        const client = new GitHubClient('test/repo', 'main');
+        let index: string | undefined = '{"documents": "all"}';
+        (client as any).getTree = async () => undefined;
+        (client as any).getRawFileContent = async (path: string) => {
+            if (path === 'index.json') {
+                if (index === undefined) {
+                    throw new ExtensionError('Resource not found', ErrorCode.NOT_FOUND, false);
+                }
+                return index;
+            }
+            return path === 'categories.json'
+                ? JSON.stringify({ categories: [{ id: 'practices', label: 'Practices', description: '' }] })
+                : '---\nversion: "1.5.0"\n---\n# Doc\n';
+        };
+        (client as any).getRepositoryContents = async () =>
+            [{ name: 'api.md', path: 'practices/api.md', type: 'file', sha: 'doc-1', size: 10, download_url: '' }];
+
+        const reports: RegistryIndexReport[] = [];
+        const service = new DocumentService(client, new CacheManager(createMemento()), frontmatterService);
+        service.onDidFindIndexProblems(report => reports.push(report));
+
+        const crawled = await service.fetchDocumentList();
+        assert.deepStrictEqual(crawled.map(doc => [doc.path, doc.version]), [['practices/api.md', '1.5.0']]);
+        assert.strictEqual(reports.length, 1);
+        assert.strictEqual(reports[0].usedIndex, false);
+
+        // A registry without an index is crawled without reporting anything
+        index = undefined;
+        service.clearCache();
+        assert.strictEqual((await service.fetchDocumentList()).length, 1);
+        assert.strictEqual(reports.length, 1);
+    });
+
+    test('checkForRegistryReleases should report newer releases for pinned sources only', async () => {
+        const createClient = (repository: string) => {
+            const client = new GitHubClient(repository, 'main');
+            (client as any).listRefs = async () => [
+                { name: 'v2.0.0-rc.1', type: 'release', sha: 'sha-rc', prerelease: true },
+                { name: 'v1.2.0', type: 'release', sha: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' },
+                { name: 'v1.1.0', type: 'tag', sha: 'sha-110' }
+            ];
+            return client;
+        };
+
+        const service = new DocumentService(
+            [
+                { id: 'old', name: 'Old', ref: 'v1.1.0', client: createClient('test/old') },
+                { id: 'current', name: 'Current', ref: 'v1.2.0', client: createClient('test/current') },
+                { id: 'commit', name: 'Commit', ref: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', client: createClient('test/commit') },
+                { id: 'other-commit', name: 'Other Commit', ref: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', client: createClient('test/other') },
+                { id: 'branch', name: 'Branch', client: createClient('test/branch') }
+            ],
+            mockCacheManager,
+            frontmatterService
+        );
+
+        const releases = await service.checkForRegistryReleases();
+
+        assert.deepStrictEqual(releases.map(release => [release.sourceId, release.latestRelease]), [
+            ['old', 'v1.2.0'],
+            ['other-commit', 'v1.2.0']
+        ], 'Pre-releases, up-to-date pins and unpinned sources should not be reported');
+    });
+
     /**
      * Feature: folder-structure-support, Property 1: Installation path preservation
      * Validates: Requirements 1.2, 1.4
@@ -1,28 +1,207 @@
 import * as vscode from 'vscode';
-import { GitHubClient } from './GitHubClient';
 import { CacheManager } from './CacheManager';
+import { ContentCache } from './ContentCache';
+import { gitBlobSha, textBlobSha } from '../utils/gitHash';
+import { MergeResult, mergeLines } from '../utils/diff';
 import { FrontmatterService } from './FrontmatterService';
+import { DEFAULT_SOURCE_ID } from './ConfigurationService';
+import { INDEX_FILE, RegistryIndexService } from './RegistryIndexService';
+import { LOCKFILE, LockfileService, STEERING_DIR } from './LockfileService';
 import {
     DocumentMetadata,
     InstalledDocument,
+    LockedDocument,
     UpdateInfo,
+    CacheLookup,
     CategoryDefinition,
+    DocumentListState,
     ErrorCode,
-    ExtensionError
+    ExtensionError,
+    RegistryIndexReport,
+    RegistryReleaseInfo,
+    SourceEntry,
+    SourceProvider
 } from '../models/types';
 
+/**
+ * A repository that steering documents are fetched from
+ */
+export interface DocumentSource {
+    id: string;
+    name: string;
+    // Tag or commit SHA the source is pinned to, if any
+    ref?: string;
+    // Repository and branch recorded in the lockfile for installed documents
+    repository?: string;
+    branch?: string;
+    client: SourceProvider;
+}
+
+/**
+ * Update of an installed document, worked out but not yet written
+ */
+export interface PreparedUpdate {
+    // Metadata of the new version
+    document: DocumentMetadata;
+    fileUri: vscode.Uri;
+    currentContent: string;
+    // Content the update writes: the new version, with local changes merged in if there are any
+    content: string;
+    // New version as installing it would write it, recorded in the lockfile
+    upstreamContent: string;
+    merged: boolean;
+    // Number of hunks changed both locally and upstream, written with conflict markers
+    conflicts: number;
+    // True when local changes will be lost because the installed version couldn't be fetched to merge them
+    discardsLocalChanges: boolean;
+}
+
+/**
+ * Parsed content of previously downloaded blobs, keyed by git blob SHA
+ */
+interface BlobMetadataCache {
+    categories?: { sha: string; categories: CategoryDefinition[] };
+    frontmatter: Record<string, Record<string, any>>;
+}
+
+/**
+ * Blob metadata known before a fetch and collected during it
+ */
+interface BlobMetadata {
+    known: BlobMetadataCache;
+    next: BlobMetadataCache;
+}
+
+/**
+ * How long to wait before refreshing an expired document list in the background again
+ * after a refresh failed, in milliseconds
+ */
+const REVALIDATION_RETRY_MS = 60 * 1000;
+
 /**
  * Service for managing steering documents
  */
 export class DocumentService {
     private readonly cacheKeyDocuments = 'documentList';
-    private readonly steeringDir = '.kiro/steering';
+    private readonly steeringDir = STEERING_DIR;
+    private sources: DocumentSource[];
+    private readonly registryIndexService = new RegistryIndexService();
+    private readonly lockfileService = new LockfileService();
+    private readonly indexProblemEmitter = new vscode.EventEmitter<RegistryIndexReport>();
+    private readonly listStateEmitter = new vscode.EventEmitter<DocumentListState>();
+    private refreshedAt?: number;
+    private offline = false;
+    private revalidation?: Promise<DocumentMetadata[]>;
+    private lastFailedRevalidation = 0;
+    // Result of the last fetch when it couldn't replace the cached list (a source failed)
+    private uncachedList?: { documents: DocumentMetadata[]; timestamp: number };
+    private sourcesFailed = false;
+
+    /**
+     * Fired when a source's index.json has invalid entries or can't be used at all
+     */
+    readonly onDidFindIndexProblems = this.indexProblemEmitter.event;
 
+    /**
+     * Fired when a background refresh of the document list starts and when it completes
+     */
+    readonly onDidChangeDocumentListState = this.listStateEmitter.event;
+
+    /**
+     * @param sources Document sources, or a single client used as the default source
+     * @param cacheTimeout How long fetched document lists are cached, in seconds
+     */
     constructor(
-        private readonly githubClient: GitHubClient,
+        sources: SourceProvider | DocumentSource[],
         private readonly cacheManager: CacheManager,
-        private readonly frontmatterService: FrontmatterService
-    ) {}
+        private readonly frontmatterService: FrontmatterService,
+        private cacheTimeout: number = 3600,
+        private readonly contentCache?: ContentCache
+    ) {
+        this.sources = Array.isArray(sources)
+            ? sources
+            : [{ id: DEFAULT_SOURCE_ID, name: 'Default', client: sources }];
+    }
+
+    /**
+     * Get the configured document sources
+     * @returns Sources in priority order (the first source is the primary one)
+     */
+    getSources(): DocumentSource[] {
+        return this.sources;
+    }
+
+    /**
+     * Replace the document sources after a configuration change
+     * Cached documents of sources that were removed or replaced are dropped;
+     * sources passed in unchanged (same object) keep their cache
+     * @param sources New document sources in priority order
+     */
+    async setSources(sources: DocumentSource[]): Promise<void> {
+        const previous = this.sources;
+        this.sources = sources;
+
+        await this.cacheManager.clear(this.cacheKeyDocuments);
+        for (const source of previous) {
+            if (!sources.includes(source)) {
+                await this.cacheManager.clear(this.getSourceCacheKey(source));
+            }
+        }
+    }
+
+    /**
+     * Change how long fetched document lists are cached
+     * Cached lists are dropped so the new timeout applies right away
+     * @param seconds Cache timeout in seconds
+     */
+    setCacheTimeout(seconds: number): void {
+        if (seconds === this.cacheTimeout) {
+            return;
+        }
+
+        this.cacheTimeout = seconds;
+        this.clearCache();
+    }
+
+    /**
+     * Look up a document source by id
+     * @param sourceId Source id (defaults to the primary source)
+     * @returns The matching document source
+     */
+    private getSource(sourceId?: string): DocumentSource {
+        if (!sourceId) {
+            return this.sources[0];
+        }
+
+        const source = this.sources.find(s => s.id === sourceId);
+        if (!source) {
+            throw new ExtensionError(
+                `Unknown document source "${sourceId}"`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+        return source;
+    }
+
+    /**
+     * Check whether a source id refers to the primary source
+     * @param sourceId Source id (undefined means the primary source)
+     */
+    private isPrimarySource(sourceId?: string): boolean {
+        return !sourceId || sourceId === this.sources[0]?.id;
+    }
+
+    /**
+     * Get the path of a document relative to the local steering directory
+     * Documents from the primary source keep their repository path, documents from
+     * other sources are placed in a folder named after the source so they cannot collide
+     * @param doc Document metadata
+     * @returns Relative local path like "agents/bmad-spec-converter.md" or "internal/agents/bmad-spec-converter.md"
+     */
+    getLocalPath(doc: DocumentMetadata): string {
+        return this.isPrimarySource(doc.source) ? doc.path : `${doc.source}/${doc.path}`;
+    }
 
     /**
      * Extract the directory portion from a document path
@@ -91,7 +270,9 @@ export class DocumentService {
                             installedAt: new Date(stats.mtime),
                             sha: frontmatter.sha || '',
                             inclusionMode: frontmatter.inclusion as 'always' | 'manual' | 'fileMatch' | undefined,
-                            fileMatchPattern: frontmatter.fileMatchPattern
+                            fileMatchPattern: frontmatter.fileMatchPattern,
+                            source: frontmatter.source,
+                            contentSha: textBlobSha(contentStr)
                         });
                     } catch (error) {
                         console.error(`Failed to read document ${name}:`, error);
@@ -111,55 +292,30 @@ export class DocumentService {
     }
 
     /**
-     * Recursively fetch markdown documents from a GitHub directory
+     * Recursively fetch markdown documents from a repository directory
+     * @param source Source repository to fetch from
      * @param dirPath Directory path to scan
      * @param categoryId Category ID for the documents
+     * @param blobs Frontmatter already known from previous fetches, updated with this fetch
      * @returns Array of document metadata
      */
     private async fetchDocumentsRecursive(
+        source: DocumentSource,
         dirPath: string,
-        categoryId: string
+        categoryId: string,
+        blobs: BlobMetadata
     ): Promise<DocumentMetadata[]> {
         const documents: DocumentMetadata[] = [];
 
         try {
-            const contents = await this.githubClient.getRepositoryContents(dirPath);
+            const contents = await source.client.listDirectory(dirPath);
 
             for (const item of contents) {
-                // Skip README.md files - they are repository documentation, not steering docs
-                if (item.type === 'file' && item.name.toLowerCase() === 'readme.md') {
-                    continue;
-                }
-
-                if (item.type === 'file' && item.name.endsWith('.md')) {
-                    // Fetch document content to parse frontmatter
-                    const content = await this.githubClient.getRawFileContent(item.path);
-                    const { frontmatter } = this.frontmatterService.parse(content);
-
-                    const doc = {
-                        name: item.name,
-                        path: item.path,
-                        category: categoryId,
-                        version: frontmatter.version || '1.0.0',
-                        description: frontmatter.description || '',
-                        sha: item.sha,
-                        size: item.size,
-                        downloadUrl: item.download_url,
-                        tags: frontmatter.tags || [],
-                        applicableTo: frontmatter.applicableTo || [],
-                        requiredDependencies: frontmatter.requiredDependencies || [],
-                        filePatterns: frontmatter.filePatterns || []
-                    };
-                    console.log('[DocumentService] Parsed document:', doc.name, {
-                        tags: doc.tags,
-                        requiredDependencies: doc.requiredDependencies,
-                        filePatterns: doc.filePatterns,
-                        applicableTo: doc.applicableTo
-                    });
-                    documents.push(doc);
+                if (this.isDocumentEntry(item)) {
+                    documents.push(await this.createDocumentMetadata(source, item, categoryId, blobs));
                 } else if (item.type === 'dir') {
                     // Recursively fetch documents from subdirectory
-                    const subDocs = await this.fetchDocumentsRecursive(item.path, categoryId);
+                    const subDocs = await this.fetchDocumentsRecursive(source, item.path, categoryId, blobs);
                     documents.push(...subDocs);
                 }
             }
@@ -171,88 +327,524 @@ export class DocumentService {
         return documents;
     }
 
+    /**
+     * Collect the markdown documents of a category from a full repository tree
+     * @param source Source repository to fetch from
+     * @param tree Every entry of the repository
+     * @param categoryId Category ID (also the category's root folder)
+     * @param blobs Frontmatter already known from previous fetches, updated with this fetch
+     * @returns Array of document metadata
+     */
+    private async collectTreeDocuments(
+        source: DocumentSource,
+        tree: SourceEntry[],
+        categoryId: string,
+        blobs: BlobMetadata
+    ): Promise<DocumentMetadata[]> {
+        const documents: DocumentMetadata[] = [];
+        const prefix = `${categoryId}/`;
+
+        for (const item of tree) {
+            if (!item.path.startsWith(prefix) || !this.isDocumentEntry(item)) {
+                continue;
+            }
+
+            try {
+                documents.push(await this.createDocumentMetadata(source, item, categoryId, blobs));
+            } catch (error) {
+                // Log error but continue - allows partial results if some files fail
+                console.error(`Failed to fetch document ${item.path}:`, error);
+            }
+        }
+
+        return documents;
+    }
+
+    /**
+     * Check whether a listing entry is a steering document
+     * @param item Listing entry
+     * @returns True for markdown files other than README.md
+     */
+    private isDocumentEntry(item: SourceEntry): boolean {
+        // Skip README.md files - they are repository documentation, not steering docs
+        return item.type === 'file' &&
+            item.name.endsWith('.md') &&
+            item.name.toLowerCase() !== 'readme.md';
+    }
+
+    /**
+     * Build document metadata, downloading the document only if its blob SHA is unknown
+     * @param source Source repository the document belongs to
+     * @param item Listing entry of the document
+     * @param categoryId Category ID for the document
+     * @param blobs Frontmatter already known from previous fetches, updated with this document
+     * @returns Document metadata
+     */
+    private async createDocumentMetadata(
+        source: DocumentSource,
+        item: SourceEntry,
+        categoryId: string,
+        blobs: BlobMetadata
+    ): Promise<DocumentMetadata> {
+        let frontmatter = item.sha ? blobs.known.frontmatter[item.sha] : undefined;
+        if (!frontmatter) {
+            // Fetch document content to parse frontmatter
+            const content = await source.client.getRawFileContent(item.path);
+            frontmatter = this.frontmatterService.parse(content).frontmatter;
+        }
+        if (item.sha) {
+            blobs.next.frontmatter[item.sha] = frontmatter;
+        }
+
+        const doc = {
+            name: item.name,
+            path: item.path,
+            category: categoryId,
+            version: frontmatter.version || '1.0.0',
+            description: frontmatter.description || '',
+            sha: item.sha,
+            size: item.size,
+            downloadUrl: item.downloadUrl,
+            tags: frontmatter.tags || [],
+            applicableTo: frontmatter.applicableTo || [],
+            requiredDependencies: frontmatter.requiredDependencies || [],
+            filePatterns: frontmatter.filePatterns || [],
+            source: source.id
+        };
+        console.log('[DocumentService] Parsed document:', doc.name, {
+            tags: doc.tags,
+            requiredDependencies: doc.requiredDependencies,
+            filePatterns: doc.filePatterns,
+            applicableTo: doc.applicableTo
+        });
+        return doc;
+    }
+
     /**
      * Clear the document list cache
      */
     clearCache(): void {
         this.cacheManager.clear(this.cacheKeyDocuments);
+        for (const source of this.sources) {
+            this.cacheManager.clear(this.getSourceCacheKey(source));
+        }
     }
 
     /**
-     * Fetch the list of available documents from GitHub with caching
+     * Drop cached documents of a single source so the next fetch re-reads it
+     * while other sources are served from cache
+     * @param sourceId Id of the source that changed
+     */
+    async invalidateSource(sourceId: string): Promise<void> {
+        await this.cacheManager.clear(this.cacheKeyDocuments);
+        await this.cacheManager.clear(this.getSourceCacheKey(this.getSource(sourceId)));
+    }
+
+    /**
+     * Watch sources that can change while browsing (such as local folders)
+     * @param onChange Called with the source id after the source's cache was invalidated
+     * @returns Disposables that stop watching
+     */
+    watchSources(onChange: (sourceId: string) => void): vscode.Disposable[] {
+        const disposables: vscode.Disposable[] = [];
+
+        for (const source of this.sources) {
+            if (!source.client.watch) {
+                continue;
+            }
+
+            const watcher = source.client.watch(() => {
+                this.invalidateSource(source.id)
+                    .then(() => onChange(source.id))
+                    .catch(error => console.error(`Failed to reload source ${source.id}:`, error));
+            });
+            disposables.push(new vscode.Disposable(() => watcher.dispose()));
+        }
+
+        return disposables;
+    }
+
+    /**
+     * Get the cache key for a single source's documents
+     * @param source Document source
+     */
+    private getSourceCacheKey(source: DocumentSource): string {
+        return source.ref
+            ? `${this.cacheKeyDocuments}:${source.id}@${source.ref}`
+            : `${this.cacheKeyDocuments}:${source.id}`;
+    }
+
+    /**
+     * Fetch the list of available documents from all sources with caching
+     * Waits for the sources when the cached list has expired; if none of them can be
+     * reached the expired list is returned instead
      * @returns Array of document metadata organized by category
      */
     async fetchDocumentList(): Promise<DocumentMetadata[]> {
-        // Try to get from cache first
-        const cached = this.cacheManager.get<DocumentMetadata[]>(this.cacheKeyDocuments);
-        if (cached && cached.length > 0) {
-            // Check if cache has the new metadata fields - if not, invalidate it
-            const firstDoc = cached[0];
-            const hasNewFields = firstDoc.tags !== undefined ||
-                                firstDoc.requiredDependencies !== undefined ||
-                                firstDoc.filePatterns !== undefined;
-
-            if (hasNewFields) {
-                console.log('[DocumentService] Using cached documents');
-                return cached;
-            } else {
-                console.log('[DocumentService] Cache is outdated (missing metadata fields), fetching fresh data');
-            }
+        const cached = this.getCachedDocumentList();
+        if (cached && !cached.expired) {
+            console.log('[DocumentService] Using cached documents');
+            this.refreshedAt = cached.timestamp;
+            return cached.value;
         }
 
         try {
-            // Fetch categories.json
-            const categoriesContent = await this.githubClient.getRawFileContent('categories.json');
-            const categoriesData = JSON.parse(categoriesContent);
-            const categories: CategoryDefinition[] = categoriesData.categories || [];
+            return await this.fetchFromSources(true);
+        } catch (error) {
+            // Every source failed - return the last known list even if it expired
+            if (cached) {
+                this.refreshedAt = cached.timestamp;
+                return cached.value;
+            }
+            throw error;
+        }
+    }
 
-            const documents: DocumentMetadata[] = [];
+    /**
+     * Get the document list for display without waiting for the network when a list is known
+     * An expired list is returned right away and refreshed in the background;
+     * onDidChangeDocumentListState fires when the refresh completes. A refresh in which some
+     * sources failed isn't cached, so its result is shown instead of the cached list and the
+     * next refresh waits for the retry delay like a failed one
+     * @returns Array of document metadata organized by category
+     */
+    async getDocumentList(): Promise<DocumentMetadata[]> {
+        const cached = this.getCachedDocumentList();
+        if (!cached) {
+            return this.fetchDocumentList();
+        }
 
-            // Folders to skip - repository infrastructure, not steering documents
-            const ignoredFolders = ['docs', 'templates'];
+        if (this.refreshedAt === undefined) {
+            this.refreshedAt = cached.timestamp;
+        }
+        if (cached.expired && !this.revalidation && Date.now() - this.lastFailedRevalidation > REVALIDATION_RETRY_MS) {
+            this.revalidate().catch(error => console.warn('[DocumentService] Background refresh failed:', error));
+        }
+        return this.uncachedList && this.uncachedList.timestamp > cached.timestamp
+            ? this.uncachedList.documents
+            : cached.value;
+    }
 
-            // Fetch documents from each category directory (using category.id as folder name)
-            for (const category of categories) {
-                const categoryPath = category.id; // Look in root-level folders like "code-quality", "best-practices"
-                
-                // Skip ignored folders (case-insensitive)
-                if (ignoredFolders.includes(categoryPath.toLowerCase())) {
-                    continue;
-                }
-                
-                try {
-                    // Recursively fetch all documents from category directory and subdirectories
-                    const categoryDocs = await this.fetchDocumentsRecursive(categoryPath, category.id);
-                    documents.push(...categoryDocs);
-                } catch (error) {
-                    // Log error but continue with other categories
-                    console.error(`Failed to fetch documents from category ${category.id}:`, error);
+    /**
+     * Fetch the document list from every source again, ignoring cached lists
+     * The previous list stays available to getDocumentList until the new one arrives;
+     * concurrent calls share a single fetch
+     * @returns The fresh document list
+     * @throws The error of the first source if none of them could be reached
+     */
+    revalidate(): Promise<DocumentMetadata[]> {
+        if (this.revalidation) {
+            return this.revalidation;
+        }
+
+        this.revalidation = this.fetchFromSources(false);
+        this.listStateEmitter.fire(this.getDocumentListState());
+
+        const finish = () => {
+            this.revalidation = undefined;
+            this.listStateEmitter.fire(this.getDocumentListState());
+        };
+        this.revalidation.then(
+            () => {
+                // Back off after a partial refresh too, its result couldn't replace the expired list
+                this.lastFailedRevalidation = this.sourcesFailed ? Date.now() : 0;
+                finish();
+            },
+            () => {
+                this.lastFailedRevalidation = Date.now();
+                finish();
+            }
+        );
+
+        return this.revalidation;
+    }
+
+    /**
+     * Describe how fresh the document list is
+     * @returns When the list was last fetched and whether it is stale, being refreshed or offline
+     */
+    getDocumentListState(): DocumentListState {
+        return {
+            refreshedAt: this.refreshedAt,
+            stale: this.getCachedDocumentList()?.expired ?? false,
+            refreshing: this.revalidation !== undefined,
+            offline: this.offline
+        };
+    }
+
+    /**
+     * Read the cached document list of all sources, including an expired one
+     * Lists cached by older versions were already upgraded or discarded by the cache migrations
+     * @returns The cached list, or undefined if there is none
+     */
+    private getCachedDocumentList(): CacheLookup<DocumentMetadata[]> | undefined {
+        const cached = this.cacheManager.getEntry<DocumentMetadata[]>(this.cacheKeyDocuments);
+        return cached && cached.value.length > 0 ? cached : undefined;
+    }
+
+    /**
+     * Fetch the documents of every source and cache the combined list
+     * @param useSourceCache Reuse the cached documents of sources that haven't expired
+     * @returns Documents of all sources that could be reached
+     * @throws The error of the first source if none of them could be reached
+     */
+    private async fetchFromSources(useSourceCache: boolean): Promise<DocumentMetadata[]> {
+        const documents: DocumentMetadata[] = [];
+        const errors: unknown[] = [];
+
+        for (const source of this.sources) {
+            const sourceCacheKey = this.getSourceCacheKey(source);
+            const sourceCached = useSourceCache ? this.cacheManager.get<DocumentMetadata[]>(sourceCacheKey) : undefined;
+            if (sourceCached) {
+                documents.push(...sourceCached);
+                continue;
+            }
+
+            try {
+                const sourceDocuments = await this.fetchSourceDocuments(source);
+                documents.push(...sourceDocuments);
+
+                // Watched sources are cheap to re-read and must not survive edits made while closed
+                if (!source.client.watch && this.cacheTimeout > 0) {
+                    await this.cacheManager.set(sourceCacheKey, sourceDocuments, this.cacheTimeout);
                 }
+            } catch (error) {
+                // Log error but continue with other sources
+                console.error(`Failed to fetch documents from source ${source.id}:`, error);
+                errors.push(error);
             }
+        }
+
+        this.sourcesFailed = errors.length > 0;
+        if (errors.length > 0 && errors.length === this.sources.length) {
+            this.offline = true;
+            throw errors[0];
+        }
 
-            // Cache the results
-            await this.cacheManager.set(this.cacheKeyDocuments, documents, 3600); // 1 hour TTL
+        this.offline = false;
+        this.refreshedAt = Date.now();
 
-            return documents;
-        } catch (error) {
-            // If fetch fails, try to return cached data even if expired
-            const cached = this.cacheManager.get<DocumentMetadata[]>(this.cacheKeyDocuments);
-            if (cached) {
-                return cached;
+        // Cache the results unless they include a watched source, which is re-read every time.
+        // Partial results aren't cached so the failed sources are retried, but are kept in memory
+        // so they are shown instead of the list they couldn't replace
+        if (errors.length === 0 && !this.sources.some(source => source.client.watch) && this.cacheTimeout > 0) {
+            await this.cacheManager.set(this.cacheKeyDocuments, documents, this.cacheTimeout);
+            this.uncachedList = undefined;
+        } else {
+            this.uncachedList = { documents, timestamp: this.refreshedAt };
+        }
+        return documents;
+    }
+
+    /**
+     * Fetch the documents of a single source
+     * Reads the registry's index.json when it publishes one; otherwise uses a single tree
+     * listing when the provider supports it and only downloads documents whose blob SHA
+     * hasn't been seen before
+     * @param source Source repository to fetch from
+     * @returns Array of document metadata tagged with the source id
+     */
+    private async fetchSourceDocuments(source: DocumentSource): Promise<DocumentMetadata[]> {
+        const tree = source.client.getTree ? await source.client.getTree() : undefined;
+
+        // A complete tree tells whether the registry has an index without requesting it
+        if (!tree || tree.some(item => item.path === INDEX_FILE)) {
+            const indexedDocuments = await this.fetchIndexedDocuments(source);
+            if (indexedDocuments) {
+                return indexedDocuments;
+            }
+        }
+
+        const blobCacheKey = this.getBlobCacheKey(source);
+        const blobs: BlobMetadata = {
+            known: this.cacheManager.get<BlobMetadataCache>(blobCacheKey) || { frontmatter: {} },
+            next: { frontmatter: {} }
+        };
+
+        const categories = await this.fetchCategories(source, tree, blobs);
+
+        const documents: DocumentMetadata[] = [];
+
+        // Folders to skip - repository infrastructure, not steering documents
+        const ignoredFolders = ['docs', 'templates'];
+
+        // Fetch documents from each category directory (using category.id as folder name)
+        for (const category of categories) {
+            const categoryPath = category.id; // Look in root-level folders like "code-quality", "best-practices"
+
+            // Skip ignored folders (case-insensitive)
+            if (ignoredFolders.includes(categoryPath.toLowerCase())) {
+                continue;
             }
 
+            try {
+                // Collect all documents from category directory and subdirectories
+                const categoryDocs = tree
+                    ? await this.collectTreeDocuments(source, tree, category.id, blobs)
+                    : await this.fetchDocumentsRecursive(source, categoryPath, category.id, blobs);
+                documents.push(...categoryDocs);
+            } catch (error) {
+                // Log error but continue with other categories
+                console.error(`Failed to fetch documents from category ${category.id}:`, error);
+            }
+        }
+
+        // Blob SHAs identify content, so entries never expire - they are only replaced
+        // by the entries of the latest listing to keep the cache bounded
+        await this.cacheManager.set(blobCacheKey, blobs.next);
+
+        return documents;
+    }
+
+    /**
+     * Load a source's documents from its index.json
+     * Problems found in the index are reported through onDidFindIndexProblems
+     * @param source Source repository to fetch from
+     * @returns Documents listed in the index, or undefined if the source has no usable index
+     */
+    private async fetchIndexedDocuments(source: DocumentSource): Promise<DocumentMetadata[] | undefined> {
+        let content: string;
+        try {
+            content = await source.client.getRawFileContent(INDEX_FILE);
+        } catch (error) {
+            if (error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND) {
+                return undefined;
+            }
             throw error;
         }
+
+        const { entries, problems } = this.registryIndexService.parse(content);
+        if (problems.length > 0) {
+            console.warn(`[DocumentService] Problems in ${INDEX_FILE} of source ${source.id}:`, problems);
+            this.indexProblemEmitter.fire({
+                sourceId: source.id,
+                sourceName: source.name,
+                problems,
+                usedIndex: entries !== undefined
+            });
+        }
+
+        return entries?.map(entry => ({
+            name: entry.name,
+            path: entry.path,
+            category: entry.category,
+            version: entry.version,
+            description: entry.description,
+            sha: entry.sha,
+            size: entry.size ?? 0,
+            downloadUrl: '',
+            tags: entry.tags,
+            applicableTo: entry.applicableTo,
+            requiredDependencies: entry.requiredDependencies,
+            filePatterns: entry.filePatterns,
+            source: source.id
+        }));
+    }
+
+    /**
+     * Read a source's categories.json, reusing the parsed file if its blob SHA is unchanged
+     * @param source Source repository to fetch from
+     * @param tree Full repository tree, if the provider listed it
+     * @param blobs Blob metadata already known, updated with categories.json
+     * @returns Category definitions
+     */
+    private async fetchCategories(
+        source: DocumentSource,
+        tree: SourceEntry[] | undefined,
+        blobs: BlobMetadata
+    ): Promise<CategoryDefinition[]> {
+        const entry = tree?.find(item => item.path === 'categories.json');
+        const known = blobs.known.categories;
+
+        if (entry && known && known.sha === entry.sha) {
+            blobs.next.categories = known;
+            return known.categories;
+        }
+
+        const categoriesContent = await source.client.getRawFileContent('categories.json');
+        const categoriesData = JSON.parse(categoriesContent);
+        const categories: CategoryDefinition[] = categoriesData.categories || [];
+
+        if (entry) {
+            blobs.next.categories = { sha: entry.sha, categories };
+        }
+
+        return categories;
+    }
+
+    /**
+     * Get the cache key for a source's blob metadata
+     * @param source Document source
+     */
+    private getBlobCacheKey(source: DocumentSource): string {
+        return `blobMetadata:${source.id}`;
     }
 
     /**
      * Fetch the content of a specific document
+     * Documents with a blob SHA are read through the content cache, so a document fetched once
+     * can be previewed and installed again without network access
      * @param path Path to the document in the repository
+     * @param sourceId Id of the source the document belongs to (defaults to the primary source)
+     * @param sha Git blob SHA of the document from the document list
      * @returns Document content as string
      */
-    async fetchDocumentContent(path: string): Promise<string> {
+    async fetchDocumentContent(path: string, sourceId?: string, sha?: string): Promise<string> {
+        const source = this.getSource(sourceId);
+        // Watched (local folder) sources are read directly, caching them would only fill the cache
+        const contentCache = sha && !source.client.watch ? this.contentCache : undefined;
+
+        const cached = await contentCache?.get(sha!);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        try {
+            const content = await source.client.getRawFileContent(path);
+            await contentCache?.put(sha!, content, path).catch(error => {
+                console.warn(`Failed to cache the content of ${path}:`, error);
+            });
+            return content;
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
+            }
+            throw new ExtensionError(
+                `Failed to fetch document content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                ErrorCode.NETWORK_ERROR,
+                true
+            );
+        }
+    }
+
+    /**
+     * Fetch the content of a locked document at the exact blob SHA recorded in the lockfile
+     * The blob is read from the content cache or fetched by SHA; sources that can't fetch blobs
+     * are read at the document's path, which only matches while the document hasn't changed
+     * @param entry Lockfile entry
+     * @returns Content matching the locked SHA
+     */
+    async fetchLockedContent(entry: LockedDocument): Promise<string> {
+        const source = this.getSource(entry.source);
+        if (source.repository && entry.repository && source.repository !== entry.repository) {
+            throw new ExtensionError(
+                `Source "${source.id}" reads ${source.repository}, but ${entry.path} was locked from ${entry.repository}`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+
+        const contentCache = source.client.watch ? undefined : this.contentCache;
+        const cached = await contentCache?.get(entry.sha);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let content: string;
         try {
-            return await this.githubClient.getRawFileContent(path);
+            content = source.client.getBlobContent
+                ? await source.client.getBlobContent(entry.sha)
+                : await source.client.getRawFileContent(entry.path);
         } catch (error) {
             if (error instanceof ExtensionError) {
                 throw error;
@@ -263,10 +855,48 @@ export class DocumentService {
                 true
             );
         }
+
+        if (gitBlobSha(content) !== entry.sha) {
+            throw new ExtensionError(
+                `${entry.path} has changed in ${source.name} and the locked version ${entry.sha.substring(0, 7)} is no longer available`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+
+        await contentCache?.put(entry.sha, content, entry.path).catch(error => {
+            console.warn(`Failed to cache the content of ${entry.path}:`, error);
+        });
+        return content;
+    }
+
+    /**
+     * Prepare fetched content for the steering directory
+     * @param content Content as fetched from the source
+     * @param doc SHA and source the content was fetched for
+     * @param inclusionMode Optional inclusion mode to set in frontmatter
+     * @param fileMatchPattern Optional file match pattern (required if inclusionMode is 'fileMatch')
+     * @returns Content with the inclusion mode applied and the tracking keys added
+     */
+    renderDocumentContent(
+        content: string,
+        doc: Pick<DocumentMetadata, 'sha' | 'source'>,
+        inclusionMode?: 'always' | 'manual' | 'fileMatch',
+        fileMatchPattern?: string
+    ): string {
+        if (inclusionMode) {
+            content = this.frontmatterService.updateInclusionMode(content, inclusionMode, fileMatchPattern);
+        }
+
+        // Add SHA (and source for secondary sources) to frontmatter for version tracking
+        return this.addTrackingFrontmatter(content, doc);
     }
 
     /**
      * Get list of installed documents from the local steering directory
+     * The version, SHA, source and inclusion mode are read from the lockfile, falling back to the
+     * frontmatter for documents installed before the lockfile was introduced. Documents whose
+     * content no longer matches the hash recorded at install are flagged as modified.
      * @returns Array of installed document metadata
      */
     async getInstalledDocuments(): Promise<InstalledDocument[]> {
@@ -280,7 +910,23 @@ export class DocumentService {
         try {
             // Use recursive scan to find all markdown files
             const installedDocs = await this.scanDirectoryRecursive(steeringDirUri, steeringDirUri);
-            return installedDocs;
+            const locked = await this.readLockedDocuments(workspaceFolder.uri.fsPath);
+
+            return installedDocs.map(installed => {
+                const entry = locked[installed.path];
+                return entry
+                    ? {
+                        ...installed,
+                        version: entry.version,
+                        sha: entry.sha,
+                        source: entry.source,
+                        inclusionMode: entry.inclusion ?? installed.inclusionMode,
+                        fileMatchPattern: entry.fileMatchPattern ?? installed.fileMatchPattern,
+                        locked: true,
+                        modified: entry.contentSha !== undefined && entry.contentSha !== installed.contentSha
+                    }
+                    : installed;
+            });
         } catch (error) {
             // Directory doesn't exist or can't be read
             if (error instanceof vscode.FileSystemError) {
@@ -294,6 +940,130 @@ export class DocumentService {
         }
     }
 
+    /**
+     * Read the documents recorded in the lockfile
+     * An unreadable lockfile is logged and ignored, so the installed documents still show from their frontmatter
+     * @param workspaceRoot Workspace root
+     * @returns Locked documents keyed by local path
+     */
+    private async readLockedDocuments(workspaceRoot: string): Promise<Record<string, LockedDocument>> {
+        try {
+            return (await this.lockfileService.read(workspaceRoot)).documents;
+        } catch (error) {
+            console.error(`Failed to read ${LOCKFILE}, using document frontmatter instead:`, error);
+            return {};
+        }
+    }
+
+    /**
+     * Record an installed or updated document in the lockfile
+     * @param workspaceRoot Workspace root
+     * @param doc Document metadata the content was fetched for
+     * @param content Content written to the steering directory
+     */
+    private async lockDocument(workspaceRoot: string, doc: DocumentMetadata, content: string): Promise<void> {
+        const source = this.getSource(doc.source);
+        const { frontmatter } = this.frontmatterService.parse(content);
+
+        await this.lockfileService.update(workspaceRoot, documents => {
+            documents[this.getLocalPath(doc)] = {
+                source: source.id,
+                repository: source.repository ?? '',
+                ref: source.ref ?? source.branch ?? '',
+                path: doc.path,
+                sha: doc.sha,
+                version: doc.version,
+                inclusion: frontmatter.inclusion,
+                fileMatchPattern: frontmatter.fileMatchPattern,
+                contentSha: textBlobSha(content)
+            };
+        });
+    }
+
+    /**
+     * Check whether an installed document was edited since it was installed
+     * Documents installed before the lockfile recorded content hashes are never reported as edited
+     * @param entry Lockfile entry of the document, if any
+     * @param content Current content of the document
+     * @returns True if the content differs from the content recorded at install
+     */
+    private hasLocalChanges(entry: LockedDocument | undefined, content: string): boolean {
+        return entry?.contentSha !== undefined && entry.contentSha !== textBlobSha(content);
+    }
+
+    /**
+     * Fetch the content a document had when it was installed, as the base of a merge
+     * The upstream version is fetched by the SHA recorded in the lockfile and rendered with the
+     * recorded inclusion mode, the way installing it wrote it
+     * @param entry Lockfile entry of the document
+     * @returns Installed content, or undefined if the installed version can't be fetched
+     */
+    private async fetchInstalledContent(entry: LockedDocument): Promise<string | undefined> {
+        try {
+            return this.renderDocumentContent(
+                await this.fetchLockedContent(entry),
+                { sha: entry.sha, source: entry.source },
+                entry.inclusion,
+                entry.fileMatchPattern
+            );
+        } catch (error) {
+            console.warn(`Failed to fetch the installed version of ${entry.path}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Merge local changes to a document into its new upstream version
+     * Frontmatter is merged by key: keys edited, added or removed locally keep the local change and
+     * the tracking SHA comes from the new version. The body is merged line by line, and hunks
+     * changed on both sides are written with conflict markers.
+     * @param base Content as installed
+     * @param local Current local content
+     * @param incoming New upstream content, rendered for installation
+     * @param version Version of the incoming content, shown in conflict markers
+     * @returns Merged content and the number of conflicts
+     */
+    private mergeLocalChanges(base: string, local: string, incoming: string, version: string): MergeResult {
+        const normalize = (content: string) => content.replace(/\r\n/g, '\n');
+        const baseDoc = this.frontmatterService.parse(normalize(base));
+        const localDoc = this.frontmatterService.parse(normalize(local));
+        const incomingDoc = this.frontmatterService.parse(normalize(incoming));
+
+        const frontmatter = { ...incomingDoc.frontmatter };
+        const keys = new Set([...Object.keys(baseDoc.frontmatter), ...Object.keys(localDoc.frontmatter)]);
+        for (const key of keys) {
+            if (key === 'sha' || key === 'source') {
+                continue;
+            }
+            if (JSON.stringify(localDoc.frontmatter[key]) === JSON.stringify(baseDoc.frontmatter[key])) {
+                continue;
+            }
+            if (key in localDoc.frontmatter) {
+                frontmatter[key] = localDoc.frontmatter[key];
+            } else {
+                delete frontmatter[key];
+            }
+        }
+
+        const body = mergeLines(baseDoc.body, localDoc.body, incomingDoc.body, 'Local changes', `Version ${version}`);
+        return { text: this.frontmatterService.stringify(frontmatter, body.text), conflicts: body.conflicts };
+    }
+
+    /**
+     * Ask before an action discards local changes to a document
+     * @param name Document file name
+     * @param action Action about to run, such as "Update"
+     * @returns True if the user chose to continue
+     */
+    private async confirmDiscardLocalChanges(name: string, action: string): Promise<boolean> {
+        const answer = await vscode.window.showWarningMessage(
+            `Document "${name}" has local changes that will be lost. ${action} it anyway?`,
+            { modal: true },
+            `${action} Anyway`
+        );
+        return answer === `${action} Anyway`;
+    }
+
     /**
      * Install a document to the local steering directory
      * @param doc Document metadata
@@ -316,8 +1086,8 @@ export class DocumentService {
 
         const steeringDirUri = vscode.Uri.joinPath(workspaceFolder.uri, this.steeringDir);
         
-        // Extract directory path from doc.path (e.g., "agents" from "agents/bmad-spec-converter.md")
-        const dirPath = this.getRelativePath(doc.path);
+        // Extract directory path from the local path (e.g., "agents" from "agents/bmad-spec-converter.md")
+        const dirPath = this.getRelativePath(this.getLocalPath(doc));
         
         // Determine target directory and file URI
         let targetDirUri = steeringDirUri;
@@ -363,22 +1133,18 @@ export class DocumentService {
                 await vscode.workspace.fs.createDirectory(targetDirUri);
             }
 
-            // Download document content
-            let content = await this.fetchDocumentContent(doc.path);
-
-            // Apply inclusion mode if specified
-            if (inclusionMode) {
-                content = this.frontmatterService.updateInclusionMode(content, inclusionMode, fileMatchPattern);
-            }
-
-            // Add SHA to frontmatter for version tracking
-            const { frontmatter, body } = this.frontmatterService.parse(content);
-            frontmatter.sha = doc.sha;
-            content = this.frontmatterService.stringify(frontmatter, body);
+            // Download document content and apply the inclusion mode if specified
+            const content = this.renderDocumentContent(
+                await this.fetchDocumentContent(doc.path, doc.source, doc.sha),
+                doc,
+                inclusionMode,
+                fileMatchPattern
+            );
 
-            // Save document
+            // Save document and record it in the lockfile
             const contentBuffer = Buffer.from(content, 'utf-8');
             await vscode.workspace.fs.writeFile(fileUri, contentBuffer);
+            await this.lockDocument(workspaceFolder.uri.fsPath, doc, content);
 
             // Show success notification
             vscode.window.showInformationMessage(`Document "${doc.name}" installed successfully`);
@@ -394,6 +1160,24 @@ export class DocumentService {
         }
     }
 
+    /**
+     * Record the blob SHA and source of a document in its frontmatter
+     * @param content Document content
+     * @param doc Document metadata the content was fetched for
+     * @returns Content with tracking keys added to the frontmatter
+     */
+    private addTrackingFrontmatter(content: string, doc: Pick<DocumentMetadata, 'sha' | 'source'>): string {
+        const { frontmatter, body } = this.frontmatterService.parse(content);
+        frontmatter.sha = doc.sha;
+
+        // Primary source documents stay unmarked so existing installs keep matching
+        if (!this.isPrimarySource(doc.source)) {
+            frontmatter.source = doc.source;
+        }
+
+        return this.frontmatterService.stringify(frontmatter, body);
+    }
+
     /**
      * Quick load a document - install with 'always' inclusion mode
      * @param doc Document metadata
@@ -424,15 +1208,21 @@ export class DocumentService {
         const fileUri = vscode.Uri.joinPath(steeringDirUri, docPath);
 
         try {
-            // Check if file exists before attempting to delete
-            await vscode.workspace.fs.stat(fileUri);
-            
+            // Read the file before deleting it, which also checks that it exists
+            const content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf-8');
+            const fileName = docPath.split('/').pop() || docPath;
+            const entry = (await this.readLockedDocuments(workspaceFolder.uri.fsPath))[docPath];
+            if (this.hasLocalChanges(entry, content)
+                && !await this.confirmDiscardLocalChanges(fileName, 'Uninstall')) {
+                return;
+            }
+
             // Delete the file from correct subdirectory location
             await vscode.workspace.fs.delete(fileUri);
+            await this.lockfileService.update(workspaceFolder.uri.fsPath, documents => {
+                delete documents[docPath];
+            });
 
-            // Extract filename for display message
-            const fileName = docPath.split('/').pop() || docPath;
-            
             // Show success notification
             vscode.window.showInformationMessage(`Document "${fileName}" uninstalled successfully`);
         } catch (error) {
@@ -493,6 +1283,20 @@ export class DocumentService {
             const contentBuffer = Buffer.from(updatedContent, 'utf-8');
             await vscode.workspace.fs.writeFile(fileUri, contentBuffer);
 
+            // Keep the lockfile in step; documents installed before the lockfile aren't recorded
+            const { frontmatter } = this.frontmatterService.parse(updatedContent);
+            await this.lockfileService.update(workspaceFolder.uri.fsPath, documents => {
+                const entry = documents[docPath];
+                if (entry) {
+                    entry.inclusion = frontmatter.inclusion;
+                    entry.fileMatchPattern = frontmatter.fileMatchPattern;
+                    // Changing the inclusion mode isn't a local edit, but an already edited file stays flagged
+                    if (entry.contentSha === textBlobSha(contentStr)) {
+                        entry.contentSha = textBlobSha(updatedContent);
+                    }
+                }
+            });
+
             // Extract filename for display message
             const fileName = docPath.split('/').pop() || docPath;
             vscode.window.showInformationMessage(
@@ -551,9 +1355,9 @@ export class DocumentService {
         const updates: UpdateInfo[] = [];
 
         for (const installed of installedDocuments) {
-            // Find matching remote document by path (not just name)
-            // This ensures documents with the same name in different folders are treated as different documents
-            const remote = remoteDocuments.find(doc => doc.path === installed.path);
+            // Find matching remote document by local path (not just name)
+            // This ensures documents with the same name in different folders or sources are treated as different documents
+            const remote = remoteDocuments.find(doc => this.getLocalPath(doc) === installed.path);
             
             if (remote && remote.sha !== installed.sha) {
                 updates.push({
@@ -567,11 +1371,94 @@ export class DocumentService {
         return updates;
     }
 
+    /**
+     * Check pinned sources for registry releases newer than the pinned ref
+     * Reported separately from per-document updates, since moving to a new release is an explicit choice
+     * @returns Newer releases, one per pinned source that has one
+     */
+    async checkForRegistryReleases(): Promise<RegistryReleaseInfo[]> {
+        const releases: RegistryReleaseInfo[] = [];
+
+        for (const source of this.sources) {
+            if (!source.ref || !source.client.listRefs) {
+                continue;
+            }
+
+            try {
+                const refs = await source.client.listRefs();
+                const latest = refs.find(ref => ref.type === 'release' && !ref.prerelease);
+
+                if (latest && this.isNewerRelease(latest.name, source.ref, latest.sha)) {
+                    releases.push({
+                        sourceId: source.id,
+                        sourceName: source.name,
+                        pinnedRef: source.ref,
+                        latestRelease: latest.name
+                    });
+                }
+            } catch (error) {
+                // Log error but continue with other sources
+                console.error(`Failed to check releases of source ${source.id}:`, error);
+            }
+        }
+
+        return releases;
+    }
+
+    /**
+     * Decide whether a release is newer than the pinned ref
+     * @param release Tag name of the latest release
+     * @param pinnedRef Pinned tag or commit SHA
+     * @param releaseSha Commit SHA of the release, if known
+     * @returns True if the release differs from and is not older than the pinned ref
+     */
+    private isNewerRelease(release: string, pinnedRef: string, releaseSha?: string): boolean {
+        if (release === pinnedRef || (releaseSha && releaseSha.startsWith(pinnedRef))) {
+            return false;
+        }
+
+        const parse = (ref: string) => ref.replace(/^v/i, '').split(/[.-]/).map(part => parseInt(part, 10));
+        const releaseParts = parse(release);
+        const pinnedParts = parse(pinnedRef);
+
+        // Compare as versions when both refs look like versions (v1.2.0), otherwise any difference counts
+        if (releaseParts.some(isNaN) || pinnedParts.some(isNaN)) {
+            return true;
+        }
+
+        for (let i = 0; i < Math.max(releaseParts.length, pinnedParts.length); i++) {
+            const difference = (releaseParts[i] || 0) - (pinnedParts[i] || 0);
+            if (difference !== 0) {
+                return difference > 0;
+            }
+        }
+
+        return false;
+    }
+
     /**
      * Update an installed document to the latest version
+     * Local changes are merged into the new version when the installed version can still be
+     * fetched, otherwise the user is asked before they are discarded
      * @param doc Document metadata for the new version
      */
     async updateDocument(doc: DocumentMetadata): Promise<void> {
+        const update = await this.prepareUpdate(doc);
+        if (update.discardsLocalChanges && !await this.confirmDiscardLocalChanges(doc.name, 'Update')) {
+            return;
+        }
+
+        await this.applyUpdate(update);
+    }
+
+    /**
+     * Work out the content an update writes, without changing the installed document
+     * The new version keeps the current inclusion mode and gets the tracking frontmatter, and
+     * local changes are merged into it when the installed version can still be fetched
+     * @param doc Document metadata for the new version
+     * @returns Current and updated content of the installed document
+     */
+    async prepareUpdate(doc: DocumentMetadata): Promise<PreparedUpdate> {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) {
             throw new ExtensionError(
@@ -583,8 +1470,8 @@ export class DocumentService {
 
         const steeringDirUri = vscode.Uri.joinPath(workspaceFolder.uri, this.steeringDir);
         
-        // Extract directory path from doc.path to locate the document in the same subdirectory
-        const dirPath = this.getRelativePath(doc.path);
+        // Extract directory path from the local path to locate the document in the same subdirectory
+        const dirPath = this.getRelativePath(this.getLocalPath(doc));
         
         // Construct file URI using the relative path from doc.path
         let fileUri: vscode.Uri;
@@ -601,34 +1488,95 @@ export class DocumentService {
             const currentContent = await vscode.workspace.fs.readFile(fileUri);
             const currentContentStr = Buffer.from(currentContent).toString('utf-8');
             const { frontmatter: currentFrontmatter } = this.frontmatterService.parse(currentContentStr);
+            const entry = (await this.readLockedDocuments(workspaceFolder.uri.fsPath))[this.getLocalPath(doc)];
             
             const currentInclusionMode = currentFrontmatter.inclusion as 'always' | 'manual' | 'fileMatch' | undefined;
             const currentFileMatchPattern = currentFrontmatter.fileMatchPattern;
 
-            // Download new content
-            let newContent = await this.fetchDocumentContent(doc.path);
+            // Download new content from the source the document was installed from,
+            // preserving the inclusion mode if it was set
+            const newContent = this.renderDocumentContent(
+                await this.fetchDocumentContent(doc.path, doc.source, doc.sha),
+                doc,
+                currentInclusionMode,
+                currentFileMatchPattern
+            );
 
-            // Preserve inclusion mode if it was set
-            if (currentInclusionMode) {
-                newContent = this.frontmatterService.updateInclusionMode(
-                    newContent,
-                    currentInclusionMode,
-                    currentFileMatchPattern
-                );
+            // Merge local edits into the new version instead of overwriting them
+            const hasLocalChanges = this.hasLocalChanges(entry, currentContentStr);
+            const base = hasLocalChanges ? await this.fetchInstalledContent(entry!) : undefined;
+            const merged = base !== undefined
+                ? this.mergeLocalChanges(base, currentContentStr, newContent, doc.version)
+                : undefined;
+
+            return {
+                document: doc,
+                fileUri,
+                currentContent: currentContentStr,
+                content: merged?.text ?? newContent,
+                upstreamContent: newContent,
+                merged: merged !== undefined,
+                conflicts: merged?.conflicts ?? 0,
+                discardsLocalChanges: hasLocalChanges && merged === undefined
+            };
+        } catch (error) {
+            if (error instanceof ExtensionError) {
+                throw error;
             }
+            throw new ExtensionError(
+                `Failed to update document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                false
+            );
+        }
+    }
 
-            // Add SHA to frontmatter for version tracking
-            const { frontmatter, body } = this.frontmatterService.parse(newContent);
-            frontmatter.sha = doc.sha;
-            newContent = this.frontmatterService.stringify(frontmatter, body);
+    /**
+     * Write a prepared update to the installed document and record it in the lockfile
+     * @param update Update returned by prepareUpdate()
+     */
+    async applyUpdate(update: PreparedUpdate): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            throw new ExtensionError(
+                'No workspace folder open',
+                ErrorCode.FILE_SYSTEM_ERROR,
+                false
+            );
+        }
 
-            // Write updated content to the same subdirectory location
-            const contentBuffer = Buffer.from(newContent, 'utf-8');
-            await vscode.workspace.fs.writeFile(fileUri, contentBuffer);
+        const doc = update.document;
+        try {
+            // Don't overwrite edits made since the update was prepared, e.g. while it was reviewed
+            const currentContent = Buffer.from(await vscode.workspace.fs.readFile(update.fileUri)).toString('utf-8');
+            if (currentContent !== update.currentContent) {
+                throw new ExtensionError(
+                    `Document "${doc.name}" changed after the update was prepared, please update it again`,
+                    ErrorCode.FILE_SYSTEM_ERROR,
+                    true
+                );
+            }
 
-            vscode.window.showInformationMessage(
-                `Document "${doc.name}" updated successfully to version ${doc.version}`
-            );
+            // Write updated content to the same subdirectory location; the lockfile records the
+            // upstream content, so a merged document stays flagged as modified
+            const contentBuffer = Buffer.from(update.content, 'utf-8');
+            await vscode.workspace.fs.writeFile(update.fileUri, contentBuffer);
+            await this.lockDocument(workspaceFolder.uri.fsPath, doc, update.upstreamContent);
+
+            if (update.conflicts > 0) {
+                vscode.window.showWarningMessage(
+                    `Document "${doc.name}" updated to version ${doc.version} with ${update.conflicts} conflicting changes; resolve the conflict markers to finish the merge`,
+                    'Open Document'
+                ).then(choice => {
+                    if (choice === 'Open Document') {
+                        vscode.window.showTextDocument(update.fileUri);
+                    }
+                });
+            } else {
+                vscode.window.showInformationMessage(update.merged
+                    ? `Document "${doc.name}" updated to version ${doc.version}, keeping your local changes`
+                    : `Document "${doc.name}" updated successfully to version ${doc.version}`);
+            }
         } catch (error) {
             if (error instanceof ExtensionError) {
                 throw error;
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FrontmatterEnhancer } from './FrontmatterEnhancer';
+import { FrontmatterService } from './FrontmatterService';
+import { EnhancementErrorCode } from '../models/types';
+
+suite('FrontmatterEnhancer Tests', () => {
+    const frontmatterService = new FrontmatterService();
+    let rootPath: string;
+
+    /**
+     * Read the frontmatter of a registry document
+     */
+    async function readFrontmatter(relativePath: string): Promise<Record<string, any>> {
+        return frontmatterService.parse(await fs.readFile(path.join(rootPath, relativePath), 'utf-8')).frontmatter;
+    }
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-enhance-'));
+        await fs.mkdir(path.join(rootPath, 'code-formatting', 'languages'), { recursive: true });
+        await fs.mkdir(path.join(rootPath, 'practices'), { recursive: true });
+        await fs.writeFile(path.join(rootPath, 'code-formatting', 'languages', 'typescript.md'),
+            '---\ntitle: TypeScript\ntags:\n  - style\n---\n# TypeScript\n');
+        await fs.writeFile(path.join(rootPath, 'practices', 'testing.md'),
+            '---\ntitle: Testing\napplicableTo:\n  - library\n---\n# Testing\n');
+        await fs.writeFile(path.join(rootPath, 'practices', 'broken.md'), '---\ntitle: [unclosed\n---\n# Broken\n');
+        await fs.writeFile(path.join(rootPath, 'practices', 'security.md'), '---\ntags: security\n---\n# Security\n');
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('A dry run should return diffs without writing files', async () => {
+        const before = await fs.readFile(path.join(rootPath, 'practices', 'testing.md'), 'utf-8');
+        const summary = await new FrontmatterEnhancer().enhance(rootPath, { preserveExisting: true, overwriteTags: false }, true);
+
+        assert.strictEqual(summary.scanned, 4);
+        assert.deepStrictEqual(summary.changes.map(change => change.path), [
+            'code-formatting/languages/typescript.md',
+            'practices/testing.md'
+        ]);
+        assert.deepStrictEqual(summary.results, []);
+        assert.strictEqual(await fs.readFile(path.join(rootPath, 'practices', 'testing.md'), 'utf-8'), before);
+
+        const typescript = summary.changes[0];
+        assert.deepStrictEqual(typescript.fields, ['tags', 'applicableTo', 'requiredDependencies', 'filePatterns']);
+        assert.match(typescript.diff, /^--- a\/code-formatting\/languages\/typescript\.md\n\+\+\+ b\/code-formatting\/languages\/typescript\.md\n@@ /);
+        assert.match(typescript.diff, /\n\+  - typescript\n/);
+        assert.match(typescript.diff, /\n {3}- style\n/, 'Existing tags should be kept');
+    });
+
+    test('Errors should be collected without aborting the run', async () => {
+        const summary = await new FrontmatterEnhancer().enhance(rootPath, { preserveExisting: true, overwriteTags: false }, true);
+
+        assert.deepStrictEqual(summary.errors.map(error => [error.documentPath, error.code]), [
+            ['practices/broken.md', EnhancementErrorCode.INVALID_YAML],
+            ['practices/security.md', EnhancementErrorCode.CONFLICTING_METADATA]
+        ]);
+        assert.strictEqual(summary.changes.length, 2);
+    });
+
+    test('Merge options should control how existing values are treated', async () => {
+        const enhancer = new FrontmatterEnhancer();
+
+        await enhancer.enhance(rootPath, { preserveExisting: true, overwriteTags: false }, false);
+        assert.deepStrictEqual((await readFrontmatter('practices/testing.md')).applicableTo, ['library']);
+        assert.ok((await readFrontmatter('code-formatting/languages/typescript.md')).tags.includes('style'));
+
+        const summary = await enhancer.enhance(rootPath, { preserveExisting: false, overwriteTags: true }, false);
+        assert.ok(summary.results.every(result => result.success));
+        assert.ok((await readFrontmatter('practices/testing.md')).applicableTo.length > 1);
+        assert.ok(!(await readFrontmatter('code-formatting/languages/typescript.md')).tags.includes('style'));
+        assert.strictEqual((await readFrontmatter('code-formatting/languages/typescript.md')).title, 'TypeScript');
+    });
+
+    test('Running again after writing should find nothing to change', async () => {
+        const enhancer = new FrontmatterEnhancer();
+        const options = { preserveExisting: true, overwriteTags: false };
+
+        await enhancer.enhance(rootPath, options, false);
+        const summary = await enhancer.enhance(rootPath, options, true);
+
+        assert.deepStrictEqual(summary.changes, []);
+    });
+});
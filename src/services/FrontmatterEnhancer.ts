@@ -0,0 +1,232 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DocumentScanner } from './DocumentScanner';
+import { FrontmatterService } from './FrontmatterService';
+import { MetadataAnalyzer } from './MetadataAnalyzer';
+import { formatUnifiedDiff } from '../utils/diff';
+import {
+    DocumentLocation,
+    EnhancementError,
+    EnhancementErrorCode,
+    EnhancementSummary,
+    FrontmatterChange,
+    MergeOptions,
+    RecommendationMetadata,
+    WriteResult
+} from '../models/types';
+
+/**
+ * Frontmatter list fields filled in from metadata analysis, with the analysis field they come from
+ */
+const ENHANCED_FIELDS: Array<[string, keyof RecommendationMetadata]> = [
+    ['tags', 'enhancedTags'],
+    ['applicableTo', 'applicableTo'],
+    ['requiredDependencies', 'requiredDependencies'],
+    ['filePatterns', 'filePatterns']
+];
+
+/**
+ * Service adding recommendation metadata to the frontmatter of every document in a registry checkout
+ */
+export class FrontmatterEnhancer {
+    constructor(
+        private readonly scanner: DocumentScanner = new DocumentScanner(),
+        private readonly analyzer: MetadataAnalyzer = new MetadataAnalyzer(),
+        private readonly frontmatterService: FrontmatterService = new FrontmatterService()
+    ) {}
+
+    /**
+     * Analyze every document of a registry and merge the metadata into its frontmatter
+     * Problems with single documents are collected in the summary instead of aborting the run
+     * @param registryRoot Root folder of the registry
+     * @param options How analyzed metadata is merged with existing frontmatter
+     * @param dryRun Only compute the changes without writing any file
+     * @returns Changes with their diffs, write results and collected errors
+     */
+    async enhance(registryRoot: string, options: MergeOptions, dryRun: boolean): Promise<EnhancementSummary> {
+        const root = path.resolve(registryRoot);
+        const locations = await this.scanner.scanRepository(root, await this.scanner.readCategories(root));
+        locations.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+        const summary: EnhancementSummary = { dryRun, scanned: locations.length, changes: [], results: [], errors: [] };
+
+        for (const location of locations) {
+            const relativePath = path.relative(root, location.path).split(path.sep).join('/');
+            try {
+                const change = await this.enhanceDocument(location, relativePath, options);
+                if (!change) {
+                    continue;
+                }
+
+                summary.changes.push(change.change);
+                if (!dryRun) {
+                    summary.results.push(await this.writeDocument(location.path, relativePath, change.content));
+                }
+            } catch (error) {
+                summary.errors.push(error instanceof EnhancementError
+                    ? error
+                    : new EnhancementError(
+                        EnhancementErrorCode.FILE_ACCESS_ERROR,
+                        relativePath,
+                        error instanceof Error ? error.message : String(error),
+                        error
+                    ));
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Describe an enhancement run, including the diff of every change
+     * @param summary Enhancement summary
+     * @returns Plain text report in unified diff format
+     */
+    formatSummary(summary: EnhancementSummary): string {
+        const failed = summary.results.filter(result => !result.success);
+        const lines = [
+            `# ${summary.dryRun ? 'Dry run: ' : ''}${summary.changes.length} of ${summary.scanned} documents ${summary.dryRun ? 'would change' : 'changed'}`
+        ];
+
+        for (const result of failed) {
+            lines.push(`# Failed to write ${result.path}: ${result.error}`);
+        }
+        for (const error of summary.errors) {
+            lines.push(`# ${error.code} ${error.documentPath}: ${error.message}`);
+        }
+
+        return [lines.join('\n'), ...summary.changes.map(change => change.diff)].join('\n');
+    }
+
+    /**
+     * Merge analyzed metadata into a document's frontmatter
+     * @param location Location of the document
+     * @param relativePath Registry-relative path of the document
+     * @param options Merge options
+     * @returns The change and the new document content, or undefined if nothing changes
+     */
+    private async enhanceDocument(
+        location: DocumentLocation,
+        relativePath: string,
+        options: MergeOptions
+    ): Promise<{ change: FrontmatterChange; content: string } | undefined> {
+        let content: string;
+        try {
+            content = await fs.readFile(location.path, 'utf-8');
+        } catch (error) {
+            throw new EnhancementError(
+                EnhancementErrorCode.FILE_ACCESS_ERROR,
+                relativePath,
+                `Failed to read document: ${error instanceof Error ? error.message : error}`,
+                error
+            );
+        }
+
+        let frontmatter: Record<string, any>;
+        let body: string;
+        try {
+            ({ frontmatter, body } = this.frontmatterService.parseDocument(content));
+        } catch (error) {
+            throw new EnhancementError(
+                EnhancementErrorCode.INVALID_YAML,
+                relativePath,
+                `Invalid frontmatter: ${error instanceof Error ? error.message.split('\n')[0] : error}`,
+                error
+            );
+        }
+
+        // Existing tags are merged into the analyzed tags unless they are replaced
+        const metadata = this.analyzer.analyze({
+            documentPath: relativePath,
+            category: location.category,
+            subcategory: location.subcategory,
+            existingFrontmatter: options.overwriteTags ? { ...frontmatter, tags: undefined } : frontmatter,
+            bodyContent: body
+        });
+
+        const merged = this.mergeMetadata(frontmatter, metadata, options, relativePath);
+        if (merged.fields.length === 0) {
+            return undefined;
+        }
+
+        const newContent = this.frontmatterService.stringify(merged.frontmatter, body);
+        return {
+            change: {
+                path: relativePath,
+                fields: merged.fields,
+                diff: formatUnifiedDiff(content, newContent, `a/${relativePath}`, `b/${relativePath}`)
+            },
+            content: newContent
+        };
+    }
+
+    /**
+     * Merge analyzed metadata into frontmatter according to the merge options
+     * @param frontmatter Existing frontmatter
+     * @param metadata Analyzed metadata
+     * @param options Merge options
+     * @param relativePath Registry-relative path of the document, for error reporting
+     * @returns Merged frontmatter and the names of the fields that changed
+     */
+    private mergeMetadata(
+        frontmatter: Record<string, any>,
+        metadata: RecommendationMetadata,
+        options: MergeOptions,
+        relativePath: string
+    ): { frontmatter: Record<string, any>; fields: string[] } {
+        const merged = { ...frontmatter };
+        const fields: string[] = [];
+
+        for (const [field, source] of ENHANCED_FIELDS) {
+            const existing = frontmatter[field];
+            const analyzed = metadata[source] as string[] | undefined;
+
+            // A value that isn't a list can't be merged without losing what the author wrote
+            if (existing !== undefined && existing !== null &&
+                !(Array.isArray(existing) && existing.every(value => typeof value === 'string'))) {
+                throw new EnhancementError(
+                    EnhancementErrorCode.CONFLICTING_METADATA,
+                    relativePath,
+                    `"${field}" is ${JSON.stringify(existing)}, expected a list of strings`
+                );
+            }
+
+            if (!analyzed || analyzed.length === 0) {
+                continue;
+            }
+
+            // Tags follow overwriteTags instead: the analyzed tags already include
+            // the existing ones unless those are being replaced
+            if (field !== 'tags' && options.preserveExisting && Array.isArray(existing) && existing.length > 0) {
+                continue;
+            }
+
+            if (JSON.stringify(existing) !== JSON.stringify(analyzed)) {
+                merged[field] = [...analyzed];
+                fields.push(field);
+            }
+        }
+
+        return { frontmatter: merged, fields };
+    }
+
+    /**
+     * Write an enhanced document
+     * @param filePath Absolute path of the document
+     * @param relativePath Registry-relative path of the document
+     * @param content New document content
+     * @returns Result of the write
+     */
+    private async writeDocument(filePath: string, relativePath: string, content: string): Promise<WriteResult> {
+        try {
+            await fs.writeFile(filePath, content, 'utf-8');
+            return { success: true, path: relativePath };
+        } catch (error) {
+            return {
+                success: false,
+                path: relativePath,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+}
@@ -270,6 +270,24 @@ category: "testing"
         });
     });
 
+    suite('parseDocument', () => {
+        test('should report whether the document has frontmatter', () => {
+            const withFrontmatter = service.parseDocument('---\ntitle: Test\n---\n# Body');
+            assert.deepStrictEqual(withFrontmatter.frontmatter, { title: 'Test' });
+            assert.strictEqual(withFrontmatter.body, '# Body');
+            assert.strictEqual(withFrontmatter.hasValidFrontmatter, true);
+
+            const withoutFrontmatter = service.parseDocument('# Body');
+            assert.strictEqual(withoutFrontmatter.body, '# Body');
+            assert.strictEqual(withoutFrontmatter.hasValidFrontmatter, false);
+        });
+
+        test('should throw on invalid YAML instead of dropping the frontmatter', () => {
+            assert.throws(() => service.parseDocument('---\ninvalid: yaml: content: here\n---\n# Body'));
+            assert.throws(() => service.parseDocument('---\n- a list\n---\n# Body'), /mapping/);
+        });
+    });
+
     suite('Round-trip parsing', () => {
         test('should maintain content integrity through parse and stringify', () => {
             const originalContent = `---
@@ -1,4 +1,5 @@
 import * as yaml from 'js-yaml';
+import { ParsedDocument } from '../models/types';
 
 /**
  * Result of parsing a markdown document with frontmatter
@@ -20,16 +21,69 @@ export class FrontmatterService {
      * @returns Object containing parsed frontmatter and body
      */
     parse(content: string): ParseResult {
-        const lines = content.split('\n');
-        
-        // Check if document starts with frontmatter delimiter
-        if (lines.length === 0 || lines[0].trim() !== this.FRONTMATTER_DELIMITER) {
+        const parts = this.split(content);
+        if (!parts) {
             return {
                 frontmatter: {},
                 body: content
             };
         }
 
+        // Parse YAML frontmatter
+        let frontmatter: Record<string, any> = {};
+        try {
+            const parsed = yaml.load(parts.frontmatterContent);
+            if (parsed && typeof parsed === 'object') {
+                frontmatter = parsed as Record<string, any>;
+            }
+        } catch (error) {
+            // If YAML parsing fails, return empty frontmatter
+            console.error('Failed to parse frontmatter:', error);
+        }
+
+        return {
+            frontmatter,
+            body: parts.body
+        };
+    }
+
+    /**
+     * Parse a markdown document, failing on invalid frontmatter instead of ignoring it
+     * Use this before rewriting a document so its frontmatter can't be lost
+     * @param content The full markdown document content
+     * @returns Parsed document (hasValidFrontmatter is false when there is no frontmatter block)
+     * @throws Error describing the problem when the frontmatter isn't a YAML mapping
+     */
+    parseDocument(content: string): ParsedDocument {
+        const parts = this.split(content);
+        if (!parts) {
+            return { frontmatter: {}, body: content, hasValidFrontmatter: false };
+        }
+
+        const parsed = yaml.load(parts.frontmatterContent);
+        if (parsed === undefined || parsed === null) {
+            return { frontmatter: {}, body: parts.body, hasValidFrontmatter: true };
+        }
+        if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('Frontmatter must be a YAML mapping of keys to values');
+        }
+
+        return { frontmatter: parsed as Record<string, any>, body: parts.body, hasValidFrontmatter: true };
+    }
+
+    /**
+     * Split a markdown document into its frontmatter block and body
+     * @param content The full markdown document content
+     * @returns YAML between the delimiters and the body, or undefined if there is no frontmatter block
+     */
+    private split(content: string): { frontmatterContent: string; body: string } | undefined {
+        const lines = content.split('\n');
+        
+        // Check if document starts with frontmatter delimiter
+        if (lines.length === 0 || lines[0].trim() !== this.FRONTMATTER_DELIMITER) {
+            return undefined;
+        }
+
         // Find the closing delimiter
         let closingDelimiterIndex = -1;
         for (let i = 1; i < lines.length; i++) {
@@ -41,31 +95,13 @@ export class FrontmatterService {
 
         // If no closing delimiter found, treat as no frontmatter
         if (closingDelimiterIndex === -1) {
-            return {
-                frontmatter: {},
-                body: content
-            };
+            return undefined;
         }
 
         // Extract frontmatter content between delimiters
-        const frontmatterContent = lines.slice(1, closingDelimiterIndex).join('\n');
-        const body = lines.slice(closingDelimiterIndex + 1).join('\n');
-
-        // Parse YAML frontmatter
-        let frontmatter: Record<string, any> = {};
-        try {
-            const parsed = yaml.load(frontmatterContent);
-            if (parsed && typeof parsed === 'object') {
-                frontmatter = parsed as Record<string, any>;
-            }
-        } catch (error) {
-            // If YAML parsing fails, return empty frontmatter
-            console.error('Failed to parse frontmatter:', error);
-        }
-
         return {
-            frontmatter,
-            body
+            frontmatterContent: lines.slice(1, closingDelimiterIndex).join('\n'),
+            body: lines.slice(closingDelimiterIndex + 1).join('\n')
         };
     }
 
@@ -1,6 +1,31 @@
 import * as assert from 'assert';
-import { GitHubClient } from './GitHubClient';
+import { GitHubClient, isGitHubDotCom } from './GitHubClient';
+import { CacheManager } from './CacheManager';
 import { ErrorCode, ExtensionError } from '../models/types';
+import { startHttpStub } from '../test/httpStub';
+
+/**
+ * Mock implementation of vscode.Memento for testing
+ */
+class MockMemento {
+    private storage = new Map<string, any>();
+
+    get<T>(key: string): T | undefined {
+        return this.storage.get(key);
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            this.storage.delete(key);
+        } else {
+            this.storage.set(key, value);
+        }
+    }
+
+    keys(): readonly string[] {
+        return Array.from(this.storage.keys());
+    }
+}
 
 suite('GitHubClient Tests', () => {
     
@@ -65,4 +90,338 @@ suite('GitHubClient Tests', () => {
             assert.ok(error instanceof ExtensionError, 'Should throw ExtensionError on timeout');
         }
     });
+
+    test('listDirectory should map contents to source entries', async () => {
+        const stub = await startHttpStub(request => {
+            if (request.url === '/repos/test/repo/contents/testing?ref=main') {
+                return {
+                    body: [{
+                        name: 'jest.md',
+                        path: 'testing/jest.md',
+                        sha: 'abc123',
+                        size: 10,
+                        type: 'file',
+                        download_url: 'https://raw.example/testing/jest.md'
+                    }]
+                };
+            }
+            return undefined;
+        });
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', 'secret', { apiBaseUrl: stub.url });
+            const entries = await client.listDirectory('testing');
+
+            assert.deepStrictEqual(entries, [{
+                name: 'jest.md',
+                path: 'testing/jest.md',
+                type: 'file',
+                sha: 'abc123',
+                size: 10,
+                downloadUrl: 'https://raw.example/testing/jest.md'
+            }]);
+            assert.strictEqual(stub.requests[0].headers['authorization'], 'Bearer secret');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('getTree should list the repository in one call and report truncation', async () => {
+        let truncated = false;
+        const stub = await startHttpStub(request => {
+            if (request.url === '/repos/test/repo/git/trees/main?recursive=1') {
+                return {
+                    body: {
+                        sha: 'root',
+                        truncated,
+                        tree: [
+                            { path: 'testing', type: 'tree', sha: 'tree1' },
+                            { path: 'testing/jest.md', type: 'blob', sha: 'blob1', size: 12 },
+                            { path: 'vendor', type: 'commit', sha: 'sub1' }
+                        ]
+                    }
+                };
+            }
+            return undefined;
+        });
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: stub.url,
+                rawBaseUrl: 'https://raw.example'
+            });
+
+            const entries = await client.getTree();
+            assert.deepStrictEqual(entries, [
+                { name: 'testing', path: 'testing', type: 'dir', sha: 'tree1', size: 0, downloadUrl: 'https://raw.example/test/repo/main/testing' },
+                { name: 'jest.md', path: 'testing/jest.md', type: 'file', sha: 'blob1', size: 12, downloadUrl: 'https://raw.example/test/repo/main/testing/jest.md' }
+            ]);
+            assert.strictEqual(stub.requests.length, 1);
+
+            truncated = true;
+            assert.strictEqual(await client.getTree(), undefined, 'Truncated trees should not be used');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('Conditional requests should send the stored ETag and serve 304 responses from cache', async () => {
+        const listing = [{ name: 'jest.md', path: 'testing/jest.md', sha: 'abc123', size: 10, type: 'file', download_url: '' }];
+        const stub = await startHttpStub(request => {
+            if (request.headers['if-none-match'] === '"v1"') {
+                return { status: 304 };
+            }
+            return { headers: { 'ETag': '"v1"' }, body: listing };
+        });
+
+        try {
+            const cacheManager = new CacheManager(new MockMemento() as any);
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: stub.url,
+                responseCache: cacheManager
+            });
+
+            const first = await client.getRepositoryContents('testing');
+            const second = await client.getRepositoryContents('testing');
+
+            assert.strictEqual(stub.requests.length, 2);
+            assert.strictEqual(stub.requests[0].headers['if-none-match'], undefined, 'First request is unconditional');
+            assert.strictEqual(stub.requests[1].headers['if-none-match'], '"v1"', 'Second request sends the ETag');
+            assert.deepStrictEqual(second, first, '304 should return the cached body');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('Raw content and large API responses should not be stored for conditional requests', async () => {
+        const large = [{ name: 'big.md', path: 'big.md', sha: 'abc123', size: 10, type: 'file', content: 'x'.repeat(300 * 1024) }];
+        const stub = await startHttpStub(request => ({
+            headers: { 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' },
+            body: request.url?.includes('/contents') ? large : '# Version 1'
+        }));
+
+        try {
+            const memento = new MockMemento();
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: stub.url,
+                rawBaseUrl: stub.url,
+                responseCache: new CacheManager(memento as any)
+            });
+
+            assert.strictEqual(await client.getRawFileContent('jest.md'), '# Version 1');
+            assert.strictEqual(await client.getRawFileContent('jest.md'), '# Version 1');
+            await client.getRepositoryContents('');
+            await client.getRepositoryContents('');
+
+            assert.ok(stub.requests.every(request => request.headers['if-modified-since'] === undefined));
+            assert.deepStrictEqual(memento.keys(), []);
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('Rate limit headers should be exposed and an exhausted quota should pause requests', async () => {
+        const reset = Math.floor(Date.now() / 1000) + 3600;
+        // The response uses the last request of the quota
+        const stub = await startHttpStub(() => ({
+            headers: {
+                'X-RateLimit-Limit': '60',
+                'X-RateLimit-Remaining': '0',
+                'X-RateLimit-Reset': String(reset)
+            },
+            body: []
+        }));
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, { apiBaseUrl: stub.url });
+            const updates: number[] = [];
+            client.onDidChangeRateLimit(rateLimit => updates.push(rateLimit.remaining));
+
+            await client.getRepositoryContents('testing');
+            assert.deepStrictEqual(client.getRateLimit(), { limit: 60, remaining: 0, resetAt: reset * 1000 });
+
+            // The quota is exhausted, so no further request is sent
+            await assert.rejects(
+                () => client.getRepositoryContents('testing'),
+                (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.RATE_LIMITED
+            );
+            assert.strictEqual(stub.requests.length, 1);
+            assert.deepStrictEqual(updates, [0]);
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('Rate limit responses should not be retried and should honor Retry-After', async () => {
+        const stub = await startHttpStub(() => ({
+            status: 429,
+            headers: { 'Retry-After': '120' },
+            body: { message: 'Too many requests' }
+        }));
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, { apiBaseUrl: stub.url });
+
+            await assert.rejects(
+                () => client.getRepositoryContents('testing'),
+                (error: unknown) => error instanceof ExtensionError &&
+                    error.code === ErrorCode.RATE_LIMITED &&
+                    !error.recoverable
+            );
+            await assert.rejects(() => client.getRepositoryContents('testing'));
+            assert.strictEqual(stub.requests.length, 1, 'Requests should pause until Retry-After has passed');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('listRefs should list releases before tags without a release', async () => {
+        const stub = await startHttpStub(request => {
+            if (request.url === '/repos/test/repo/releases?per_page=30') {
+                return {
+                    body: [
+                        { tag_name: 'v2.0.0-rc.1', name: 'v2.0.0-rc.1', draft: false, prerelease: true, published_at: '2025-03-01T00:00:00Z' },
+                        { tag_name: 'v1.1.0', name: 'Spring update', draft: false, prerelease: false, published_at: '2025-02-01T00:00:00Z' },
+                        { tag_name: 'v1.2.0', name: 'Draft', draft: true, prerelease: false, published_at: null }
+                    ]
+                };
+            }
+            if (request.url === '/repos/test/repo/tags?per_page=100') {
+                return {
+                    body: [
+                        { name: 'v2.0.0-rc.1', commit: { sha: 'sha-rc' } },
+                        { name: 'v1.1.0', commit: { sha: 'sha-110' } },
+                        { name: 'v1.0.0', commit: { sha: 'sha-100' } }
+                    ]
+                };
+            }
+            return undefined;
+        });
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, { apiBaseUrl: stub.url });
+            const refs = await client.listRefs();
+
+            assert.deepStrictEqual(refs.map(ref => [ref.name, ref.type, ref.sha]), [
+                ['v2.0.0-rc.1', 'release', 'sha-rc'],
+                ['v1.1.0', 'release', 'sha-110'],
+                ['v1.0.0', 'tag', 'sha-100']
+            ]);
+            assert.strictEqual(refs[0].prerelease, true);
+            assert.strictEqual(refs[1].title, 'Spring update');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('GitHub Enterprise base URL should read the API and raw content under /api/v3 with the token', async () => {
+        const stub = await startHttpStub(request => {
+            if (request.url === '/api/v3/repos/team/docs') {
+                return { body: { full_name: 'team/docs', permissions: { pull: true } } };
+            }
+            if (request.url === '/api/v3/repos/team/docs/contents/categories.json?ref=main'
+                && request.headers['accept'] === 'application/vnd.github.raw') {
+                return { body: '{"categories":[]}' };
+            }
+            return undefined;
+        });
+
+        try {
+            const client = new GitHubClient('team/docs', 'main', 'ghe-token', { baseUrl: `${stub.url}/` });
+            const description = await client.verifyAccess();
+
+            assert.ok(description.includes('team/docs'));
+            assert.strictEqual(await client.getRawFileContent('categories.json'), '{"categories":[]}');
+            assert.deepStrictEqual(stub.requests.map(request => request.url), [
+                '/api/v3/repos/team/docs',
+                '/api/v3/repos/team/docs/contents/index.json?ref=main',
+                '/api/v3/repos/team/docs/contents/categories.json?ref=main',
+                '/api/v3/repos/team/docs/contents/categories.json?ref=main'
+            ]);
+            assert.ok(stub.requests.every(request => request.headers['authorization'] === 'Bearer ghe-token'),
+                'The token should be sent with every request');
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('verifyAccess should accept a registry that only publishes index.json', async () => {
+        const stub = await startHttpStub(request => {
+            if (request.url === '/repos/test/repo') {
+                return { body: { permissions: { pull: true } } };
+            }
+            if (request.url === '/test/repo/main/index.json') {
+                return { body: '{"version":1,"documents":[]}' };
+            }
+            return undefined;
+        });
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, { apiBaseUrl: stub.url, rawBaseUrl: stub.url });
+
+            assert.ok((await client.verifyAccess()).includes('test/repo'));
+            assert.deepStrictEqual(stub.requests.map(request => request.url), ['/repos/test/repo', '/test/repo/main/index.json']);
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('isGitHubDotCom should only accept sources whose API is api.github.com', () => {
+        assert.strictEqual(isGitHubDotCom({}), true);
+        assert.strictEqual(isGitHubDotCom({ baseUrl: 'https://github.com/' }), true);
+        assert.strictEqual(isGitHubDotCom({ apiBaseUrl: 'https://API.github.com/' }), true);
+        assert.strictEqual(isGitHubDotCom({ baseUrl: 'https://ghe.example.com' }), false);
+        assert.strictEqual(isGitHubDotCom({ apiBaseUrl: 'https://ghe.example.com/api/v3' }), false);
+        assert.strictEqual(isGitHubDotCom({ baseUrl: 'https://github.com', apiBaseUrl: 'https://proxy.example.com' }), false);
+    });
+
+    test('verifyAccess should report rejected tokens without retrying', async () => {
+        const stub = await startHttpStub(() => ({ status: 401, body: { message: 'Bad credentials' } }));
+
+        try {
+            const client = new GitHubClient('team/docs', 'main', 'expired', { apiBaseUrl: stub.url });
+
+            await assert.rejects(
+                () => client.verifyAccess(),
+                (error: unknown) => error instanceof ExtensionError && /token/.test(error.message)
+            );
+            assert.strictEqual(stub.requests.length, 1);
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('A token supplier should be read on every request and a new token should lift the rate limit pause', async () => {
+        const reset = Math.floor(Date.now() / 1000) + 3600;
+        const stub = await startHttpStub(request => ({
+            headers: {
+                'X-RateLimit-Limit': request.headers['authorization'] ? '5000' : '60',
+                'X-RateLimit-Remaining': request.headers['authorization'] ? '4999' : '0',
+                'X-RateLimit-Reset': String(reset)
+            },
+            body: []
+        }));
+
+        try {
+            let token: string | undefined;
+            const client = new GitHubClient('test/repo', 'main', () => token, { apiBaseUrl: stub.url });
+
+            await client.getRepositoryContents('testing');
+            await assert.rejects(
+                () => client.getRepositoryContents('testing'),
+                (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.RATE_LIMITED
+            );
+
+            token = 'new-token';
+            await client.getRepositoryContents('testing');
+
+            assert.deepStrictEqual(stub.requests.map(request => request.headers['authorization']), [
+                undefined,
+                'Bearer new-token'
+            ]);
+            assert.strictEqual(client.getRateLimit()?.remaining, 4999);
+        } finally {
+            await stub.close();
+        }
+    });
 });
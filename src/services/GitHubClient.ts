@@ -1,21 +1,92 @@
-import * as https from 'https';
-import { GitHubContent, ErrorCode, ExtensionError } from '../models/types';
+import { HttpClient } from './HttpClient';
+import { CacheManager } from './CacheManager';
+import { INDEX_FILE } from './RegistryIndexService';
+import { GitHubContent, ErrorCode, ExtensionError, SourceEntry, NetworkSettings, SourceProvider, SourceRef, TokenSupplier } from '../models/types';
+
+/**
+ * Options for overriding the GitHub endpoints and enabling response caching
+ */
+export interface GitHubClientOptions {
+    // GitHub Enterprise Server instance (e.g. "https://ghe.example.com"), used to derive the URLs below
+    baseUrl?: string;
+    apiBaseUrl?: string;
+    rawBaseUrl?: string;
+    // Enables conditional requests with stored ETags / Last-Modified dates
+    responseCache?: CacheManager;
+    // Supplies the current proxy and TLS settings
+    network?: () => NetworkSettings;
+}
+
+/**
+ * API of github.com, used unless a source points at a GitHub Enterprise Server instance
+ */
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * Get the GitHub Enterprise Server instance a source points at
+ * @param baseUrl Instance URL from the source settings
+ * @returns Instance URL without trailing slashes, or undefined for github.com
+ */
+function getInstanceUrl(baseUrl: string | undefined): string | undefined {
+    return baseUrl && !/^https?:\/\/(www\.)?github\.com\/*$/i.test(baseUrl)
+        ? baseUrl.replace(/\/+$/, '')
+        : undefined;
+}
+
+/**
+ * Get the API URL requests of a source are sent to
+ * @param options Endpoint overrides of the source
+ * @returns API base URL, api.github.com unless an Enterprise instance or API URL is configured
+ */
+function getApiBaseUrl(options: Pick<GitHubClientOptions, 'baseUrl' | 'apiBaseUrl'>): string {
+    const instanceUrl = getInstanceUrl(options.baseUrl);
+    return options.apiBaseUrl || (instanceUrl ? `${instanceUrl}/api/v3` : GITHUB_API_URL);
+}
+
+/**
+ * Check whether a GitHub source talks to github.com
+ * Only such sources may use the VS Code GitHub sign-in; sending its token to another host would leak it
+ * @param options Endpoint overrides of the source
+ * @returns True if the source's API requests go to api.github.com
+ */
+export function isGitHubDotCom(options: Pick<GitHubClientOptions, 'baseUrl' | 'apiBaseUrl'>): boolean {
+    return getApiBaseUrl(options).replace(/\/+$/, '').toLowerCase() === GITHUB_API_URL;
+}
+
+/**
+ * Entry returned by the Git Trees API
+ */
+interface GitHubTreeItem {
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+}
 
 /**
  * Client for interacting with the GitHub API
  */
-export class GitHubClient {
-    private readonly baseUrl = 'https://api.github.com';
-    private readonly rawBaseUrl = 'https://raw.githubusercontent.com';
-    private readonly timeout = 30000; // 30 seconds
-    private readonly maxRetries = 3;
-    private readonly retryDelay = 1000; // 1 second
+export class GitHubClient extends HttpClient implements SourceProvider {
+    readonly type = 'github';
+    protected readonly serviceName = 'GitHub';
+    private readonly baseUrl: string;
+    // Undefined when raw content is read through the contents API
+    private readonly rawBaseUrl: string | undefined;
 
     constructor(
         private readonly repository: string,
         private readonly branch: string = 'main',
-        private readonly token?: string
-    ) {}
+        token?: string | TokenSupplier,
+        options: GitHubClientOptions = {}
+    ) {
+        super(token, options.responseCache, options.network);
+
+        // GitHub Enterprise Server serves the API under /api/v3. Its raw host depends on whether subdomain
+        // isolation is enabled, and /raw redirects, so raw content is read through the contents API instead
+        const instanceUrl = getInstanceUrl(options.baseUrl);
+        this.baseUrl = getApiBaseUrl(options);
+        this.rawBaseUrl = options.rawBaseUrl || (instanceUrl ? undefined : 'https://raw.githubusercontent.com');
+    }
 
     /**
      * Fetch directory contents from the repository
@@ -25,7 +96,7 @@ export class GitHubClient {
     async getRepositoryContents(path: string): Promise<GitHubContent[]> {
         const url = `${this.baseUrl}/repos/${this.repository}/contents/${path}?ref=${this.branch}`;
         const response = await this.makeRequestWithRetry(url);
-        
+
         if (!Array.isArray(response)) {
             throw new ExtensionError(
                 'Expected array response from GitHub API',
@@ -37,6 +108,82 @@ export class GitHubClient {
         return response as GitHubContent[];
     }
 
+    /**
+     * List directory contents in the provider-neutral format
+     * @param path Path within the repository
+     * @returns Array of source entries
+     */
+    async listDirectory(path: string): Promise<SourceEntry[]> {
+        const contents = await this.getRepositoryContents(path);
+        return contents.map(item => ({
+            name: item.name,
+            path: item.path,
+            type: item.type,
+            sha: item.sha,
+            size: item.size,
+            downloadUrl: item.download_url
+        }));
+    }
+
+    /**
+     * List the whole repository with one recursive Git Trees API call
+     * @returns All blobs and trees, or undefined if GitHub truncated the listing
+     */
+    async getTree(): Promise<SourceEntry[] | undefined> {
+        const url = `${this.baseUrl}/repos/${this.repository}/git/trees/${this.branch}?recursive=1`;
+        const response = await this.makeRequestWithRetry(url);
+
+        if (!response || !Array.isArray(response.tree)) {
+            throw new ExtensionError(
+                'Invalid tree response from GitHub API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        // Very large repositories are truncated - callers fall back to listing directories
+        if (response.truncated) {
+            return undefined;
+        }
+
+        return (response.tree as GitHubTreeItem[])
+            .filter(item => item.type === 'blob' || item.type === 'tree')
+            .map(item => ({
+                name: item.path.substring(item.path.lastIndexOf('/') + 1),
+                path: item.path,
+                type: item.type === 'tree' ? 'dir' : 'file',
+                sha: item.sha,
+                size: item.size || 0,
+                downloadUrl: this.getRawUrl(item.path)
+            }));
+    }
+
+    /**
+     * List the repository's releases and tags, newest first
+     * @returns Published releases followed by tags without a release
+     */
+    async listRefs(): Promise<SourceRef[]> {
+        const releases = await this.requestOptionalList(`${this.baseUrl}/repos/${this.repository}/releases?per_page=30`);
+        const tags = await this.requestOptionalList(`${this.baseUrl}/repos/${this.repository}/tags?per_page=100`);
+
+        return this.mergeRefs(
+            releases
+                .filter(release => !release.draft)
+                .map(release => ({
+                    name: release.tag_name,
+                    type: 'release' as const,
+                    title: release.name && release.name !== release.tag_name ? release.name : undefined,
+                    publishedAt: release.published_at || undefined,
+                    prerelease: !!release.prerelease
+                })),
+            tags.map(tag => ({
+                name: tag.name,
+                type: 'tag' as const,
+                sha: tag.commit?.sha
+            }))
+        );
+    }
+
     /**
      * Fetch file content via GitHub API (base64 encoded)
      * @param path Path to the file in the repository
@@ -72,242 +219,118 @@ export class GitHubClient {
      * @returns Raw file content as string
      */
     async getRawFileContent(path: string): Promise<string> {
-        const url = `${this.rawBaseUrl}/${this.repository}/${this.branch}/${path}`;
-        return this.makeRawRequestWithRetry(url);
+        return this.makeRawRequestWithRetry(this.getRawUrl(path));
     }
 
     /**
-     * Make an HTTP request with retry logic
-     * @param url Full URL to request
-     * @returns Parsed JSON response
+     * Get the git blob SHA of a file
+     * @param path Path to the file in the repository
+     * @returns Blob SHA reported by the contents API
      */
-    private async makeRequestWithRetry(url: string): Promise<any> {
-        let lastError: ExtensionError | null = null;
-
-        for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-            try {
-                return await this.makeRequest(url);
-            } catch (error) {
-                if (error instanceof ExtensionError) {
-                    lastError = error;
-                    
-                    // Don't retry non-recoverable errors
-                    if (!error.recoverable) {
-                        throw error;
-                    }
-
-                    // Don't retry on last attempt
-                    if (attempt < this.maxRetries - 1) {
-                        await this.delay(this.retryDelay * (attempt + 1));
-                    }
-                } else {
-                    throw error;
-                }
-            }
+    async getBlobSha(path: string): Promise<string> {
+        const url = `${this.baseUrl}/repos/${this.repository}/contents/${path}?ref=${this.branch}`;
+        const response = await this.makeRequestWithRetry(url);
+
+        if (typeof response !== 'object' || Array.isArray(response) || typeof response.sha !== 'string') {
+            throw new ExtensionError(
+                'Invalid file metadata response from GitHub API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
         }
 
-        throw lastError || new ExtensionError(
-            'Request failed after maximum retries',
-            ErrorCode.NETWORK_ERROR,
-            false
-        );
+        return response.sha;
     }
 
     /**
-     * Make a raw HTTP request with retry logic
-     * @param url Full URL to request
-     * @returns Raw content as string
+     * Fetch the content of a blob by its SHA via the git database API (base64 encoded)
+     * @param sha Git blob SHA
+     * @returns Decoded blob content as string
      */
-    private async makeRawRequestWithRetry(url: string): Promise<string> {
-        let lastError: ExtensionError | null = null;
-
-        for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-            try {
-                return await this.makeRawRequest(url);
-            } catch (error) {
-                if (error instanceof ExtensionError) {
-                    lastError = error;
-                    
-                    // Don't retry non-recoverable errors
-                    if (!error.recoverable) {
-                        throw error;
-                    }
-
-                    // Don't retry on last attempt
-                    if (attempt < this.maxRetries - 1) {
-                        await this.delay(this.retryDelay * (attempt + 1));
-                    }
-                } else {
-                    throw error;
-                }
-            }
+    async getBlobContent(sha: string): Promise<string> {
+        const url = `${this.baseUrl}/repos/${this.repository}/git/blobs/${sha}`;
+        const response = await this.makeRequestWithRetry(url);
+
+        if (typeof response !== 'object' || typeof response.content !== 'string') {
+            throw new ExtensionError(
+                'Invalid blob response from GitHub API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+        if (response.encoding !== 'base64') {
+            throw new ExtensionError(
+                'Unsupported content encoding',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
         }
 
-        throw lastError || new ExtensionError(
-            'Request failed after maximum retries',
-            ErrorCode.NETWORK_ERROR,
-            false
-        );
+        return Buffer.from(response.content, 'base64').toString('utf-8');
     }
 
     /**
-     * Delay execution for a specified time
-     * @param ms Milliseconds to delay
+     * Check that the repository and its raw content can be read with the configured token
+     * Verifies the API and raw content separately, since they can be served from different hosts.
+     * Raw access is checked with the registry's index.json, or its categories.json if it has no index
+     * @returns Description of the verified access
      */
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
-    }
+    async verifyAccess(): Promise<string> {
+        const repository = await this.makeRequestWithRetry(`${this.baseUrl}/repos/${this.repository}`);
 
-    /**
-     * Make an HTTP request to the GitHub API
-     * @param url Full URL to request
-     * @returns Parsed JSON response
-     */
-    private makeRequest(url: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            const headers: Record<string, string> = {
-                'User-Agent': 'VSCode-Steering-Docs-Browser',
-                'Accept': 'application/vnd.github.v3+json'
-            };
-
-            if (this.token) {
-                headers['Authorization'] = `Bearer ${this.token}`;
+        if (repository?.permissions && !repository.permissions.pull) {
+            throw new ExtensionError(
+                `The token cannot read ${this.repository}`,
+                ErrorCode.NETWORK_ERROR,
+                false
+            );
+        }
+
+        try {
+            await this.getRawFileContent(INDEX_FILE);
+        } catch (error) {
+            if (!(error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND)) {
+                throw error;
             }
+            await this.getRawFileContent('categories.json');
+        }
 
-            const req = https.get(url, {
-                headers,
-                timeout: this.timeout
-            }, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        try {
-                            resolve(JSON.parse(data));
-                        } catch (error) {
-                            reject(new ExtensionError(
-                                'Failed to parse GitHub API response',
-                                ErrorCode.PARSE_ERROR,
-                                false
-                            ));
-                        }
-                    } else {
-                        reject(this.handleHttpError(res.statusCode || 0, data));
-                    }
-                });
-            });
-
-            req.on('timeout', () => {
-                req.destroy();
-                reject(new ExtensionError(
-                    'Request to GitHub API timed out after 30 seconds',
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                ));
-            });
-
-            req.on('error', (error) => {
-                reject(new ExtensionError(
-                    `Network error: ${error.message}`,
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                ));
-            });
-        });
+        const host = new URL(this.baseUrl).host;
+        return `${this.repository} on ${host} is readable ${this.getToken() ? 'with the configured token' : 'without a token'}`;
     }
 
     /**
-     * Make an HTTP request for raw content
-     * @param url Full URL to request
-     * @returns Raw content as string
+     * Get the URL raw content of a file is read from
+     * @param path Path within the repository
+     * @returns Raw host URL, or the contents API URL when there is no raw host
      */
-    private makeRawRequest(url: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const headers: Record<string, string> = {
-                'User-Agent': 'VSCode-Steering-Docs-Browser'
-            };
-
-            if (this.token) {
-                headers['Authorization'] = `Bearer ${this.token}`;
-            }
-
-            const req = https.get(url, {
-                headers,
-                timeout: this.timeout
-            }, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        resolve(data);
-                    } else {
-                        reject(this.handleHttpError(res.statusCode || 0, data));
-                    }
-                });
-            });
-
-            req.on('timeout', () => {
-                req.destroy();
-                reject(new ExtensionError(
-                    'Request to GitHub timed out after 30 seconds',
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                ));
-            });
-
-            req.on('error', (error) => {
-                reject(new ExtensionError(
-                    `Network error: ${error.message}`,
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                ));
-            });
-        });
+    private getRawUrl(path: string): string {
+        return this.rawBaseUrl
+            ? `${this.rawBaseUrl}/${this.repository}/${this.branch}/${path}`
+            : `${this.baseUrl}/repos/${this.repository}/contents/${path}?ref=${this.branch}`;
     }
 
     /**
-     * Handle HTTP error responses
-     * @param statusCode HTTP status code
-     * @param responseBody Response body
-     * @returns ExtensionError with appropriate message
+     * Build GitHub request headers
+     * @param raw True when requesting raw file content
      */
-    private handleHttpError(statusCode: number, responseBody: string): ExtensionError {
-        switch (statusCode) {
-            case 404:
-                return new ExtensionError(
-                    'Resource not found on GitHub',
-                    ErrorCode.NOT_FOUND,
-                    false
-                );
-            case 403:
-                return new ExtensionError(
-                    'GitHub API rate limit exceeded or access forbidden',
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                );
-            case 500:
-            case 502:
-            case 503:
-            case 504:
-                return new ExtensionError(
-                    'GitHub server error. Please try again later',
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                );
-            default:
-                return new ExtensionError(
-                    `GitHub API error (${statusCode}): ${responseBody}`,
-                    ErrorCode.NETWORK_ERROR,
-                    true
-                );
+    protected getHeaders(raw: boolean): Record<string, string> {
+        const headers: Record<string, string> = {
+            'User-Agent': 'VSCode-Steering-Docs-Browser'
+        };
+
+        if (!raw) {
+            headers['Accept'] = 'application/vnd.github.v3+json';
+        } else if (!this.rawBaseUrl) {
+            // The contents API returns the file itself instead of JSON
+            headers['Accept'] = 'application/vnd.github.raw';
         }
+
+        const token = this.getToken();
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        return headers;
     }
 }
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { GitLabClient } from './GitLabClient';
+import { ErrorCode, ExtensionError } from '../models/types';
+import { HttpStub, startHttpStub } from '../test/httpStub';
+
+suite('GitLabClient Tests', () => {
+    const projectPath = '/api/v4/projects/group%2Fdocs';
+    let stub: HttpStub;
+
+    teardown(async () => {
+        await stub.close();
+    });
+
+    test('listDirectory should map tree entries and skip submodules', async () => {
+        stub = await startHttpStub(request => {
+            if (request.url.startsWith(`${projectPath}/repository/tree?path=code-formatting&ref=main`)) {
+                return {
+                    body: [
+                        { id: 'aaa', name: 'python.md', type: 'blob', path: 'code-formatting/python.md' },
+                        { id: 'bbb', name: 'nested', type: 'tree', path: 'code-formatting/nested' },
+                        { id: 'ccc', name: 'vendor', type: 'commit', path: 'code-formatting/vendor' }
+                    ]
+                };
+            }
+            return undefined;
+        });
+
+        const client = new GitLabClient('group/docs', 'main', 'secret', stub.url);
+        const entries = await client.listDirectory('code-formatting');
+
+        assert.strictEqual(entries.length, 2);
+        assert.deepStrictEqual(entries.map(e => [e.name, e.type, e.sha]), [
+            ['python.md', 'file', 'aaa'],
+            ['nested', 'dir', 'bbb']
+        ]);
+        assert.strictEqual(
+            entries[0].downloadUrl,
+            `${stub.url}${projectPath}/repository/files/code-formatting%2Fpython.md/raw?ref=main`
+        );
+        assert.strictEqual(stub.requests[0].headers['private-token'], 'secret');
+    });
+
+    test('listDirectory should follow pagination', async () => {
+        stub = await startHttpStub(request => {
+            const page = Number(new URL(request.url, 'http://localhost').searchParams.get('page'));
+            const count = page === 1 ? 100 : 3;
+            return {
+                body: Array.from({ length: count }, (_, i) => ({
+                    id: `sha-${page}-${i}`,
+                    name: `doc-${page}-${i}.md`,
+                    type: 'blob',
+                    path: `doc-${page}-${i}.md`
+                }))
+            };
+        });
+
+        const client = new GitLabClient('group/docs', 'main', undefined, stub.url);
+        const entries = await client.listDirectory('');
+
+        assert.strictEqual(entries.length, 103);
+        assert.strictEqual(stub.requests.length, 2);
+    });
+
+    test('getRawFileContent and getBlobSha should use the files API', async () => {
+        stub = await startHttpStub(request => {
+            if (request.url === `${projectPath}/repository/files/docs%2Fa.md/raw?ref=v1.0`) {
+                return { body: '# Raw content' };
+            }
+            if (request.url === `${projectPath}/repository/files/docs%2Fa.md?ref=v1.0`) {
+                return { body: { file_path: 'docs/a.md', blob_id: 'blob123' } };
+            }
+            return undefined;
+        });
+
+        const client = new GitLabClient('group/docs', 'v1.0', undefined, stub.url);
+
+        assert.strictEqual(await client.getRawFileContent('docs/a.md'), '# Raw content');
+        assert.strictEqual(await client.getBlobSha('docs/a.md'), 'blob123');
+    });
+
+    test('404 responses should raise NOT_FOUND', async () => {
+        stub = await startHttpStub(() => undefined);
+        const client = new GitLabClient('group/docs', 'main', undefined, stub.url);
+
+        await assert.rejects(
+            () => client.listDirectory('missing'),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND
+        );
+    });
+});
@@ -0,0 +1,199 @@
+import { HttpClient } from './HttpClient';
+import { CacheManager } from './CacheManager';
+import { ErrorCode, ExtensionError, SourceEntry, NetworkSettings, SourceProvider, SourceRef, TokenSupplier } from '../models/types';
+
+/**
+ * Entry returned by the GitLab repository tree API
+ */
+interface GitLabTreeItem {
+    id: string;
+    name: string;
+    type: 'tree' | 'blob' | 'commit';
+    path: string;
+}
+
+/**
+ * Client for reading steering documents from a GitLab project (gitlab.com or self-hosted)
+ */
+export class GitLabClient extends HttpClient implements SourceProvider {
+    readonly type = 'gitlab';
+    protected readonly serviceName = 'GitLab';
+    private readonly pageSize = 100;
+    private readonly apiUrl: string;
+
+    /**
+     * @param repository Project path (e.g. "group/project")
+     * @param branch Branch, tag or commit to read from
+     * @param token Personal or project access token
+     * @param baseUrl Instance URL (defaults to https://gitlab.com)
+     * @param responseCache Enables conditional requests with stored ETags / Last-Modified dates
+     * @param network Supplies the current proxy and TLS settings
+     */
+    constructor(
+        repository: string,
+        private readonly branch: string = 'main',
+        token?: string | TokenSupplier,
+        baseUrl: string = 'https://gitlab.com',
+        responseCache?: CacheManager,
+        network?: () => NetworkSettings
+    ) {
+        super(token, responseCache, network);
+        this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/api/v4/projects/${encodeURIComponent(repository)}`;
+    }
+
+    /**
+     * List directory contents, following pagination
+     * @param path Directory path within the project
+     * @returns Array of source entries
+     */
+    async listDirectory(path: string): Promise<SourceEntry[]> {
+        return this.listTree(`path=${encodeURIComponent(path)}`);
+    }
+
+    /**
+     * List the whole project with the recursive tree API
+     * @returns All blobs and trees of the project
+     */
+    async getTree(): Promise<SourceEntry[]> {
+        return this.listTree('recursive=true');
+    }
+
+    /**
+     * List the project's releases and tags, newest first
+     * @returns Releases followed by tags without a release
+     */
+    async listRefs(): Promise<SourceRef[]> {
+        const releases = await this.requestOptionalList(`${this.apiUrl}/releases?per_page=30`);
+        const tags = await this.requestOptionalList(`${this.apiUrl}/repository/tags?per_page=100`);
+
+        return this.mergeRefs(
+            releases
+                .filter(release => !release.upcoming_release)
+                .map(release => ({
+                    name: release.tag_name,
+                    type: 'release' as const,
+                    title: release.name && release.name !== release.tag_name ? release.name : undefined,
+                    publishedAt: release.released_at || undefined,
+                    sha: release.commit?.id
+                })),
+            tags.map(tag => ({
+                name: tag.name,
+                type: 'tag' as const,
+                sha: tag.commit?.id
+            }))
+        );
+    }
+
+    /**
+     * Query the repository tree API, following pagination
+     * @param query Query parameters selecting the tree to list
+     * @returns Array of source entries
+     */
+    private async listTree(query: string): Promise<SourceEntry[]> {
+        const entries: SourceEntry[] = [];
+        const ref = encodeURIComponent(this.branch);
+
+        for (let page = 1; ; page++) {
+            const url = `${this.apiUrl}/repository/tree?${query}&ref=${ref}&per_page=${this.pageSize}&page=${page}`;
+            const response = await this.makeRequestWithRetry(url);
+
+            if (!Array.isArray(response)) {
+                throw new ExtensionError(
+                    'Expected array response from GitLab API',
+                    ErrorCode.PARSE_ERROR,
+                    false
+                );
+            }
+
+            for (const item of response as GitLabTreeItem[]) {
+                // Submodules ("commit" entries) can't be browsed
+                if (item.type !== 'tree' && item.type !== 'blob') {
+                    continue;
+                }
+
+                entries.push({
+                    name: item.name,
+                    path: item.path,
+                    type: item.type === 'tree' ? 'dir' : 'file',
+                    sha: item.id,
+                    // The tree API does not report sizes
+                    size: 0,
+                    downloadUrl: this.getRawUrl(item.path)
+                });
+            }
+
+            if (response.length < this.pageSize) {
+                break;
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Fetch raw file content
+     * @param path File path within the project
+     * @returns Raw file content as string
+     */
+    async getRawFileContent(path: string): Promise<string> {
+        return this.makeRawRequestWithRetry(this.getRawUrl(path));
+    }
+
+    /**
+     * Get the git blob SHA of a file
+     * @param path File path within the project
+     * @returns Blob SHA reported by the files API
+     */
+    async getBlobSha(path: string): Promise<string> {
+        const url = `${this.apiUrl}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(this.branch)}`;
+        const response = await this.makeRequestWithRetry(url);
+
+        if (!response || typeof response.blob_id !== 'string') {
+            throw new ExtensionError(
+                'Invalid file metadata response from GitLab API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        return response.blob_id;
+    }
+
+    /**
+     * Fetch the raw content of a blob by its SHA
+     * @param sha Git blob SHA
+     * @returns Raw blob content as string
+     */
+    async getBlobContent(sha: string): Promise<string> {
+        return this.makeRawRequestWithRetry(`${this.apiUrl}/repository/blobs/${sha}/raw`);
+    }
+
+    /**
+     * Build the raw file URL for a path
+     * @param path File path within the project
+     */
+    private getRawUrl(path: string): string {
+        return `${this.apiUrl}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(this.branch)}`;
+    }
+
+    /**
+     * Build GitLab request headers
+     * @param raw True when requesting raw file content
+     */
+    protected getHeaders(raw: boolean): Record<string, string> {
+        const headers: Record<string, string> = {
+            'User-Agent': 'VSCode-Steering-Docs-Browser'
+        };
+
+        if (!raw) {
+            headers['Accept'] = 'application/json';
+        }
+
+        const token = this.getToken();
+        if (token) {
+            headers['PRIVATE-TOKEN'] = token;
+        }
+
+        return headers;
+    }
+}
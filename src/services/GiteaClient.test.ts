@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { GiteaClient } from './GiteaClient';
+import { ErrorCode, ExtensionError } from '../models/types';
+import { HttpStub, startHttpStub } from '../test/httpStub';
+
+suite('GiteaClient Tests', () => {
+    const repoPath = '/api/v1/repos/owner/docs';
+    let stub: HttpStub;
+
+    teardown(async () => {
+        await stub.close();
+    });
+
+    test('listDirectory should map contents and skip symlinks', async () => {
+        stub = await startHttpStub(request => {
+            if (request.url === `${repoPath}/contents/testing?ref=main`) {
+                return {
+                    body: [
+                        { name: 'jest.md', path: 'testing/jest.md', sha: 'aaa', size: 42, type: 'file', download_url: null },
+                        { name: 'e2e', path: 'testing/e2e', sha: 'bbb', size: 0, type: 'dir', download_url: null },
+                        { name: 'link', path: 'testing/link', sha: 'ccc', size: 0, type: 'symlink', download_url: null }
+                    ]
+                };
+            }
+            return undefined;
+        });
+
+        const client = new GiteaClient('owner/docs', 'main', 'secret', stub.url);
+        const entries = await client.listDirectory('testing');
+
+        assert.deepStrictEqual(entries.map(e => [e.name, e.type, e.sha, e.size]), [
+            ['jest.md', 'file', 'aaa', 42],
+            ['e2e', 'dir', 'bbb', 0]
+        ]);
+        assert.strictEqual(entries[0].downloadUrl, `${stub.url}${repoPath}/raw/testing/jest.md?ref=main`);
+        assert.strictEqual(stub.requests[0].headers['authorization'], 'token secret');
+    });
+
+    test('getRawFileContent and getBlobSha should read the file', async () => {
+        stub = await startHttpStub(request => {
+            if (request.url === `${repoPath}/raw/testing/jest.md?ref=main`) {
+                return { body: '# Jest' };
+            }
+            if (request.url === `${repoPath}/contents/testing/jest.md?ref=main`) {
+                return { body: { name: 'jest.md', path: 'testing/jest.md', sha: 'blob456', type: 'file' } };
+            }
+            return undefined;
+        });
+
+        const client = new GiteaClient('owner/docs', 'main', undefined, stub.url);
+
+        assert.strictEqual(await client.getRawFileContent('testing/jest.md'), '# Jest');
+        assert.strictEqual(await client.getBlobSha('testing/jest.md'), 'blob456');
+    });
+
+    test('getBlobContent should decode the blob whichever ref it belongs to', async () => {
+        stub = await startHttpStub(request => {
+            if (request.url === `${repoPath}/git/blobs/blob456`) {
+                return { body: { sha: 'blob456', encoding: 'base64', content: Buffer.from('# Jest v1').toString('base64') } };
+            }
+            return undefined;
+        });
+
+        const client = new GiteaClient('owner/docs', 'main', undefined, stub.url);
+
+        assert.strictEqual(await client.getBlobContent('blob456'), '# Jest v1');
+    });
+
+    test('404 responses should raise NOT_FOUND', async () => {
+        stub = await startHttpStub(() => undefined);
+        const client = new GiteaClient('owner/docs', 'main', undefined, stub.url);
+
+        await assert.rejects(
+            () => client.getRawFileContent('missing.md'),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND
+        );
+    });
+});
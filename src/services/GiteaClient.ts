@@ -0,0 +1,244 @@
+import { HttpClient } from './HttpClient';
+import { CacheManager } from './CacheManager';
+import { ErrorCode, ExtensionError, SourceEntry, NetworkSettings, SourceProvider, SourceRef, TokenSupplier } from '../models/types';
+
+/**
+ * Entry returned by the Gitea contents API
+ */
+interface GiteaContent {
+    name: string;
+    path: string;
+    sha: string;
+    size: number;
+    type: 'file' | 'dir' | 'symlink' | 'submodule';
+    download_url: string | null;
+}
+
+/**
+ * Entry returned by the Gitea Git Trees API
+ */
+interface GiteaTreeItem {
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+}
+
+/**
+ * Client for reading steering documents from a Gitea or Forgejo repository
+ */
+export class GiteaClient extends HttpClient implements SourceProvider {
+    readonly type = 'gitea';
+    protected readonly serviceName = 'Gitea';
+    private readonly treePageSize = 1000;
+    private readonly apiUrl: string;
+
+    /**
+     * @param repository Repository in "owner/repo" format
+     * @param branch Branch, tag or commit to read from
+     * @param token Access token
+     * @param baseUrl Instance URL (defaults to https://gitea.com)
+     * @param responseCache Enables conditional requests with stored ETags / Last-Modified dates
+     * @param network Supplies the current proxy and TLS settings
+     */
+    constructor(
+        repository: string,
+        private readonly branch: string = 'main',
+        token?: string | TokenSupplier,
+        baseUrl: string = 'https://gitea.com',
+        responseCache?: CacheManager,
+        network?: () => NetworkSettings
+    ) {
+        super(token, responseCache, network);
+        this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/api/v1/repos/${repository}`;
+    }
+
+    /**
+     * List directory contents
+     * @param path Directory path within the repository
+     * @returns Array of source entries
+     */
+    async listDirectory(path: string): Promise<SourceEntry[]> {
+        const response = await this.makeRequestWithRetry(this.getContentsUrl(path));
+
+        if (!Array.isArray(response)) {
+            throw new ExtensionError(
+                'Expected array response from Gitea API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        return (response as GiteaContent[])
+            .filter(item => item.type === 'file' || item.type === 'dir')
+            .map(item => ({
+                name: item.name,
+                path: item.path,
+                type: item.type as 'file' | 'dir',
+                sha: item.sha,
+                size: item.size,
+                downloadUrl: item.download_url || this.getRawUrl(item.path)
+            }));
+    }
+
+    /**
+     * List the whole repository with the recursive Git Trees API
+     * @returns All blobs and trees of the repository
+     */
+    async getTree(): Promise<SourceEntry[]> {
+        const entries: SourceEntry[] = [];
+
+        for (let page = 1; ; page++) {
+            const url = `${this.apiUrl}/git/trees/${encodeURIComponent(this.branch)}?recursive=true&per_page=${this.treePageSize}&page=${page}`;
+            const response = await this.makeRequestWithRetry(url);
+
+            if (!response || !Array.isArray(response.tree)) {
+                throw new ExtensionError(
+                    'Invalid tree response from Gitea API',
+                    ErrorCode.PARSE_ERROR,
+                    false
+                );
+            }
+
+            for (const item of response.tree as GiteaTreeItem[]) {
+                if (item.type !== 'blob' && item.type !== 'tree') {
+                    continue;
+                }
+
+                entries.push({
+                    name: item.path.substring(item.path.lastIndexOf('/') + 1),
+                    path: item.path,
+                    type: item.type === 'tree' ? 'dir' : 'file',
+                    sha: item.sha,
+                    size: item.size || 0,
+                    downloadUrl: this.getRawUrl(item.path)
+                });
+            }
+
+            // Gitea pages large trees and flags every page but the last as truncated
+            if (!response.truncated || response.tree.length === 0) {
+                break;
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * List the repository's releases and tags, newest first
+     * @returns Published releases followed by tags without a release
+     */
+    async listRefs(): Promise<SourceRef[]> {
+        const releases = await this.requestOptionalList(`${this.apiUrl}/releases?limit=30`);
+        const tags = await this.requestOptionalList(`${this.apiUrl}/tags?limit=50`);
+
+        return this.mergeRefs(
+            releases
+                .filter(release => !release.draft)
+                .map(release => ({
+                    name: release.tag_name,
+                    type: 'release' as const,
+                    title: release.name && release.name !== release.tag_name ? release.name : undefined,
+                    publishedAt: release.published_at || undefined,
+                    prerelease: !!release.prerelease
+                })),
+            tags.map(tag => ({
+                name: tag.name,
+                type: 'tag' as const,
+                sha: tag.commit?.sha
+            }))
+        );
+    }
+
+    /**
+     * Fetch raw file content
+     * @param path File path within the repository
+     * @returns Raw file content as string
+     */
+    async getRawFileContent(path: string): Promise<string> {
+        return this.makeRawRequestWithRetry(this.getRawUrl(path));
+    }
+
+    /**
+     * Get the git blob SHA of a file
+     * @param path File path within the repository
+     * @returns Blob SHA reported by the contents API
+     */
+    async getBlobSha(path: string): Promise<string> {
+        const response = await this.makeRequestWithRetry(this.getContentsUrl(path));
+
+        if (!response || Array.isArray(response) || typeof response.sha !== 'string') {
+            throw new ExtensionError(
+                'Invalid file metadata response from Gitea API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        return response.sha;
+    }
+
+    /**
+     * Fetch the content of a blob by its SHA via the git blobs API (base64 encoded)
+     * @param sha Git blob SHA
+     * @returns Decoded blob content as string
+     */
+    async getBlobContent(sha: string): Promise<string> {
+        const response = await this.makeRequestWithRetry(`${this.apiUrl}/git/blobs/${sha}`);
+
+        if (!response || typeof response.content !== 'string' || response.encoding !== 'base64') {
+            throw new ExtensionError(
+                'Invalid blob response from Gitea API',
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        return Buffer.from(response.content, 'base64').toString('utf-8');
+    }
+
+    /**
+     * Build the contents API URL for a path
+     * @param path Path within the repository
+     */
+    private getContentsUrl(path: string): string {
+        return `${this.apiUrl}/contents/${this.encodePath(path)}?ref=${encodeURIComponent(this.branch)}`;
+    }
+
+    /**
+     * Build the raw file URL for a path
+     * @param path File path within the repository
+     */
+    private getRawUrl(path: string): string {
+        return `${this.apiUrl}/raw/${this.encodePath(path)}?ref=${encodeURIComponent(this.branch)}`;
+    }
+
+    /**
+     * Encode each segment of a repository path
+     * @param path Path within the repository
+     */
+    private encodePath(path: string): string {
+        return path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+    }
+
+    /**
+     * Build Gitea request headers
+     * @param raw True when requesting raw file content
+     */
+    protected getHeaders(raw: boolean): Record<string, string> {
+        const headers: Record<string, string> = {
+            'User-Agent': 'VSCode-Steering-Docs-Browser'
+        };
+
+        if (!raw) {
+            headers['Accept'] = 'application/json';
+        }
+
+        const token = this.getToken();
+        if (token) {
+            headers['Authorization'] = `token ${token}`;
+        }
+
+        return headers;
+    }
+}
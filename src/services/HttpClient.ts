@@ -0,0 +1,453 @@
+import * as http from 'http';
+import { CacheManager } from './CacheManager';
+import { getRequestRoute, toNetworkError } from './ProxyAgent';
+import { formatDuration } from '../utils/format';
+import { ErrorCode, ExtensionError, NetworkSettings, RateLimitInfo, SourceRef, TokenSupplier } from '../models/types';
+
+/**
+ * Body and validators of a previous response, used for conditional requests
+ */
+interface CachedResponse {
+    etag?: string;
+    lastModified?: string;
+    body: string;
+}
+
+/**
+ * Status, headers and body of a completed request
+ */
+interface HttpResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * Base class for source providers that talk to a git hosting service over HTTP
+ * Provides retry, timeout and error mapping shared by all providers
+ */
+export abstract class HttpClient {
+    protected readonly timeout = 30000; // 30 seconds
+    protected readonly maxRetries = 3;
+    protected readonly retryDelay = 1000; // 1 second
+    private readonly defaultRetryAfter = 60000; // Used when a 429 response doesn't say how long to wait
+    private readonly responseCacheTTL = 7 * 24 * 60 * 60; // Cached API responses are kept for 7 days
+    private readonly maxCachedResponseSize = 256 * 1024; // Larger API responses aren't cached
+
+    private rateLimit: RateLimitInfo | undefined;
+    private blockedUntil = 0;
+    private blockedToken: string | undefined;
+    private readonly rateLimitListeners = new Set<(rateLimit: RateLimitInfo) => void>();
+
+    /**
+     * @param token Access token, or a supplier returning the current token
+     * @param responseCache Cache for API response validators; enables conditional requests when provided
+     * @param network Supplier of the current proxy and TLS settings
+     */
+    protected constructor(
+        private readonly token: string | TokenSupplier | undefined,
+        private readonly responseCache?: CacheManager,
+        private readonly network?: () => NetworkSettings
+    ) {}
+
+    /**
+     * Get the access token to send with the next request
+     * @returns Current token, or undefined for anonymous access
+     */
+    protected getToken(): string | undefined {
+        return (typeof this.token === 'function' ? this.token() : this.token) || undefined;
+    }
+
+    /**
+     * Human readable name of the hosting service used in error messages (e.g. "GitHub")
+     */
+    protected abstract readonly serviceName: string;
+
+    /**
+     * Build the request headers for the hosting service
+     * @param raw True when requesting raw file content rather than JSON
+     * @returns Headers including authentication if a token is configured
+     */
+    protected abstract getHeaders(raw: boolean): Record<string, string>;
+
+    /**
+     * Get the most recently reported API quota
+     * @returns Quota, or undefined before the first response with rate-limit headers
+     */
+    getRateLimit(): RateLimitInfo | undefined {
+        return this.rateLimit;
+    }
+
+    /**
+     * Subscribe to API quota changes
+     * @param listener Called whenever a response updates the quota
+     * @returns Disposable that removes the listener
+     */
+    onDidChangeRateLimit(listener: (rateLimit: RateLimitInfo) => void): { dispose(): void } {
+        this.rateLimitListeners.add(listener);
+        return { dispose: () => this.rateLimitListeners.delete(listener) };
+    }
+
+    /**
+     * Make an HTTP request with retry logic
+     * @param url Full URL to request
+     * @returns Parsed JSON response
+     */
+    protected async makeRequestWithRetry(url: string): Promise<any> {
+        return this.withRetry(() => this.makeRequest(url));
+    }
+
+    /**
+     * Make a raw HTTP request with retry logic
+     * @param url Full URL to request
+     * @returns Raw content as string
+     */
+    protected async makeRawRequestWithRetry(url: string): Promise<string> {
+        return this.withRetry(() => this.makeRawRequest(url));
+    }
+
+    /**
+     * Combine releases and tags into one list of refs
+     * @param releases Releases, newest first
+     * @param tags Tags, newest first
+     * @returns Releases followed by the tags that have no release
+     */
+    protected mergeRefs(releases: SourceRef[], tags: SourceRef[]): SourceRef[] {
+        const released = new Map(releases.map(release => [release.name, release]));
+
+        // Releases don't always report the commit, the matching tag does
+        for (const tag of tags) {
+            const release = released.get(tag.name);
+            if (release && !release.sha) {
+                release.sha = tag.sha;
+            }
+        }
+
+        return [...releases, ...tags.filter(tag => !released.has(tag.name))];
+    }
+
+    /**
+     * Fetch a list that the repository may have disabled (such as releases)
+     * @param url Full URL to request
+     * @returns Parsed JSON array, or an empty array if the resource doesn't exist
+     */
+    protected async requestOptionalList(url: string): Promise<any[]> {
+        try {
+            const response = await this.makeRequestWithRetry(url);
+            return Array.isArray(response) ? response : [];
+        } catch (error) {
+            if (error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND) {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Run a request, retrying recoverable errors with a linear back-off
+     * @param request Function performing a single request attempt
+     * @returns Result of the first successful attempt
+     */
+    private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+        let lastError: ExtensionError | null = null;
+
+        for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+            try {
+                return await request();
+            } catch (error) {
+                if (error instanceof ExtensionError) {
+                    lastError = error;
+
+                    // Don't retry non-recoverable errors
+                    if (!error.recoverable) {
+                        throw error;
+                    }
+
+                    // Don't retry on last attempt
+                    if (attempt < this.maxRetries - 1) {
+                        await this.delay(this.retryDelay * (attempt + 1));
+                    }
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        throw lastError || new ExtensionError(
+            'Request failed after maximum retries',
+            ErrorCode.NETWORK_ERROR,
+            false
+        );
+    }
+
+    /**
+     * Delay execution for a specified time
+     * @param ms Milliseconds to delay
+     */
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    /**
+     * Make an HTTP request to the hosting service API
+     * @param url Full URL to request
+     * @returns Parsed JSON response
+     */
+    private async makeRequest(url: string): Promise<any> {
+        const data = await this.fetch(url, false, `${this.serviceName} API`);
+
+        try {
+            return JSON.parse(data);
+        } catch (error) {
+            throw new ExtensionError(
+                `Failed to parse ${this.serviceName} API response`,
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+    }
+
+    /**
+     * Make an HTTP request for raw content
+     * @param url Full URL to request
+     * @returns Raw content as string
+     */
+    private makeRawRequest(url: string): Promise<string> {
+        return this.fetch(url, true, this.serviceName);
+    }
+
+    /**
+     * Fetch a URL, revalidating a previously cached response with If-None-Match / If-Modified-Since
+     * A 304 response is served from the cache and does not count against the service's rate limit.
+     * Only small API responses are cached, and only for a limited time; raw file content is cached
+     * by SHA in the content cache instead, which is bounded in size
+     * @param url Full URL to request
+     * @param raw True when requesting raw file content
+     * @param target Description of the remote used in timeout messages
+     * @returns Response body
+     */
+    private async fetch(url: string, raw: boolean, target: string): Promise<string> {
+        const cacheKey = `http:${url}`;
+        const cached = raw ? undefined : this.responseCache?.get<CachedResponse>(cacheKey);
+        const headers = this.getHeaders(raw);
+
+        if (cached?.etag) {
+            headers['If-None-Match'] = cached.etag;
+        }
+        if (cached?.lastModified) {
+            headers['If-Modified-Since'] = cached.lastModified;
+        }
+
+        // Don't spend requests while the quota is exhausted - unless the token changed, which brings a new quota
+        const token = this.getToken();
+        if (Date.now() < this.blockedUntil && token === this.blockedToken) {
+            throw this.createRateLimitError();
+        }
+
+        const response = await this.send(url, headers, target);
+        this.blockedUntil = 0;
+        this.blockedToken = token;
+        this.updateRateLimit(response);
+
+        if (Date.now() < this.blockedUntil && (response.statusCode === 403 || response.statusCode === 429)) {
+            throw this.createRateLimitError();
+        }
+
+        if (response.statusCode === 304 && cached) {
+            return cached.body;
+        }
+
+        if (response.statusCode !== 200) {
+            throw this.handleHttpError(response.statusCode, response.body);
+        }
+
+        const etag = response.headers['etag'];
+        const lastModified = response.headers['last-modified'];
+        if (this.responseCache && !raw && (etag || lastModified)
+            && Buffer.byteLength(response.body) <= this.maxCachedResponseSize) {
+            await this.responseCache.set<CachedResponse>(cacheKey, {
+                etag,
+                lastModified,
+                body: response.body
+            }, this.responseCacheTTL);
+        }
+
+        return response.body;
+    }
+
+    /**
+     * Record the quota reported by a response and pause requests when it is exhausted
+     * Reads GitHub's X-RateLimit-* headers, GitLab's RateLimit-* headers and Retry-After
+     * @param response Completed response
+     */
+    private updateRateLimit(response: HttpResponse): void {
+        const remaining = this.getNumericHeader(response, 'x-ratelimit-remaining', 'ratelimit-remaining');
+        const limit = this.getNumericHeader(response, 'x-ratelimit-limit', 'ratelimit-limit');
+        const reset = this.getNumericHeader(response, 'x-ratelimit-reset', 'ratelimit-reset');
+
+        if (remaining !== undefined) {
+            this.rateLimit = {
+                limit: limit ?? Math.max(remaining, this.rateLimit?.limit ?? 0),
+                remaining,
+                // Reset headers are epoch seconds
+                resetAt: reset !== undefined ? reset * 1000 : this.rateLimit?.resetAt ?? Date.now()
+            };
+
+            for (const listener of this.rateLimitListeners) {
+                listener(this.rateLimit);
+            }
+        }
+
+        const retryAfter = this.getRetryAfter(response);
+        const limited = response.statusCode === 429 ||
+            (response.statusCode === 403 && (remaining === 0 || retryAfter !== undefined));
+
+        if (limited && retryAfter !== undefined) {
+            this.blockedUntil = Date.now() + retryAfter;
+        } else if (remaining === 0 && this.rateLimit) {
+            this.blockedUntil = this.rateLimit.resetAt;
+        } else if (response.statusCode === 429) {
+            this.blockedUntil = Date.now() + this.defaultRetryAfter;
+        }
+    }
+
+    /**
+     * Read the first present numeric header
+     * @param response Completed response
+     * @param names Header names in order of preference
+     * @returns Header value, or undefined if none is present and numeric
+     */
+    private getNumericHeader(response: HttpResponse, ...names: string[]): number | undefined {
+        for (const name of names) {
+            const value = Number(response.headers[name]);
+            if (response.headers[name] !== undefined && !isNaN(value)) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Parse the Retry-After header (seconds or HTTP date)
+     * @param response Completed response
+     * @returns Delay in milliseconds, or undefined if absent
+     */
+    private getRetryAfter(response: HttpResponse): number | undefined {
+        const header = response.headers['retry-after'];
+        if (!header) {
+            return undefined;
+        }
+
+        const seconds = Number(header);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+
+        const date = Date.parse(header);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Create the error raised while requests are paused
+     * @returns Non-recoverable rate limit error so it isn't retried
+     */
+    private createRateLimitError(): ExtensionError {
+        return new ExtensionError(
+            `${this.serviceName} API rate limit exceeded. Requests are paused for ${formatDuration(this.blockedUntil - Date.now())}. Set a token to raise the limit`,
+            ErrorCode.RATE_LIMITED,
+            false
+        );
+    }
+
+    /**
+     * Perform a single GET request
+     * @param url Full URL to request (http or https)
+     * @param headers Request headers
+     * @param target Description of the remote used in timeout messages
+     * @returns Status, headers and body of the response
+     */
+    private send(url: string, headers: Record<string, string>, target: string): Promise<HttpResponse> {
+        return new Promise((resolve, reject) => {
+            // Self-hosted instances may be served over plain http; either may go through a proxy
+            const route = getRequestRoute(url, this.network?.());
+
+            const req = route.transport.get({
+                ...route.options,
+                headers: { ...headers, ...route.headers },
+                timeout: this.timeout
+            }, (res) => {
+                let data = '';
+
+                res.on('data', (chunk) => {
+                    data += chunk;
+                });
+
+                res.on('end', () => {
+                    resolve({
+                        statusCode: res.statusCode || 0,
+                        headers: res.headers,
+                        body: data
+                    });
+                });
+            });
+
+            req.on('timeout', () => {
+                req.destroy();
+                reject(new ExtensionError(
+                    `Request to ${target} timed out after ${this.timeout / 1000} seconds`,
+                    ErrorCode.NETWORK_ERROR,
+                    true
+                ));
+            });
+
+            req.on('error', (error) => {
+                reject(toNetworkError(error, new URL(url).host));
+            });
+        });
+    }
+
+    /**
+     * Handle HTTP error responses
+     * @param statusCode HTTP status code
+     * @param responseBody Response body
+     * @returns ExtensionError with appropriate message
+     */
+    protected handleHttpError(statusCode: number, responseBody: string): ExtensionError {
+        switch (statusCode) {
+            case 404:
+                return new ExtensionError(
+                    `Resource not found on ${this.serviceName}`,
+                    ErrorCode.NOT_FOUND,
+                    false
+                );
+            case 401:
+                return new ExtensionError(
+                    `Authentication with ${this.serviceName} failed. Check that your token is valid for this server`,
+                    ErrorCode.NETWORK_ERROR,
+                    false
+                );
+            case 403:
+                // Rate limits are detected from headers before this - a plain 403 won't succeed on retry
+                return new ExtensionError(
+                    `Access forbidden by ${this.serviceName}. Check that your token can read the repository`,
+                    ErrorCode.NETWORK_ERROR,
+                    false
+                );
+            case 500:
+            case 502:
+            case 503:
+            case 504:
+                return new ExtensionError(
+                    `${this.serviceName} server error. Please try again later`,
+                    ErrorCode.NETWORK_ERROR,
+                    true
+                );
+            default:
+                return new ExtensionError(
+                    `${this.serviceName} API error (${statusCode}): ${responseBody}`,
+                    ErrorCode.NETWORK_ERROR,
+                    true
+                );
+        }
+    }
+}
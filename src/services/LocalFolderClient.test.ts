@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalFolderClient } from './LocalFolderClient';
+import { ErrorCode, ExtensionError } from '../models/types';
+
+suite('LocalFolderClient Tests', () => {
+    let rootPath: string;
+    let client: LocalFolderClient;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-local-'));
+        await fs.mkdir(path.join(rootPath, 'testing', 'e2e'), { recursive: true });
+        await fs.mkdir(path.join(rootPath, '.git'));
+        await fs.writeFile(path.join(rootPath, 'categories.json'), '{"categories":[]}');
+        await fs.writeFile(path.join(rootPath, 'testing', 'hello.md'), 'hello\n');
+        client = new LocalFolderClient(rootPath);
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('listDirectory should list files and folders with git blob SHAs', async () => {
+        const entries = await client.listDirectory('testing');
+        const byName = new Map(entries.map(e => [e.name, e]));
+
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(byName.get('e2e')?.type, 'dir');
+        assert.strictEqual(byName.get('hello.md')?.type, 'file');
+        assert.strictEqual(byName.get('hello.md')?.path, 'testing/hello.md');
+        assert.strictEqual(byName.get('hello.md')?.size, 6);
+        // Same value as `git hash-object` for "hello\n"
+        assert.strictEqual(byName.get('hello.md')?.sha, 'ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+
+    test('listDirectory should skip hidden entries at the root', async () => {
+        const names = (await client.listDirectory('')).map(e => e.name).sort();
+        assert.deepStrictEqual(names, ['categories.json', 'testing']);
+    });
+
+    test('getRawFileContent and getBlobSha should read from disk', async () => {
+        assert.strictEqual(await client.getRawFileContent('categories.json'), '{"categories":[]}');
+        assert.strictEqual(await client.getBlobSha('testing/hello.md'), 'ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+
+    test('missing files should raise NOT_FOUND', async () => {
+        await assert.rejects(
+            () => client.getRawFileContent('testing/missing.md'),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.NOT_FOUND
+        );
+    });
+
+    test('paths outside the folder should be rejected', async () => {
+        await assert.rejects(
+            () => client.getRawFileContent('../outside.md'),
+            (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.FILE_SYSTEM_ERROR
+        );
+    });
+});
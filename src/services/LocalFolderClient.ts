@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { gitBlobSha } from '../utils/gitHash';
+import { ErrorCode, ExtensionError, SourceEntry, SourceProvider } from '../models/types';
+
+/**
+ * Source provider that reads steering documents from a folder on disk,
+ * such as a local clone of a registry repository
+ */
+export class LocalFolderClient implements SourceProvider {
+    readonly type = 'local';
+    private readonly debounceDelay = 300; // Coalesce bursts of saves into one refresh
+    private readonly rootPath: string;
+
+    /**
+     * @param rootPath Absolute path of the registry folder
+     */
+    constructor(rootPath: string) {
+        this.rootPath = path.resolve(rootPath);
+    }
+
+    /**
+     * List directory contents
+     * @param relativePath Directory path relative to the registry folder
+     * @returns Array of source entries (hidden entries such as .git are skipped)
+     */
+    async listDirectory(relativePath: string): Promise<SourceEntry[]> {
+        const dirPath = this.resolve(relativePath);
+        const entries: SourceEntry[] = [];
+
+        let dirents;
+        try {
+            dirents = await fs.readdir(dirPath, { withFileTypes: true });
+        } catch (error) {
+            throw this.toExtensionError(error, relativePath);
+        }
+
+        for (const dirent of dirents) {
+            if (dirent.name.startsWith('.') || (!dirent.isFile() && !dirent.isDirectory())) {
+                continue;
+            }
+
+            const entryPath = relativePath ? `${relativePath}/${dirent.name}` : dirent.name;
+            const fullPath = path.join(dirPath, dirent.name);
+
+            if (dirent.isDirectory()) {
+                entries.push({
+                    name: dirent.name,
+                    path: entryPath,
+                    type: 'dir',
+                    sha: '',
+                    size: 0,
+                    downloadUrl: vscode.Uri.file(fullPath).toString()
+                });
+                continue;
+            }
+
+            const content = await fs.readFile(fullPath);
+            entries.push({
+                name: dirent.name,
+                path: entryPath,
+                type: 'file',
+                sha: gitBlobSha(content),
+                size: content.length,
+                downloadUrl: vscode.Uri.file(fullPath).toString()
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Read a file from the registry folder
+     * @param relativePath File path relative to the registry folder
+     * @returns File content as string
+     */
+    async getRawFileContent(relativePath: string): Promise<string> {
+        try {
+            return await fs.readFile(this.resolve(relativePath), 'utf-8');
+        } catch (error) {
+            throw this.toExtensionError(error, relativePath);
+        }
+    }
+
+    /**
+     * Compute the git blob SHA of a file
+     * @param relativePath File path relative to the registry folder
+     * @returns Blob SHA matching what git would report for the file
+     */
+    async getBlobSha(relativePath: string): Promise<string> {
+        try {
+            return gitBlobSha(await fs.readFile(this.resolve(relativePath)));
+        } catch (error) {
+            throw this.toExtensionError(error, relativePath);
+        }
+    }
+
+    /**
+     * Watch the registry folder for document and category changes
+     * @param onChange Called (debounced) after files change
+     * @returns Disposable that stops watching
+     */
+    watch(onChange: () => void): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(this.rootPath), '**/*.{md,json}')
+        );
+        let timer: NodeJS.Timeout | undefined;
+
+        const schedule = () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(() => {
+                timer = undefined;
+                onChange();
+            }, this.debounceDelay);
+        };
+
+        watcher.onDidCreate(schedule);
+        watcher.onDidChange(schedule);
+        watcher.onDidDelete(schedule);
+
+        return new vscode.Disposable(() => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            watcher.dispose();
+        });
+    }
+
+    /**
+     * Resolve a registry-relative path, refusing paths outside the registry folder
+     * @param relativePath Path relative to the registry folder
+     * @returns Absolute path
+     */
+    private resolve(relativePath: string): string {
+        const fullPath = path.resolve(this.rootPath, relativePath);
+        const relative = path.relative(this.rootPath, fullPath);
+
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new ExtensionError(
+                `Path is outside the source folder: ${relativePath}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                false
+            );
+        }
+
+        return fullPath;
+    }
+
+    /**
+     * Map a file system error to an ExtensionError
+     * @param error Error thrown by fs
+     * @param relativePath Path that was being read
+     */
+    private toExtensionError(error: unknown, relativePath: string): ExtensionError {
+        if (error instanceof ExtensionError) {
+            return error;
+        }
+
+        const code = (error as NodeJS.ErrnoException)?.code;
+        if (code === 'ENOENT') {
+            return new ExtensionError(
+                `Resource not found in local folder: ${relativePath}`,
+                ErrorCode.NOT_FOUND,
+                false
+            );
+        }
+
+        return new ExtensionError(
+            `Failed to read ${relativePath} from local folder: ${error instanceof Error ? error.message : String(error)}`,
+            ErrorCode.FILE_SYSTEM_ERROR,
+            false
+        );
+    }
+}
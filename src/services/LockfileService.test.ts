@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LockfileService, LOCKFILE } from './LockfileService';
+import { ErrorCode, ExtensionError, LockedDocument } from '../models/types';
+
+/**
+ * Create a lockfile entry for a document of the default source
+ */
+function lockedDocument(remotePath: string, sha: string): LockedDocument {
+    return {
+        source: 'default',
+        repository: 'mikeartee/kiro-steering-docs',
+        ref: 'main',
+        path: remotePath,
+        sha,
+        version: '1.0.0',
+        inclusion: 'always'
+    };
+}
+
+suite('LockfileService Tests', () => {
+    let rootPath: string;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-lock-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('update should write documents sorted by local path and skip unchanged files', async () => {
+        const service = new LockfileService();
+
+        await service.update(rootPath, documents => {
+            delete documents['missing.md'];
+        });
+        await assert.rejects(fs.stat(path.join(rootPath, LOCKFILE)), 'An unchanged empty lockfile should not be created');
+
+        await service.update(rootPath, documents => {
+            documents['testing.md'] = lockedDocument('practices/testing.md', 'b'.repeat(40));
+            documents['agents/spec.md'] = lockedDocument('agents/spec.md', 'a'.repeat(40));
+        });
+
+        const content = await fs.readFile(path.join(rootPath, LOCKFILE), 'utf-8');
+        assert.ok(content.endsWith('}\n'));
+        const lockfile = JSON.parse(content);
+        assert.strictEqual(lockfile.lockfileVersion, 1);
+        assert.deepStrictEqual(Object.keys(lockfile.documents), ['agents/spec.md', 'testing.md']);
+        assert.deepStrictEqual(lockfile.documents['testing.md'], lockedDocument('practices/testing.md', 'b'.repeat(40)));
+
+        const { mtimeMs } = await fs.stat(path.join(rootPath, LOCKFILE));
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await service.update(rootPath, documents => {
+            documents['testing.md'].inclusion = 'always';
+        });
+        assert.strictEqual((await fs.stat(path.join(rootPath, LOCKFILE))).mtimeMs, mtimeMs);
+    });
+
+    test('concurrent updates should all be kept', async () => {
+        const service = new LockfileService();
+        const names = ['a.md', 'b.md', 'c.md', 'd.md'];
+
+        await Promise.all(names.map((name, index) => service.update(rootPath, documents => {
+            documents[name] = lockedDocument(name, String(index).repeat(40));
+        })));
+
+        assert.deepStrictEqual(Object.keys((await service.read(rootPath)).documents), names);
+    });
+
+    test('parse should reject unusable lockfiles and skip invalid entries', () => {
+        const service = new LockfileService();
+
+        assert.throws(
+            () => service.parse('{\n<<<<<<< HEAD\n'),
+            (error: ExtensionError) => error.code === ErrorCode.PARSE_ERROR && error.message.includes('merge conflicts')
+        );
+        assert.throws(() => service.parse(JSON.stringify({ lockfileVersion: 2, documents: {} })), /newer version/);
+
+        const documents: Record<string, unknown> = {};
+        documents['tech.md'] = lockedDocument('tech.md', 'c'.repeat(40));
+        documents['broken.md'] = { path: 'broken.md' };
+        const lockfile = service.parse(JSON.stringify({ lockfileVersion: 1, documents }));
+        assert.deepStrictEqual(Object.keys(lockfile.documents), ['tech.md']);
+    });
+});
@@ -0,0 +1,154 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { isErrnoException, writeFileAtomic } from '../utils/fileSystem';
+import { ErrorCode, ExtensionError, LockedDocument, SteeringLockfile } from '../models/types';
+
+/**
+ * Path of the steering directory, relative to the workspace root
+ */
+export const STEERING_DIR = '.kiro/steering';
+
+/**
+ * Path of the lockfile, relative to the workspace root
+ */
+export const LOCKFILE = '.kiro/steering.lock.json';
+
+/**
+ * Version of the lockfile layout written by this extension
+ */
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * Service reading and writing the steering lockfile, which records exactly which documents
+ * are installed in a workspace and where they were installed from
+ *
+ * The lockfile is meant to be committed, so documents are written sorted by local path with
+ * a fixed key order to keep diffs small. Changes are queued and each one replaces the file
+ * atomically, so concurrent installs don't lose each other's entries.
+ *
+ * Does not depend on the VS Code API
+ */
+export class LockfileService {
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Read the lockfile of a workspace
+     * @param workspaceRoot Workspace root
+     * @returns Lockfile content, with no documents if the file doesn't exist
+     */
+    async read(workspaceRoot: string): Promise<SteeringLockfile> {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(workspaceRoot, LOCKFILE), 'utf-8');
+        } catch (error) {
+            if (isErrnoException(error) && error.code === 'ENOENT') {
+                return { lockfileVersion: LOCKFILE_VERSION, documents: {} };
+            }
+            throw new ExtensionError(
+                `Failed to read ${LOCKFILE}: ${error instanceof Error ? error.message : error}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                false
+            );
+        }
+
+        return this.parse(content);
+    }
+
+    /**
+     * Parse the content of a lockfile
+     * Entries missing required fields are skipped
+     * @param content Raw content of the lockfile
+     * @returns Lockfile content
+     */
+    parse(content: string): SteeringLockfile {
+        let file: any;
+        try {
+            file = JSON.parse(content);
+        } catch (error) {
+            throw new ExtensionError(
+                `${LOCKFILE} is not valid JSON (resolve any merge conflicts first): ${error instanceof Error ? error.message : error}`,
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        const entries = file?.documents;
+        if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+            throw new ExtensionError(`${LOCKFILE} has no "documents" object`, ErrorCode.PARSE_ERROR, false);
+        }
+        if (typeof file.lockfileVersion === 'number' && file.lockfileVersion > LOCKFILE_VERSION) {
+            throw new ExtensionError(
+                `${LOCKFILE} was written by a newer version of the extension, please update it`,
+                ErrorCode.PARSE_ERROR,
+                false
+            );
+        }
+
+        const documents: Record<string, LockedDocument> = {};
+        for (const [localPath, entry] of Object.entries<any>(entries)) {
+            const valid = entry && typeof entry === 'object'
+                && ['source', 'repository', 'ref', 'path', 'sha', 'version'].every(field => typeof entry[field] === 'string');
+            if (valid) {
+                documents[localPath] = entry;
+            } else {
+                console.warn(`Ignoring invalid ${LOCKFILE} entry "${localPath}"`);
+            }
+        }
+
+        return { lockfileVersion: LOCKFILE_VERSION, documents };
+    }
+
+    /**
+     * Serialize a lockfile
+     * @param lockfile Lockfile content
+     * @returns JSON with documents sorted by local path and a trailing newline
+     */
+    stringify(lockfile: SteeringLockfile): string {
+        const documents: Record<string, LockedDocument> = {};
+        for (const localPath of Object.keys(lockfile.documents).sort()) {
+            const entry = lockfile.documents[localPath];
+            documents[localPath] = {
+                source: entry.source,
+                repository: entry.repository,
+                ref: entry.ref,
+                path: entry.path,
+                sha: entry.sha,
+                version: entry.version,
+                inclusion: entry.inclusion,
+                fileMatchPattern: entry.fileMatchPattern,
+                contentSha: entry.contentSha
+            };
+        }
+
+        return JSON.stringify({ lockfileVersion: lockfile.lockfileVersion, documents }, null, 2) + '\n';
+    }
+
+    /**
+     * Change the documents recorded in a workspace's lockfile
+     * Each change is applied to the file as left by the previous one and written atomically;
+     * the file isn't written when the change leaves it as it was
+     * @param workspaceRoot Workspace root
+     * @param change Modifies the documents, keyed by local path, in place
+     */
+    update(workspaceRoot: string, change: (documents: Record<string, LockedDocument>) => void): Promise<void> {
+        const result = this.writing.then(async () => {
+            const lockfile = await this.read(workspaceRoot);
+            const before = this.stringify(lockfile);
+            change(lockfile.documents);
+
+            // Leave the file alone (or missing) when nothing changed
+            const after = this.stringify(lockfile);
+            if (after === before) {
+                return;
+            }
+
+            const filePath = path.join(workspaceRoot, LOCKFILE);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await writeFileAtomic(filePath, after);
+        });
+
+        // A failed change is reported to its caller only, later changes still run
+        this.writing = result.catch(() => undefined);
+        return result;
+    }
+}
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentService } from './DocumentService';
+import { GitHubClient } from './GitHubClient';
+import { CacheManager } from './CacheManager';
+import { FrontmatterService } from './FrontmatterService';
+import { LockfileService, STEERING_DIR } from './LockfileService';
+import { LockfileSyncService } from './LockfileSyncService';
+import { ErrorCode, ExtensionError, LockedDocument } from '../models/types';
+import { gitBlobSha } from '../utils/gitHash';
+
+suite('LockfileSyncService Tests', () => {
+    const blobs = new Map<string, string>();
+    let rootPath: string;
+    let documentService: DocumentService;
+    let syncService: LockfileSyncService;
+
+    /**
+     * Add an upstream blob and return its SHA
+     */
+    const addBlob = (content: string): string => {
+        const sha = gitBlobSha(content);
+        blobs.set(sha, content);
+        return sha;
+    };
+
+    /**
+     * Create a lockfile entry for a document of the default source
+     */
+    const lockedDocument = (remotePath: string, sha: string): LockedDocument => ({
+        source: 'default',
+        repository: 'test/repo',
+        ref: 'main',
+        path: remotePath,
+        sha,
+        version: '1.0.0',
+        inclusion: 'manual'
+    });
+
+    /**
+     * Write a file to the steering directory
+     */
+    const writeSteering = async (localPath: string, content: string): Promise<void> => {
+        const filePath = path.join(rootPath, STEERING_DIR, localPath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content);
+    };
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-sync-'));
+        blobs.clear();
+
+        const client = new GitHubClient('test/repo', 'main');
+        (client as any).getBlobContent = async (sha: string) => {
+            const content = blobs.get(sha);
+            if (content === undefined) {
+                throw new ExtensionError('Blob not found', ErrorCode.NOT_FOUND, false);
+            }
+            return content;
+        };
+
+        const memento: vscode.Memento = {
+            keys: () => [],
+            get: <T>(_key: string): T | undefined => undefined,
+            update: async (_key: string, _value: any): Promise<void> => {}
+        };
+        const frontmatterService = new FrontmatterService();
+        documentService = new DocumentService(client, new CacheManager(memento), frontmatterService);
+        syncService = new LockfileSyncService(documentService, frontmatterService);
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('plan and apply should install locked versions and keep local changes unless confirmed', async () => {
+        const techV1 = addBlob('---\nversion: "1.0.0"\n---\n# Tech v1\n');
+        const techV2 = addBlob('---\nversion: "2.0.0"\n---\n# Tech v2\n');
+        const spec = addBlob('# Spec\n');
+        const old = addBlob('# Old\n');
+
+        await new LockfileService().update(rootPath, documents => {
+            documents['tech.md'] = lockedDocument('tech.md', techV2);
+            documents['agents/spec.md'] = lockedDocument('agents/spec.md', spec);
+            documents['gone.md'] = lockedDocument('gone.md', 'f'.repeat(40));
+        });
+
+        // tech.md is installed unchanged at v1, old.md was edited after it was installed
+        await writeSteering('tech.md', documentService.renderDocumentContent(blobs.get(techV1)!, { sha: techV1 }, 'manual'));
+        await writeSteering('old.md', documentService.renderDocumentContent(blobs.get(old)!, { sha: old }) + 'Local notes\n');
+        await writeSteering('notes.md', '# Written by hand\n');
+
+        const plan = await syncService.plan(rootPath);
+
+        assert.deepStrictEqual(
+            plan.changes.map(change => [change.action, change.localPath, change.modified]),
+            [['add', 'agents/spec.md', false], ['update', 'tech.md', false], ['remove', 'old.md', true]]
+        );
+        assert.deepStrictEqual(plan.skipped.map(skipped => skipped.localPath), ['gone.md']);
+
+        const report = await syncService.apply(rootPath, plan, { overwriteModified: false, removeUnlocked: true });
+
+        assert.deepStrictEqual(report.added, ['agents/spec.md']);
+        assert.deepStrictEqual(report.updated, ['tech.md']);
+        assert.deepStrictEqual(report.removed, []);
+        assert.deepStrictEqual(report.skipped.map(skipped => skipped.localPath), ['gone.md', 'old.md']);
+
+        const tech = await fs.readFile(path.join(rootPath, STEERING_DIR, 'tech.md'), 'utf-8');
+        assert.match(tech, /# Tech v2/);
+        assert.match(tech, /inclusion: manual/);
+        assert.match(tech, new RegExp(`sha: ${techV2}`));
+        assert.ok(await fs.readFile(path.join(rootPath, STEERING_DIR, 'notes.md'), 'utf-8'), 'Documents without a tracking SHA are left alone');
+
+        // A second sync has nothing left to do but the removal, which needs both confirmations
+        const next = await syncService.plan(rootPath);
+        assert.strictEqual(next.unchanged, 2);
+        assert.deepStrictEqual(next.changes.map(change => change.localPath), ['old.md']);
+        const kept = await syncService.apply(rootPath, next, { overwriteModified: true, removeUnlocked: false });
+        assert.deepStrictEqual(kept.removed, []);
+        assert.deepStrictEqual(kept.skipped.map(skipped => skipped.localPath), ['gone.md', 'old.md']);
+        assert.deepStrictEqual(
+            (await syncService.apply(rootPath, next, { overwriteModified: true, removeUnlocked: true })).removed,
+            ['old.md']
+        );
+    });
+
+    test('plan should refuse to sync without a lockfile', async () => {
+        await writeSteering('tech.md', documentService.renderDocumentContent('# Tech\n', { sha: 'a'.repeat(40) }));
+
+        await assert.rejects(
+            () => syncService.plan(rootPath),
+            (error: ExtensionError) => error.code === ErrorCode.NOT_FOUND && /No \.kiro\/steering\.lock\.json/.test(error.message)
+        );
+        assert.ok(await fs.readFile(path.join(rootPath, STEERING_DIR, 'tech.md'), 'utf-8'), 'Installed documents are kept');
+    });
+});
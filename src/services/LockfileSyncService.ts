@@ -0,0 +1,305 @@
+import * as fs from 'fs/promises';
+import { Dirent } from 'fs';
+import * as path from 'path';
+import { DocumentService } from './DocumentService';
+import { FrontmatterService } from './FrontmatterService';
+import { LOCKFILE, LockfileService, STEERING_DIR } from './LockfileService';
+import { ErrorCode, ExtensionError, LockedDocument, SyncOptions, SyncPlan, SyncReport } from '../models/types';
+import { isErrnoException } from '../utils/fileSystem';
+import { textBlobSha } from '../utils/gitHash';
+
+/**
+ * Service bringing the steering directory in line with the lockfile, so everyone working in a
+ * repository gets the same documents, versions and inclusion modes
+ *
+ * Documents are fetched at their locked blob SHA rather than the branch head. Syncing is planned
+ * first and applied separately, so local edits can be confirmed before they are overwritten.
+ */
+export class LockfileSyncService {
+    /**
+     * @param documentService Service fetching and rendering document content
+     * @param frontmatterService Service parsing the frontmatter of local documents
+     * @param lockfileService Service reading the lockfile
+     */
+    constructor(
+        private readonly documentService: DocumentService,
+        private readonly frontmatterService: FrontmatterService,
+        private readonly lockfileService: LockfileService = new LockfileService()
+    ) {}
+
+    /**
+     * Work out which local documents have to be added, updated or removed to match the lockfile
+     * Documents installed by the extension but missing from the lockfile are planned for removal,
+     * which is only applied when confirmed since they may have been installed before the lockfile;
+     * documents written by hand have no tracking SHA and are left alone
+     * @param workspaceRoot Workspace root
+     * @returns Changes to apply and locked documents that can't be synced
+     * @throws NOT_FOUND if the workspace has no lockfile
+     */
+    async plan(workspaceRoot: string): Promise<SyncPlan> {
+        // A missing lockfile reads as an empty one, which would remove every installed document
+        try {
+            await fs.access(path.join(workspaceRoot, LOCKFILE));
+        } catch {
+            throw new ExtensionError(`No ${LOCKFILE} to sync from`, ErrorCode.NOT_FOUND, false);
+        }
+
+        const { documents } = await this.lockfileService.read(workspaceRoot);
+        const steeringDir = path.join(workspaceRoot, STEERING_DIR);
+        const plan: SyncPlan = { changes: [], skipped: [], unchanged: 0 };
+
+        for (const [localPath, entry] of Object.entries(documents)) {
+            if (!this.isInSteeringDir(localPath)) {
+                plan.skipped.push({ localPath, reason: `Path in ${LOCKFILE} is outside the steering directory` });
+                continue;
+            }
+
+            let content: string;
+            try {
+                content = await this.renderLocked(entry);
+            } catch (error) {
+                plan.skipped.push({ localPath, reason: error instanceof Error ? error.message : String(error) });
+                continue;
+            }
+
+            const current = await this.readDocument(path.join(steeringDir, localPath));
+            if (current === undefined) {
+                plan.changes.push({ action: 'add', localPath, content, modified: false });
+            } else if (this.isSameDocument(current, content)) {
+                plan.unchanged++;
+            } else {
+                const modified = await this.isModified(current, entry);
+                plan.changes.push({ action: 'update', localPath, content, modified });
+            }
+        }
+
+        for (const localPath of await this.listDocuments(steeringDir)) {
+            if (documents[localPath]) {
+                continue;
+            }
+
+            const current = await this.readDocument(path.join(steeringDir, localPath));
+            const { frontmatter } = this.frontmatterService.parse(current ?? '');
+            if (typeof frontmatter.sha !== 'string') {
+                continue;
+            }
+
+            // Secondary source documents live in a folder named after the source
+            const source = typeof frontmatter.source === 'string' ? frontmatter.source : undefined;
+            const remotePath = source && localPath.startsWith(`${source}/`)
+                ? localPath.substring(source.length + 1)
+                : localPath;
+            const modified = await this.isModified(current!, {
+                source: source ?? this.documentService.getSources()[0]?.id ?? '',
+                repository: '',
+                ref: '',
+                path: remotePath,
+                sha: frontmatter.sha,
+                version: ''
+            });
+            plan.changes.push({ action: 'remove', localPath, modified });
+        }
+
+        return plan;
+    }
+
+    /**
+     * Apply a sync plan to the steering directory
+     * The lockfile itself isn't changed
+     * @param workspaceRoot Workspace root
+     * @param plan Plan returned by plan()
+     * @param options Whether documents with local changes and documents missing from the lockfile may be changed
+     * @returns What was added, updated, removed and skipped
+     */
+    async apply(workspaceRoot: string, plan: SyncPlan, options: SyncOptions): Promise<SyncReport> {
+        const steeringDir = path.join(workspaceRoot, STEERING_DIR);
+        const report: SyncReport = {
+            added: [],
+            updated: [],
+            removed: [],
+            skipped: [...plan.skipped],
+            unchanged: plan.unchanged
+        };
+
+        for (const change of plan.changes) {
+            if (change.modified && !options.overwriteModified) {
+                report.skipped.push({ localPath: change.localPath, reason: 'Has local changes' });
+                continue;
+            }
+            if (change.action === 'remove' && !options.removeUnlocked) {
+                report.skipped.push({ localPath: change.localPath, reason: `Not in ${LOCKFILE}, kept` });
+                continue;
+            }
+
+            const filePath = path.join(steeringDir, change.localPath);
+            try {
+                if (change.action === 'remove') {
+                    await fs.rm(filePath, { force: true });
+                    report.removed.push(change.localPath);
+                    continue;
+                }
+
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(filePath, change.content ?? '', 'utf-8');
+                (change.action === 'add' ? report.added : report.updated).push(change.localPath);
+            } catch (error) {
+                report.skipped.push({
+                    localPath: change.localPath,
+                    reason: `Failed to write: ${error instanceof Error ? error.message : error}`
+                });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Format a sync report as markdown
+     * @param report Outcome of a sync
+     * @returns Markdown report listing every document by outcome
+     */
+    formatReport(report: SyncReport): string {
+        const lines = [
+            '# Steering Sync Report',
+            '',
+            `${report.added.length} added, ${report.updated.length} updated, ${report.removed.length} removed, `
+                + `${report.skipped.length} skipped, ${report.unchanged} already up to date.`
+        ];
+
+        const sections: [string, string[]][] = [
+            ['Added', report.added],
+            ['Updated', report.updated],
+            ['Removed', report.removed]
+        ];
+        for (const [title, paths] of sections) {
+            if (paths.length > 0) {
+                lines.push('', `## ${title}`, '', ...paths.map(localPath => `- ${localPath}`));
+            }
+        }
+
+        if (report.skipped.length > 0) {
+            lines.push('', '## Skipped', '', '| Document | Reason |', '| --- | --- |');
+            for (const skipped of report.skipped) {
+                lines.push(`| ${skipped.localPath} | ${skipped.reason} |`);
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Fetch a locked document and render it the way installing it would
+     * @param entry Lockfile entry
+     * @returns Content to write to the steering directory
+     */
+    private async renderLocked(entry: LockedDocument): Promise<string> {
+        return this.documentService.renderDocumentContent(
+            await this.documentService.fetchLockedContent(entry),
+            { sha: entry.sha, source: entry.source },
+            entry.inclusion,
+            entry.fileMatchPattern
+        );
+    }
+
+    /**
+     * Check whether a local document was edited after it was installed
+     * Documents matching the content hash recorded in the lockfile are unedited; otherwise the
+     * document is compared with the version its frontmatter SHA refers to, rendered with its
+     * current inclusion mode, and documents whose installed version can't be fetched count as edited
+     * @param current Content of the local document
+     * @param entry Lockfile entry of the document (its SHA is replaced by the installed one)
+     * @returns True if syncing would discard local changes
+     */
+    private async isModified(current: string, entry: LockedDocument): Promise<boolean> {
+        if (entry.contentSha === textBlobSha(current)) {
+            return false;
+        }
+
+        const { frontmatter } = this.frontmatterService.parse(current);
+        if (typeof frontmatter.sha !== 'string') {
+            return true;
+        }
+
+        try {
+            const installed = await this.renderLocked({
+                ...entry,
+                sha: frontmatter.sha,
+                inclusion: frontmatter.inclusion,
+                fileMatchPattern: frontmatter.fileMatchPattern
+            });
+            return !this.isSameDocument(current, installed);
+        } catch {
+            return true;
+        }
+    }
+
+    /**
+     * Compare two documents, ignoring the order and formatting of frontmatter keys
+     * @param first Document content
+     * @param second Document content
+     * @returns True if both have the same frontmatter values and body
+     */
+    private isSameDocument(first: string, second: string): boolean {
+        const normalize = (content: string): string => {
+            const { frontmatter, body } = this.frontmatterService.parse(content);
+            const sorted: Record<string, any> = {};
+            for (const key of Object.keys(frontmatter).sort()) {
+                sorted[key] = frontmatter[key];
+            }
+            return `${JSON.stringify(sorted)}\n${body}`;
+        };
+
+        return first === second || normalize(first) === normalize(second);
+    }
+
+    /**
+     * Check that a lockfile path stays inside the steering directory
+     * @param localPath Path relative to the steering directory
+     */
+    private isInSteeringDir(localPath: string): boolean {
+        const normalized = path.posix.normalize(localPath.replace(/\\/g, '/'));
+        return !path.isAbsolute(localPath) && !normalized.startsWith('../') && normalized !== '..';
+    }
+
+    /**
+     * Read a local document
+     * @param filePath Absolute file path
+     * @returns Content, or undefined if the file doesn't exist
+     */
+    private async readDocument(filePath: string): Promise<string | undefined> {
+        try {
+            return await fs.readFile(filePath, 'utf-8');
+        } catch (error) {
+            if (isErrnoException(error) && error.code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * List the markdown documents of the steering directory
+     * @param steeringDir Absolute path of the steering directory
+     * @param relativeDir Directory being listed, relative to the steering directory
+     * @returns Paths relative to the steering directory, with forward slashes
+     */
+    private async listDocuments(steeringDir: string, relativeDir: string = ''): Promise<string[]> {
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(path.join(steeringDir, relativeDir), { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        const documents: string[] = [];
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                documents.push(...await this.listDocuments(steeringDir, relativePath));
+            } else if (entry.isFile() && entry.name.endsWith('.md')) {
+                documents.push(relativePath);
+            }
+        }
+        return documents;
+    }
+}
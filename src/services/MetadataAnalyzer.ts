@@ -1,117 +1,12 @@
-import { AnalysisContext, RecommendationMetadata, ProjectType } from '../models/types';
-
-/**
- * Metadata mapping rules for language documents
- */
-const LANGUAGE_RULES: Record<string, RecommendationMetadata> = {
-  'javascript': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER],
-    filePatterns: ['**/*.js', '**/*.mjs', '**/*.cjs'],
-    enhancedTags: ['javascript', 'formatting', 'code-generation']
-  },
-  'typescript': {
-    requiredDependencies: ['typescript'],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER, ProjectType.VSCODE_EXTENSION],
-    filePatterns: ['**/*.ts', '**/*.tsx'],
-    enhancedTags: ['typescript', 'formatting', 'code-generation']
-  },
-  'python': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER],
-    filePatterns: ['**/*.py'],
-    enhancedTags: ['python', 'formatting', 'code-generation']
-  },
-  'bash': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.CLI_TOOL],
-    filePatterns: ['**/*.sh', '**/*.bash'],
-    enhancedTags: ['bash', 'shell', 'scripting']
-  },
-  'css': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP],
-    filePatterns: ['**/*.css', '**/*.scss', '**/*.sass'],
-    enhancedTags: ['css', 'styling', 'formatting']
-  },
-  'json': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER, ProjectType.VSCODE_EXTENSION],
-    filePatterns: ['**/*.json'],
-    enhancedTags: ['json', 'data-format', 'formatting']
-  }
-};
-
-/**
- * Metadata mapping rules for framework documents
- */
-const FRAMEWORK_RULES: Record<string, RecommendationMetadata> = {
-  'react': {
-    requiredDependencies: ['react'],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY],
-    filePatterns: ['components/**/*.jsx', 'components/**/*.tsx', 'src/components/**/*'],
-    enhancedTags: ['react', 'components', 'best-practices']
-  },
-  'vue': {
-    requiredDependencies: ['vue'],
-    applicableTo: [ProjectType.WEB_APP],
-    filePatterns: ['components/**/*.vue', 'src/components/**/*.vue'],
-    enhancedTags: ['vue', 'components', 'best-practices']
-  },
-  'express': {
-    requiredDependencies: ['express'],
-    applicableTo: [ProjectType.API_SERVER],
-    filePatterns: ['routes/**/*.js', 'routes/**/*.ts', 'api/**/*'],
-    enhancedTags: ['express', 'nodejs', 'api', 'best-practices']
-  },
-  'fastapi': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.API_SERVER],
-    filePatterns: ['routes/**/*.py', 'api/**/*.py'],
-    enhancedTags: ['fastapi', 'python', 'api', 'best-practices']
-  },
-  'django': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.API_SERVER],
-    filePatterns: ['views/**/*.py', 'models/**/*.py', 'urls.py'],
-    enhancedTags: ['django', 'python', 'web', 'best-practices']
-  }
-};
-
-/**
- * Metadata mapping rules for practice documents
- */
-const PRACTICE_RULES: Record<string, RecommendationMetadata> = {
-  'testing': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER, ProjectType.VSCODE_EXTENSION],
-    filePatterns: ['**/*.test.ts', '**/*.test.js', '**/*.spec.ts', '**/*.spec.js', 'tests/**/*'],
-    enhancedTags: ['testing', 'best-practices', 'quality']
-  },
-  'security': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER],
-    filePatterns: [],
-    enhancedTags: ['security', 'best-practices']
-  },
-  'codeQuality': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER, ProjectType.VSCODE_EXTENSION],
-    filePatterns: [],
-    enhancedTags: ['code-quality', 'best-practices']
-  },
-  'gitWorkflow': {
-    requiredDependencies: [],
-    applicableTo: [ProjectType.WEB_APP, ProjectType.LIBRARY, ProjectType.CLI_TOOL, ProjectType.API_SERVER, ProjectType.VSCODE_EXTENSION],
-    filePatterns: [],
-    enhancedTags: ['git', 'workflow', 'best-practices']
-  }
-};
+import { AnalysisContext, RecommendationMetadata, ProjectType, SteeringRule, SteeringRules } from '../models/types';
+import { SteeringRulesService } from './SteeringRulesService';
 
 /**
  * Service for analyzing documents to determine appropriate recommendation metadata
  */
 export class MetadataAnalyzer {
+  constructor(private readonly rulesService: SteeringRulesService = new SteeringRulesService()) {}
+
   /**
    * Analyzes a document to determine appropriate recommendation metadata
    * @param context - Analysis context with document information
@@ -152,10 +47,9 @@ export class MetadataAnalyzer {
     const fileName = context.documentPath.toLowerCase();
     
     // Detect language from file path
-    for (const [language, rules] of Object.entries(LANGUAGE_RULES)) {
-      if (fileName.includes(language)) {
-        return { ...rules };
-      }
+    const match = this.rulesService.findRule('languages', fileName);
+    if (match) {
+      return this.toMetadata(match.rule);
     }
 
     // Default for unrecognized language documents
@@ -175,10 +69,9 @@ export class MetadataAnalyzer {
     const bodyLower = context.bodyContent.toLowerCase();
     
     // Detect framework from file path and content
-    for (const [framework, rules] of Object.entries(FRAMEWORK_RULES)) {
-      if (fileName.includes(framework) || bodyLower.includes(framework)) {
-        return { ...rules };
-      }
+    const match = this.rulesService.findRule('frameworks', fileName, bodyLower);
+    if (match) {
+      return this.toMetadata(match.rule);
     }
 
     // Default for unrecognized framework documents
@@ -198,10 +91,9 @@ export class MetadataAnalyzer {
     const subcategory = context.subcategory?.toLowerCase() || '';
     
     // Detect practice category from file path and subcategory
-    for (const [practice, rules] of Object.entries(PRACTICE_RULES)) {
-      if (fileName.includes(practice) || subcategory.includes(practice)) {
-        return { ...rules };
-      }
+    const match = this.rulesService.findRule('practices', fileName, subcategory);
+    if (match) {
+      return this.toMetadata(match.rule);
     }
 
     // Default for unrecognized practice documents
@@ -232,59 +124,28 @@ export class MetadataAnalyzer {
       tags.add('automation');
     }
 
-    // Add language tags
-    if (fileName.includes('javascript')) {
-      tags.add('javascript');
-    } else if (fileName.includes('typescript')) {
-      tags.add('typescript');
-    } else if (fileName.includes('python')) {
-      tags.add('python');
-    } else if (fileName.includes('css')) {
-      tags.add('css');
-      tags.add('styling');
-    } else if (fileName.includes('json')) {
-      tags.add('json');
-      tags.add('data-format');
-    } else if (fileName.includes('bash') || fileName.includes('shell')) {
-      tags.add('bash');
-      tags.add('shell');
-      tags.add('scripting');
-    }
-
-    // Add framework tags
-    if (fileName.includes('react')) {
-      tags.add('react');
-      tags.add('components');
-    } else if (fileName.includes('vue')) {
-      tags.add('vue');
-      tags.add('components');
-    } else if (fileName.includes('express')) {
-      tags.add('express');
-      tags.add('nodejs');
-      tags.add('api');
-    } else if (fileName.includes('django')) {
-      tags.add('django');
-      tags.add('web');
-    } else if (fileName.includes('fastapi')) {
-      tags.add('fastapi');
-      tags.add('api');
-    }
-
-    // Add practice tags
-    if (fileName.includes('testing') || fileName.includes('test')) {
-      tags.add('testing');
-      tags.add('quality');
-    } else if (fileName.includes('security')) {
-      tags.add('security');
-    } else if (fileName.includes('code-quality') || fileName.includes('quality')) {
-      tags.add('code-quality');
-      tags.add('quality');
-    } else if (fileName.includes('git') || fileName.includes('workflow')) {
-      tags.add('git');
-      tags.add('workflow');
+    // Add the tags of the language, framework and practice named in the file path
+    const groups: Array<keyof SteeringRules> = ['languages', 'frameworks', 'practices'];
+    for (const group of groups) {
+      for (const tag of this.rulesService.findRule(group, fileName)?.rule.enhancedTags ?? []) {
+        tags.add(tag);
+      }
     }
 
     return Array.from(tags);
   }
-}
 
+  /**
+   * Extracts the recommendation metadata of a rule
+   * @param rule - Language, framework or practice rule
+   * @returns Copy of the rule's metadata fields
+   */
+  private toMetadata(rule: SteeringRule): RecommendationMetadata {
+    return {
+      requiredDependencies: rule.requiredDependencies ? [...rule.requiredDependencies] : [],
+      applicableTo: rule.applicableTo ? [...rule.applicableTo] : [],
+      filePatterns: rule.filePatterns ? [...rule.filePatterns] : [],
+      enhancedTags: rule.enhancedTags ? [...rule.enhancedTags] : []
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubClient } from './GitHubClient';
+import { getProxyUrl } from './ProxyAgent';
+import { ErrorCode, ExtensionError, NetworkSettings } from '../models/types';
+import { STUB_CERTIFICATE, startHttpStub, startHttpsStub, startProxyStub } from '../test/httpStub';
+
+function createSettings(overrides: Partial<NetworkSettings> = {}): NetworkSettings {
+    return { noProxy: [], strictSSL: true, caCertificates: [], ...overrides };
+}
+
+suite('ProxyAgent Tests', () => {
+    let certificatePath: string;
+
+    suiteSetup(async () => {
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-ca-'));
+        certificatePath = path.join(folder, 'proxy-ca.pem');
+        await fs.writeFile(certificatePath, STUB_CERTIFICATE);
+    });
+
+    suiteTeardown(async () => {
+        await fs.rm(path.dirname(certificatePath), { recursive: true, force: true });
+    });
+
+    test('Plain http requests should go through the proxy with its credentials', async () => {
+        const target = await startHttpStub(() => ({ body: [] }));
+        const proxy = await startProxyStub(`Basic ${Buffer.from('alice:s3cret').toString('base64')}`);
+
+        try {
+            const proxyUrl = proxy.url.replace('http://', 'http://alice:s3cret@');
+            const client = new GitHubClient('test/repo', 'main', 'token', {
+                apiBaseUrl: target.url,
+                network: () => createSettings({ proxy: proxyUrl })
+            });
+
+            await client.getRepositoryContents('testing');
+
+            assert.deepStrictEqual(proxy.requests.map(request => request.url), [`${target.url}/repos/test/repo/contents/testing?ref=main`]);
+            assert.strictEqual(target.requests.length, 1);
+            assert.strictEqual(target.requests[0].headers['authorization'], 'Bearer token');
+            assert.strictEqual(target.requests[0].headers['proxy-authorization'], undefined,
+                'Proxy credentials should not reach the target');
+        } finally {
+            await proxy.close();
+            await target.close();
+        }
+    });
+
+    test('HTTPS requests should be tunneled with CONNECT and trust extra CA certificates', async () => {
+        const target = await startHttpsStub(() => ({ body: [] }));
+        const proxy = await startProxyStub();
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: target.url,
+                network: () => createSettings({ proxy: proxy.url, caCertificates: [certificatePath] })
+            });
+
+            await client.getRepositoryContents('testing');
+
+            assert.deepStrictEqual(proxy.requests.map(request => [request.method, request.url]), [
+                ['CONNECT', target.url.replace('https://', '')]
+            ]);
+            assert.strictEqual(target.requests.length, 1);
+        } finally {
+            await proxy.close();
+            await target.close();
+        }
+    });
+
+    test('Untrusted certificates should raise a TLS error without retrying', async () => {
+        const target = await startHttpsStub(() => ({ body: [] }));
+        const proxy = await startProxyStub();
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: target.url,
+                network: () => createSettings({ proxy: proxy.url })
+            });
+
+            await assert.rejects(
+                () => client.getRepositoryContents('testing'),
+                (error: unknown) => error instanceof ExtensionError &&
+                    error.code === ErrorCode.TLS_ERROR &&
+                    /caCertificates/.test(error.message)
+            );
+            assert.strictEqual(proxy.requests.length, 1);
+        } finally {
+            await proxy.close();
+            await target.close();
+        }
+    });
+
+    test('A proxy that rejects the credentials should raise a non-recoverable error', async () => {
+        const target = await startHttpsStub(() => ({ body: [] }));
+        const proxy = await startProxyStub('Basic expected');
+
+        try {
+            const client = new GitHubClient('test/repo', 'main', undefined, {
+                apiBaseUrl: target.url,
+                network: () => createSettings({ proxy: proxy.url, caCertificates: [certificatePath] })
+            });
+
+            await assert.rejects(
+                () => client.getRepositoryContents('testing'),
+                (error: unknown) => error instanceof ExtensionError &&
+                    error.code === ErrorCode.NETWORK_ERROR &&
+                    !error.recoverable &&
+                    /authentication/.test(error.message)
+            );
+            assert.strictEqual(target.requests.length, 0);
+        } finally {
+            await proxy.close();
+            await target.close();
+        }
+    });
+
+    test('getProxyUrl should honor the no-proxy list', () => {
+        const settings = createSettings({ proxy: 'proxy.example.com:3128', noProxy: ['.internal.example.com', 'localhost:8080'] });
+
+        assert.strictEqual(getProxyUrl(new URL('https://api.github.com'), settings)?.href, 'http://proxy.example.com:3128/');
+        assert.strictEqual(getProxyUrl(new URL('https://git.internal.example.com'), settings), undefined);
+        assert.strictEqual(getProxyUrl(new URL('http://localhost:8080/api'), settings), undefined);
+        assert.strictEqual(getProxyUrl(new URL('https://github.com'), createSettings()), undefined);
+    });
+});
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Duplex } from 'stream';
+import { urlToHttpOptions } from 'url';
+import { ErrorCode, ExtensionError, NetworkSettings } from '../models/types';
+
+/**
+ * TLS errors raised when a certificate doesn't chain to a trusted root,
+ * which is what a TLS-intercepting proxy looks like to the client
+ */
+const TLS_INTERCEPTION_ERRORS = new Set([
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'CERT_UNTRUSTED',
+    'ERR_TLS_CERT_ALTNAME_INVALID'
+]);
+
+/**
+ * How a request reaches its target
+ */
+export interface RequestRoute {
+    transport: typeof http | typeof https;
+    // Connection options: the target itself, or the proxy with the full target URL as the path
+    options: https.RequestOptions;
+    // Headers to add to the request, such as Proxy-Authorization
+    headers: Record<string, string>;
+}
+
+/**
+ * HTTPS agent that opens connections through an HTTP CONNECT tunnel
+ */
+class TunnelingAgent extends https.Agent {
+    /**
+     * @param proxy Proxy URL
+     * @param proxyAuthorization Proxy-Authorization header value, if the proxy needs credentials
+     * @param options TLS options for the connection to the target
+     */
+    constructor(
+        private readonly proxy: URL,
+        private readonly proxyAuthorization: string | undefined,
+        options: https.AgentOptions
+    ) {
+        super(options);
+    }
+
+    /**
+     * Open a tunnel to the target through the proxy and start TLS inside it
+     * @param options Connection details of the target
+     * @param callback Receives the TLS socket, or the error that prevented the tunnel
+     * @returns Nothing - the socket is passed to the callback once the tunnel is open
+     */
+    createConnection(
+        options: https.RequestOptions,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex | null | undefined {
+        const host = options.host || options.hostname || 'localhost';
+        const authority = `${host}:${options.port || 443}`;
+        const headers: Record<string, string> = { Host: authority };
+        if (this.proxyAuthorization) {
+            headers['Proxy-Authorization'] = this.proxyAuthorization;
+        }
+
+        const transport = this.proxy.protocol === 'https:' ? https : http;
+        const request = transport.request({
+            host: this.proxy.hostname,
+            port: this.proxy.port || (this.proxy.protocol === 'https:' ? 443 : 80),
+            method: 'CONNECT',
+            path: authority,
+            headers,
+            timeout: options.timeout
+        });
+
+        request.once('connect', (response, socket) => {
+            if (response.statusCode !== 200) {
+                socket.destroy();
+                callback?.(createProxyError(response.statusCode || 0), socket);
+                return;
+            }
+
+            const secureSocket = tls.connect({
+                ...(options as tls.ConnectionOptions),
+                socket,
+                // SNI only carries host names, not IP addresses
+                servername: options.servername || (net.isIP(host) ? undefined : host)
+            });
+            callback?.(null, secureSocket);
+        });
+        request.once('timeout', () => request.destroy(new Error(`Proxy ${this.proxy.host} did not respond`)));
+        request.once('error', error => callback?.(error, request.socket as Duplex));
+        request.end();
+
+        return undefined;
+    }
+}
+
+/**
+ * Agents by connection settings, shared by all clients
+ */
+const agents = new Map<string, http.Agent>();
+
+/**
+ * Work out how a request should be sent under the given network settings
+ * @param url Target URL
+ * @param settings Proxy and TLS settings, or undefined for a direct connection
+ * @returns Transport, agent and extra headers for the request
+ */
+export function getRequestRoute(url: string, settings?: NetworkSettings): RequestRoute {
+    const target = new URL(url);
+    const secure = target.protocol === 'https:';
+    const transport = secure ? https : http;
+    const direct: RequestRoute = { transport, options: urlToHttpOptions(target), headers: {} };
+
+    if (!settings) {
+        return direct;
+    }
+
+    const proxy = getProxyUrl(target, settings);
+    const proxyAuthorization = proxy ? getProxyAuthorization(proxy, settings) : undefined;
+
+    if (!secure) {
+        if (!proxy) {
+            return direct;
+        }
+
+        // Plain http requests are sent to the proxy with the full target URL as the path
+        return {
+            transport: proxy.protocol === 'https:' ? https : http,
+            options: {
+                protocol: proxy.protocol,
+                hostname: proxy.hostname,
+                port: proxy.port,
+                path: target.href
+            },
+            headers: proxyAuthorization ? { 'Proxy-Authorization': proxyAuthorization } : {}
+        };
+    }
+
+    if (!proxy && settings.strictSSL && settings.caCertificates.length === 0) {
+        return direct;
+    }
+
+    const key = JSON.stringify([proxy?.href, proxyAuthorization, settings.strictSSL, settings.caCertificates]);
+    let agent = agents.get(key);
+    if (!agent) {
+        const options: https.AgentOptions = {
+            keepAlive: true,
+            rejectUnauthorized: settings.strictSSL,
+            ca: loadCertificates(settings.caCertificates)
+        };
+        agent = proxy ? new TunnelingAgent(proxy, proxyAuthorization, options) : new https.Agent(options);
+        agents.set(key, agent);
+    }
+
+    return { ...direct, options: { ...direct.options, agent } };
+}
+
+/**
+ * Find the proxy for a target, honoring the no-proxy list
+ * @param target Target URL
+ * @param settings Network settings
+ * @returns Proxy URL, or undefined to connect directly
+ */
+export function getProxyUrl(target: URL, settings: NetworkSettings): URL | undefined {
+    if (!settings.proxy) {
+        return undefined;
+    }
+
+    const hostname = target.hostname.toLowerCase();
+    const bypass = settings.noProxy.some(entry => {
+        const pattern = entry.trim().toLowerCase().replace(/:\d+$/, '');
+        if (pattern === '*') {
+            return true;
+        }
+        const domain = pattern.replace(/^\*?\./, '');
+        return domain !== '' && (hostname === domain || hostname.endsWith(`.${domain}`));
+    });
+    if (bypass) {
+        return undefined;
+    }
+
+    try {
+        return new URL(settings.proxy.includes('://') ? settings.proxy : `http://${settings.proxy}`);
+    } catch {
+        throw new ExtensionError(
+            `Invalid proxy URL: ${settings.proxy}`,
+            ErrorCode.NETWORK_ERROR,
+            false
+        );
+    }
+}
+
+/**
+ * Map a low-level request error to an ExtensionError
+ * Certificate errors get a dedicated message because they usually mean a proxy intercepts TLS
+ * @param error Error raised by the request
+ * @param target Description of the remote
+ * @returns ExtensionError describing the failure
+ */
+export function toNetworkError(error: NodeJS.ErrnoException, target: string): ExtensionError {
+    if (error instanceof ExtensionError) {
+        return error;
+    }
+
+    if (error.code && TLS_INTERCEPTION_ERRORS.has(error.code)) {
+        return new ExtensionError(
+            `The certificate presented for ${target} is not trusted (${error.code}). ` +
+            'If a proxy or security product inspects HTTPS traffic, add its CA certificate to steeringDocs.caCertificates, ' +
+            'or disable http.proxyStrictSSL',
+            ErrorCode.TLS_ERROR,
+            false
+        );
+    }
+
+    return new ExtensionError(
+        `Network error: ${error.message}`,
+        ErrorCode.NETWORK_ERROR,
+        true
+    );
+}
+
+/**
+ * Create the error for a proxy that refused to open a tunnel
+ * @param statusCode Status of the proxy's CONNECT response
+ * @returns ExtensionError describing the refusal
+ */
+function createProxyError(statusCode: number): ExtensionError {
+    if (statusCode === 407) {
+        return new ExtensionError(
+            'The proxy requires authentication. Add credentials to http.proxy or set http.proxyAuthorization',
+            ErrorCode.NETWORK_ERROR,
+            false
+        );
+    }
+
+    return new ExtensionError(
+        `The proxy refused the connection (HTTP ${statusCode})`,
+        ErrorCode.NETWORK_ERROR,
+        true
+    );
+}
+
+/**
+ * Build the Proxy-Authorization header
+ * @param proxy Proxy URL, possibly with credentials
+ * @param settings Network settings
+ * @returns Header value, or undefined if the proxy has no credentials
+ */
+function getProxyAuthorization(proxy: URL, settings: NetworkSettings): string | undefined {
+    if (settings.proxyAuthorization) {
+        return settings.proxyAuthorization;
+    }
+
+    if (!proxy.username) {
+        return undefined;
+    }
+
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Read extra CA bundles and combine them with the built-in root certificates
+ * @param paths Paths of PEM files
+ * @returns CA list for TLS options, or undefined to use the defaults
+ */
+function loadCertificates(paths: string[]): string[] | undefined {
+    if (paths.length === 0) {
+        return undefined;
+    }
+
+    const certificates = [...tls.rootCertificates];
+    for (const path of paths) {
+        try {
+            certificates.push(fs.readFileSync(path, 'utf8'));
+        } catch (error) {
+            throw new ExtensionError(
+                `Failed to read CA certificate ${path}: ${error instanceof Error ? error.message : error}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                false
+            );
+        }
+    }
+
+    return certificates;
+}
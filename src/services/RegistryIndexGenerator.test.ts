@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RegistryIndexGenerator } from './RegistryIndexGenerator';
+import { RegistryIndexService } from './RegistryIndexService';
+
+suite('RegistryIndexGenerator Tests', () => {
+    let rootPath: string;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-index-'));
+        await fs.mkdir(path.join(rootPath, 'code-formatting', 'languages'), { recursive: true });
+        await fs.mkdir(path.join(rootPath, 'practices'), { recursive: true });
+        await fs.mkdir(path.join(rootPath, 'templates'), { recursive: true });
+        await fs.writeFile(path.join(rootPath, 'categories.json'), JSON.stringify({
+            categories: [
+                { id: 'practices', label: 'Practices', description: '' },
+                { id: 'code-formatting', label: 'Code Formatting', description: '' },
+                { id: 'templates', label: 'Templates', description: '' }
+            ]
+        }));
+        await fs.writeFile(path.join(rootPath, 'practices', 'testing.md'),
+            '---\nversion: "2.0.0"\ndescription: Testing practices\ntags: ["testing"]\nfilePatterns: ["**/*.test.ts"]\n---\n# Testing\n');
+        await fs.writeFile(path.join(rootPath, 'practices', 'README.md'), '# Practices\n');
+        await fs.writeFile(path.join(rootPath, 'code-formatting', 'languages', 'typescript.md'), '# TypeScript\n');
+        await fs.writeFile(path.join(rootPath, 'templates', 'template.md'), '# Template\n');
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('generate should index every document with frontmatter and analyzed metadata', async () => {
+        const generated = await new RegistryIndexGenerator().generate(rootPath);
+
+        assert.deepStrictEqual(generated.entries.map(entry => entry.path), [
+            'code-formatting/languages/typescript.md',
+            'practices/testing.md'
+        ]);
+
+        const [typescript, testing] = generated.entries;
+        assert.strictEqual(testing.version, '2.0.0');
+        assert.strictEqual(testing.description, 'Testing practices');
+        assert.deepStrictEqual(testing.tags, ['testing'], 'Frontmatter values should be kept as written');
+        assert.deepStrictEqual(testing.filePatterns, ['**/*.test.ts']);
+        assert.ok(testing.applicableTo.length > 0, 'Missing fields should be filled in by metadata analysis');
+        // Same value as `git hash-object` for "# TypeScript\n"
+        assert.strictEqual(typescript.sha, 'd68c0843fec5035c90f493726380c4cd4f487ac9');
+        assert.deepStrictEqual(typescript.requiredDependencies, ['typescript']);
+        assert.ok(typescript.tags.includes('typescript'));
+    });
+
+    test('generate should report documents missing metadata', async () => {
+        const generator = new RegistryIndexGenerator();
+        const generated = await generator.generate(rootPath);
+
+        assert.deepStrictEqual(generated.gaps, [
+            { path: 'code-formatting/languages/typescript.md', missing: ['description', 'version', 'tags'] }
+        ]);
+        assert.match(generator.formatReport(generated), /\| code-formatting\/languages\/typescript\.md \| description, version, tags \|/);
+    });
+
+    test('generate should be deterministic and produce a valid index', async () => {
+        const generator = new RegistryIndexGenerator();
+        const first = await generator.generate(rootPath);
+        const second = await generator.generate(rootPath);
+
+        assert.strictEqual(first.content, second.content);
+
+        const parsed = new RegistryIndexService().parse(first.content);
+        assert.deepStrictEqual(parsed.problems, []);
+        assert.deepStrictEqual(parsed.entries, first.entries);
+    });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DocumentScanner } from './DocumentScanner';
+import { FrontmatterService } from './FrontmatterService';
+import { MetadataAnalyzer } from './MetadataAnalyzer';
+import { RegistryIndexService } from './RegistryIndexService';
+import { gitBlobSha } from '../utils/gitHash';
+import { RegistryIndexEntry, RegistryIndexGap } from '../models/types';
+
+/**
+ * Index generated from a registry checkout
+ */
+export interface GeneratedIndex {
+    // Content to write to index.json
+    content: string;
+    entries: RegistryIndexEntry[];
+    // Documents whose frontmatter lacks a description, version or tags
+    gaps: RegistryIndexGap[];
+}
+
+/**
+ * Service generating a registry's index.json from a local checkout
+ * Does not depend on the VS Code API so it can also run from the command line
+ */
+export class RegistryIndexGenerator {
+    constructor(
+        private readonly scanner: DocumentScanner = new DocumentScanner(),
+        private readonly analyzer: MetadataAnalyzer = new MetadataAnalyzer(),
+        private readonly frontmatterService: FrontmatterService = new FrontmatterService(),
+        private readonly registryIndexService: RegistryIndexService = new RegistryIndexService()
+    ) {}
+
+    /**
+     * Scan a registry checkout and build its index
+     * Frontmatter values are used as written; metadata analysis fills in the
+     * recommendation fields a document doesn't declare
+     * @param registryRoot Root folder of the registry
+     * @returns Index content, its entries and the documents missing metadata
+     */
+    async generate(registryRoot: string): Promise<GeneratedIndex> {
+        const root = path.resolve(registryRoot);
+        const locations = await this.scanner.scanRepository(root, await this.scanner.readCategories(root));
+
+        const entries: RegistryIndexEntry[] = [];
+        const gaps: RegistryIndexGap[] = [];
+
+        for (const location of locations) {
+            const data = await fs.readFile(location.path);
+            const { frontmatter, body } = this.frontmatterService.parse(data.toString('utf-8'));
+            const relativePath = path.relative(root, location.path).split(path.sep).join('/');
+            const metadata = this.analyzer.analyze({
+                documentPath: relativePath,
+                category: location.category,
+                subcategory: location.subcategory,
+                existingFrontmatter: frontmatter,
+                bodyContent: body
+            });
+
+            const version = typeof frontmatter.version === 'string' || typeof frontmatter.version === 'number'
+                ? String(frontmatter.version).trim()
+                : '';
+            const description = typeof frontmatter.description === 'string' ? frontmatter.description.trim() : '';
+            const tags = this.toStringList(frontmatter.tags);
+
+            const missing: RegistryIndexGap['missing'] = [];
+            if (!description) {
+                missing.push('description');
+            }
+            if (!version) {
+                missing.push('version');
+            }
+            if (!tags?.length) {
+                missing.push('tags');
+            }
+            if (missing.length > 0) {
+                gaps.push({ path: relativePath, missing });
+            }
+
+            entries.push({
+                name: path.posix.basename(relativePath),
+                path: relativePath,
+                category: location.category,
+                version: version || '1.0.0',
+                description,
+                sha: gitBlobSha(data),
+                size: data.length,
+                tags: tags?.length ? tags : metadata.enhancedTags ?? [],
+                applicableTo: this.toStringList(frontmatter.applicableTo) ?? metadata.applicableTo ?? [],
+                requiredDependencies: this.toStringList(frontmatter.requiredDependencies) ?? metadata.requiredDependencies ?? [],
+                filePatterns: this.toStringList(frontmatter.filePatterns) ?? metadata.filePatterns ?? []
+            });
+        }
+
+        const byPath = (a: { path: string }, b: { path: string }) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+        return {
+            content: this.registryIndexService.stringify(entries),
+            entries: entries.sort(byPath),
+            gaps: gaps.sort(byPath)
+        };
+    }
+
+    /**
+     * Describe the documents that are missing metadata
+     * @param generated Generated index
+     * @returns Markdown report
+     */
+    formatReport(generated: GeneratedIndex): string {
+        const lines = [
+            '# Registry Index Report',
+            '',
+            `${generated.entries.length} documents indexed, ${generated.gaps.length} missing metadata.`
+        ];
+
+        if (generated.gaps.length > 0) {
+            lines.push('', '| Document | Missing |', '| --- | --- |');
+            for (const gap of generated.gaps) {
+                lines.push(`| ${gap.path} | ${gap.missing.join(', ')} |`);
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Read a frontmatter list of strings
+     * @param value Frontmatter value
+     * @returns The strings, or undefined if the value isn't a list
+     */
+    private toStringList(value: unknown): string[] | undefined {
+        return Array.isArray(value)
+            ? value.filter((element): element is string => typeof element === 'string')
+            : undefined;
+    }
+}
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { RegistryIndexService } from './RegistryIndexService';
+
+const SHA = 'ce013625030ba8dba906f756967f9e9ca394464a';
+
+suite('RegistryIndexService Tests', () => {
+    const service = new RegistryIndexService();
+
+    test('parse should apply defaults to optional fields', () => {
+        const result = service.parse(JSON.stringify({
+            version: 1,
+            documents: [
+                { name: 'jest.md', path: 'testing/jest.md', category: 'testing', sha: SHA },
+                {
+                    name: 'api.md',
+                    path: 'practices/rest/api.md',
+                    category: 'practices',
+                    sha: SHA,
+                    version: '2.1.0',
+                    description: 'REST API design',
+                    size: 120,
+                    tags: ['api'],
+                    applicableTo: ['backend'],
+                    requiredDependencies: ['express'],
+                    filePatterns: ['**/routes/**']
+                }
+            ]
+        }));
+
+        assert.deepStrictEqual(result.problems, []);
+        assert.deepStrictEqual(result.entries?.[0], {
+            name: 'jest.md',
+            path: 'testing/jest.md',
+            category: 'testing',
+            version: '1.0.0',
+            description: '',
+            sha: SHA,
+            tags: [],
+            applicableTo: [],
+            requiredDependencies: [],
+            filePatterns: []
+        });
+        assert.strictEqual(result.entries?.[1].version, '2.1.0');
+        assert.strictEqual(result.entries?.[1].size, 120);
+        assert.deepStrictEqual(result.entries?.[1].filePatterns, ['**/routes/**']);
+    });
+
+    test('parse should report malformed entries instead of dropping them silently', () => {
+        const result = service.parse(JSON.stringify({
+            documents: [
+                { name: 'jest.md', path: 'testing/jest.md', category: 'testing', sha: SHA, tags: 'testing' },
+                { name: 'other.md', path: 'testing/mocha.md', category: 'testing', sha: SHA },
+                { name: 'evil.md', path: '../evil.md', category: 'testing', sha: SHA },
+                { name: 'jest.md', path: 'testing/jest.md', category: 'testing', sha: SHA },
+                { name: 'vitest.md', path: 'testing/vitest.md', category: 'testing' },
+                'testing/cypress.md'
+            ]
+        }));
+
+        assert.deepStrictEqual(result.entries?.map(entry => entry.path), ['testing/jest.md']);
+        assert.deepStrictEqual(result.entries?.[0].tags, [], 'An invalid optional field should fall back to its default');
+        assert.deepStrictEqual(result.problems.map(problem => problem.location), [
+            'documents[0] (testing/jest.md)',
+            'documents[1] (testing/mocha.md)',
+            'documents[2] (../evil.md)',
+            'documents[3] (testing/jest.md)',
+            'documents[4] (testing/vitest.md)',
+            'documents[5]'
+        ]);
+        assert.match(result.problems[1].message, /"name" must be the file name/);
+        assert.match(result.problems[3].message, /Duplicate path/);
+        assert.match(result.problems[4].message, /"sha"/);
+    });
+
+    test('parse should reject indexes it cannot use', () => {
+        for (const content of ['{ not json', '[]', '{"documents": {}}', '{"version": 2, "documents": []}']) {
+            const result = service.parse(content);
+            assert.strictEqual(result.entries, undefined, content);
+            assert.strictEqual(result.problems.length, 1, content);
+            assert.strictEqual(result.problems[0].location, 'index.json');
+        }
+    });
+});
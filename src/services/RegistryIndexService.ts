@@ -0,0 +1,222 @@
+import * as path from 'path';
+import { RegistryIndexEntry, RegistryIndexProblem } from '../models/types';
+
+/**
+ * Path of the index file at the root of a registry
+ */
+export const INDEX_FILE = 'index.json';
+
+/**
+ * Version of the index layout understood by this extension
+ */
+export const INDEX_FORMAT_VERSION = 1;
+
+/**
+ * Result of validating an index.json
+ */
+export interface RegistryIndexResult {
+    // Valid entries, or undefined when the index as a whole can't be used
+    entries?: RegistryIndexEntry[];
+    problems: RegistryIndexProblem[];
+}
+
+/**
+ * Optional string list fields of an index entry
+ */
+const LIST_FIELDS = ['tags', 'applicableTo', 'requiredDependencies', 'filePatterns'] as const;
+
+/**
+ * Service for reading and validating registry index files
+ *
+ * An index lists every document of a registry with the metadata otherwise parsed from
+ * each document's frontmatter, so the whole catalog loads with a single request:
+ *
+ * { "version": 1, "documents": [{ "name": "jest.md", "path": "testing/jest.md", "category": "testing", "sha": "…", … }] }
+ */
+export class RegistryIndexService {
+    /**
+     * Parse and validate the content of an index.json
+     * Entries missing required fields are skipped, invalid optional fields fall back to
+     * their defaults; both are reported as problems
+     * @param content Raw content of the index file
+     * @returns Valid entries and the problems found
+     */
+    parse(content: string): RegistryIndexResult {
+        let index: any;
+        try {
+            index = JSON.parse(content);
+        } catch (error) {
+            return this.unusable(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (!index || typeof index !== 'object' || Array.isArray(index)) {
+            return this.unusable('Expected an object with a "documents" array');
+        }
+
+        if (index.version !== undefined &&
+            (!Number.isInteger(index.version) || index.version < 1 || index.version > INDEX_FORMAT_VERSION)) {
+            return this.unusable(`Unsupported index version ${JSON.stringify(index.version)} (supported: ${INDEX_FORMAT_VERSION})`);
+        }
+
+        if (!Array.isArray(index.documents)) {
+            return this.unusable('"documents" must be an array');
+        }
+
+        const entries: RegistryIndexEntry[] = [];
+        const problems: RegistryIndexProblem[] = [];
+        const seenPaths = new Set<string>();
+
+        for (const [position, item] of index.documents.entries()) {
+            const location = typeof item?.path === 'string'
+                ? `documents[${position}] (${item.path})`
+                : `documents[${position}]`;
+            const report = (message: string) => problems.push({ location, message });
+
+            const entry = this.validateEntry(item, report);
+            if (!entry) {
+                continue;
+            }
+
+            if (seenPaths.has(entry.path)) {
+                report('Duplicate path, entry skipped');
+                continue;
+            }
+            seenPaths.add(entry.path);
+            entries.push(entry);
+        }
+
+        return { entries, problems };
+    }
+
+    /**
+     * Serialize index entries into the content of an index.json
+     * Entries are sorted by path and keys written in a fixed order, so the same
+     * registry always produces the same file
+     * @param entries Index entries
+     * @returns JSON content ending with a newline
+     */
+    stringify(entries: RegistryIndexEntry[]): string {
+        const documents = [...entries]
+            .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+            .map(entry => ({
+                name: entry.name,
+                path: entry.path,
+                category: entry.category,
+                version: entry.version,
+                description: entry.description,
+                sha: entry.sha,
+                ...(entry.size !== undefined ? { size: entry.size } : {}),
+                tags: entry.tags,
+                applicableTo: entry.applicableTo,
+                requiredDependencies: entry.requiredDependencies,
+                filePatterns: entry.filePatterns
+            }));
+
+        return `${JSON.stringify({ version: INDEX_FORMAT_VERSION, documents }, null, 2)}\n`;
+    }
+
+    /**
+     * Validate a single index entry
+     * @param item Raw entry from the documents array
+     * @param report Records a problem with the entry
+     * @returns The entry with defaults applied, or undefined if a required field is invalid
+     */
+    private validateEntry(item: any, report: (message: string) => void): RegistryIndexEntry | undefined {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            report('Expected an object, entry skipped');
+            return undefined;
+        }
+
+        const missing: string[] = [];
+        if (!this.isDocumentPath(item.path)) {
+            missing.push('"path" must be a relative path to a .md file');
+        }
+        if (typeof item.name !== 'string' || !item.name) {
+            missing.push('"name" is required');
+        } else if (typeof item.path === 'string' && item.name !== path.posix.basename(item.path)) {
+            missing.push(`"name" must be the file name of "path" (${path.posix.basename(item.path)})`);
+        }
+        if (typeof item.category !== 'string' || !item.category.trim()) {
+            missing.push('"category" is required');
+        }
+        if (typeof item.sha !== 'string' || !/^[0-9a-f]{40}([0-9a-f]{24})?$/.test(item.sha)) {
+            missing.push('"sha" must be the git blob SHA of the document');
+        }
+
+        if (missing.length > 0) {
+            report(`${missing.join('; ')}, entry skipped`);
+            return undefined;
+        }
+
+        const entry: RegistryIndexEntry = {
+            name: item.name,
+            path: item.path,
+            category: item.category.trim(),
+            version: '1.0.0',
+            description: '',
+            sha: item.sha,
+            tags: [],
+            applicableTo: [],
+            requiredDependencies: [],
+            filePatterns: []
+        };
+
+        if (item.version !== undefined) {
+            if (typeof item.version === 'string' && item.version.trim()) {
+                entry.version = item.version.trim();
+            } else {
+                report('"version" must be a string, using 1.0.0');
+            }
+        }
+
+        if (item.description !== undefined) {
+            if (typeof item.description === 'string') {
+                entry.description = item.description;
+            } else {
+                report('"description" must be a string, ignored');
+            }
+        }
+
+        if (item.size !== undefined) {
+            if (Number.isInteger(item.size) && item.size >= 0) {
+                entry.size = item.size;
+            } else {
+                report('"size" must be a non-negative integer, ignored');
+            }
+        }
+
+        for (const field of LIST_FIELDS) {
+            const value = item[field];
+            if (value === undefined) {
+                continue;
+            }
+            if (Array.isArray(value) && value.every(element => typeof element === 'string')) {
+                entry[field] = value;
+            } else {
+                report(`"${field}" must be an array of strings, ignored`);
+            }
+        }
+
+        return entry;
+    }
+
+    /**
+     * Check that a value is a registry-relative markdown path
+     * @param value Path from the index
+     */
+    private isDocumentPath(value: unknown): value is string {
+        return typeof value === 'string' &&
+            value.endsWith('.md') &&
+            !value.startsWith('/') &&
+            !value.includes('\\') &&
+            !value.split('/').some(segment => segment === '..' || segment === '');
+    }
+
+    /**
+     * Build the result for an index that can't be used at all
+     * @param message Description of the problem
+     */
+    private unusable(message: string): RegistryIndexResult {
+        return { problems: [{ location: INDEX_FILE, message }] };
+    }
+}
@@ -0,0 +1,53 @@
+import { CacheManager } from './CacheManager';
+import { GitHubClient } from './GitHubClient';
+import { GitLabClient } from './GitLabClient';
+import { GiteaClient } from './GiteaClient';
+import { LocalFolderClient } from './LocalFolderClient';
+import { BundleClient } from './BundleClient';
+import { NetworkSettings, SourceConfig, SourceProvider, TokenSupplier } from '../models/types';
+
+/**
+ * Creates the source provider matching a source's hosting service
+ */
+export class SourceProviderFactory {
+    /**
+     * @param responseCache Cache shared by the HTTP providers for conditional requests
+     * @param network Supplier of the current proxy and TLS settings
+     */
+    constructor(
+        private readonly responseCache?: CacheManager,
+        private readonly network?: () => NetworkSettings
+    ) {}
+
+    /**
+     * Create a provider for a configured source
+     * @param source Source configuration
+     * @param tokenSupplier Supplier of the source's current token; defaults to the token from settings
+     * @returns Provider for the source's hosting service
+     */
+    create(source: SourceConfig, tokenSupplier?: TokenSupplier): SourceProvider {
+        // A pinned tag or commit replaces the branch in every request
+        const ref = source.ref || source.branch;
+        const token = tokenSupplier || source.token;
+
+        switch (source.type) {
+            case 'gitlab':
+                return new GitLabClient(source.repository, ref, token, source.baseUrl, this.responseCache, this.network);
+            case 'gitea':
+                return new GiteaClient(source.repository, ref, token, source.baseUrl, this.responseCache, this.network);
+            case 'local':
+                return new LocalFolderClient(source.repository);
+            case 'bundle':
+                return new BundleClient(source.repository);
+            case 'github':
+            default:
+                return new GitHubClient(source.repository, ref, token, {
+                    baseUrl: source.baseUrl,
+                    apiBaseUrl: source.apiBaseUrl,
+                    rawBaseUrl: source.rawBaseUrl,
+                    responseCache: this.responseCache,
+                    network: this.network
+                });
+        }
+    }
+}
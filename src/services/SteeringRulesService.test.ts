@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SteeringRulesService, RULES_FILE } from './SteeringRulesService';
+import { MetadataAnalyzer } from './MetadataAnalyzer';
+import { DocumentMatcher } from './DocumentMatcher';
+import { DEFAULT_RULES } from '../models/metadataRules';
+import { DocumentMetadata, ProjectType, WorkspaceContext } from '../models/types';
+
+const PRISMA_RULES = {
+    frameworks: {
+        prisma: {
+            keywords: ['Prisma-ORM'],
+            packages: ['prisma', '@prisma/client'],
+            applicableTo: ['api-server'],
+            filePatterns: ['prisma/schema.prisma'],
+            enhancedTags: ['prisma', 'orm']
+        }
+    }
+};
+
+suite('SteeringRulesService Tests', () => {
+    let rootPath: string;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'steering-rules-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('parse should add, extend and remove rules', () => {
+        const result = new SteeringRulesService().parse(JSON.stringify({
+            ...PRISMA_RULES,
+            languages: { css: null },
+            practices: { security: { filePatterns: ['**/auth/**'] } }
+        }));
+
+        assert.deepStrictEqual(result.problems, []);
+        assert.deepStrictEqual(result.rules.frameworks.prisma.keywords, ['prisma-orm'], 'Keywords should be lowercased');
+        assert.deepStrictEqual(result.rules.frameworks.prisma.packages, ['prisma', '@prisma/client']);
+        assert.strictEqual(result.rules.languages.css, undefined);
+        assert.deepStrictEqual(result.rules.practices.security.filePatterns, ['**/auth/**']);
+        assert.deepStrictEqual(
+            result.rules.practices.security.enhancedTags,
+            DEFAULT_RULES.practices.security.enhancedTags,
+            'Fields not in the file should keep their built-in values'
+        );
+        assert.ok(DEFAULT_RULES.languages.css, 'Built-in rules should not be modified');
+    });
+
+    test('parse should skip invalid rules and fields and report them', () => {
+        const result = new SteeringRulesService().parse(JSON.stringify({
+            frameworks: {
+                remix: { packages: '@remix-run', confidence: 2, enhancedTags: ['remix'], detect: true },
+                trpc: 'yes'
+            },
+            practices: { linting: { applicableTo: ['website'] } },
+            tools: {}
+        }));
+
+        assert.deepStrictEqual(result.problems.map(problem => problem.location), [
+            'frameworks.remix',
+            'frameworks.remix',
+            'frameworks.remix',
+            'frameworks.trpc',
+            'practices.linting',
+            'tools'
+        ]);
+        assert.deepStrictEqual(result.rules.frameworks.remix, { enhancedTags: ['remix'] });
+        assert.strictEqual(result.rules.frameworks.trpc, undefined);
+
+        const invalid = new SteeringRulesService().parse('{ "frameworks": ');
+        assert.strictEqual(invalid.rules, DEFAULT_RULES);
+        assert.strictEqual(invalid.problems[0].location, RULES_FILE);
+    });
+
+    test('load should read the workspace rules file and fall back to the built-in rules', async () => {
+        const service = new SteeringRulesService();
+
+        assert.deepStrictEqual(await service.load(rootPath), []);
+        assert.strictEqual(service.getRules(), DEFAULT_RULES);
+
+        await fs.mkdir(path.join(rootPath, '.kiro'));
+        await fs.writeFile(path.join(rootPath, RULES_FILE), JSON.stringify(PRISMA_RULES));
+        assert.deepStrictEqual(await service.load(rootPath), []);
+        assert.ok(service.getRules().frameworks.prisma);
+
+        await fs.rm(path.join(rootPath, RULES_FILE));
+        await service.load(rootPath);
+        assert.strictEqual(service.getRules(), DEFAULT_RULES);
+    });
+
+    test('custom rules should be used by the metadata analyzer and the document matcher', async () => {
+        await fs.mkdir(path.join(rootPath, '.kiro'));
+        await fs.writeFile(path.join(rootPath, RULES_FILE), JSON.stringify(PRISMA_RULES));
+        const service = new SteeringRulesService();
+        await service.load(rootPath);
+
+        const metadata = new MetadataAnalyzer(service).analyze({
+            documentPath: 'code-formatting/frameworks/prisma.md',
+            category: 'code-formatting',
+            subcategory: 'frameworks',
+            existingFrontmatter: {},
+            bodyContent: '# Prisma'
+        });
+        assert.deepStrictEqual(metadata.enhancedTags, ['prisma', 'orm']);
+        assert.deepStrictEqual(metadata.applicableTo, [ProjectType.API_SERVER]);
+
+        const document = { name: 'prisma.md', tags: ['prisma-orm'] } as DocumentMetadata;
+        const context: WorkspaceContext = {
+            languages: [],
+            frameworks: [{ name: 'prisma', version: '5.0.0', confidence: 0.9 }],
+            dependencies: [],
+            filePatterns: [],
+            hasTests: false,
+            projectType: ProjectType.API_SERVER,
+            installedDocs: []
+        };
+        const scored = new DocumentMatcher(service).scoreDocument(document, context);
+        assert.deepStrictEqual(scored.reasons.map(reason => reason.type), ['framework']);
+    });
+});
@@ -0,0 +1,214 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DEFAULT_RULES } from '../models/metadataRules';
+import { ProjectType, SteeringRule, SteeringRules, SteeringRulesProblem } from '../models/types';
+import { isErrnoException } from '../utils/fileSystem';
+
+/**
+ * Path of the rules file, relative to the workspace root
+ */
+export const RULES_FILE = '.kiro/steering-rules.json';
+
+/**
+ * Result of validating a rules file
+ */
+export interface SteeringRulesResult {
+    // Built-in rules extended by the valid parts of the file
+    rules: SteeringRules;
+    problems: SteeringRulesProblem[];
+}
+
+/**
+ * Rule groups of a rules file
+ */
+const RULE_GROUPS: Array<keyof SteeringRules> = ['languages', 'frameworks', 'practices'];
+
+/**
+ * String list fields of a rule
+ */
+const LIST_FIELDS = ['keywords', 'packages', 'requiredDependencies', 'filePatterns', 'enhancedTags'] as const;
+
+/**
+ * Service holding the language, framework and practice rules used by metadata analysis,
+ * workspace detection and document matching
+ *
+ * A workspace extends the built-in rules with a .kiro/steering-rules.json. Rules with a
+ * new id are added, fields of a built-in rule replace the built-in values and null
+ * removes a built-in rule:
+ *
+ * { "frameworks": { "prisma": { "packages": ["prisma", "@prisma/client"], "enhancedTags": ["prisma", "orm"] } } }
+ *
+ * Does not depend on the VS Code API so it can also run from the command line
+ */
+export class SteeringRulesService {
+    private rules: SteeringRules = DEFAULT_RULES;
+
+    /**
+     * Get the current rules
+     * @returns Built-in rules extended by the last loaded rules file
+     */
+    getRules(): SteeringRules {
+        return this.rules;
+    }
+
+    /**
+     * Load the rules file of a workspace, replacing the current rules
+     * A missing file restores the built-in rules
+     * @param workspaceRoot Workspace root, or undefined if no workspace is open
+     * @returns Problems found in the rules file
+     */
+    async load(workspaceRoot: string | undefined): Promise<SteeringRulesProblem[]> {
+        if (!workspaceRoot) {
+            this.rules = DEFAULT_RULES;
+            return [];
+        }
+
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(workspaceRoot, RULES_FILE), 'utf-8');
+        } catch (error) {
+            this.rules = DEFAULT_RULES;
+            return isErrnoException(error) && error.code === 'ENOENT'
+                ? []
+                : [{ location: RULES_FILE, message: `Failed to read file: ${error instanceof Error ? error.message : error}` }];
+        }
+
+        const { rules, problems } = this.parse(content);
+        this.rules = rules;
+        return problems;
+    }
+
+    /**
+     * Parse and validate the content of a rules file and merge it with the built-in rules
+     * Invalid rules and fields are skipped and reported as problems
+     * @param content Raw content of the rules file
+     * @returns Merged rules and the problems found
+     */
+    parse(content: string): SteeringRulesResult {
+        let file: any;
+        try {
+            file = JSON.parse(content);
+        } catch (error) {
+            return this.unusable(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (!file || typeof file !== 'object' || Array.isArray(file)) {
+            return this.unusable('Expected an object with "languages", "frameworks" or "practices"');
+        }
+
+        const rules: SteeringRules = {
+            languages: { ...DEFAULT_RULES.languages },
+            frameworks: { ...DEFAULT_RULES.frameworks },
+            practices: { ...DEFAULT_RULES.practices }
+        };
+        const problems: SteeringRulesProblem[] = [];
+
+        for (const [group, value] of Object.entries(file)) {
+            if (group === '$schema') {
+                continue;
+            }
+            if (!RULE_GROUPS.includes(group as keyof SteeringRules)) {
+                problems.push({ location: group, message: `Unknown group, expected one of ${RULE_GROUPS.join(', ')}` });
+                continue;
+            }
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                problems.push({ location: group, message: 'Expected an object of rules keyed by id' });
+                continue;
+            }
+
+            const groupRules = rules[group as keyof SteeringRules];
+            for (const [id, item] of Object.entries(value)) {
+                if (item === null) {
+                    delete groupRules[id];
+                    continue;
+                }
+
+                const rule = this.validateRule(item, message => problems.push({ location: `${group}.${id}`, message }));
+                if (rule) {
+                    groupRules[id] = { ...groupRules[id], ...rule };
+                }
+            }
+        }
+
+        return { rules, problems };
+    }
+
+    /**
+     * Find the first current rule of a group whose keywords appear in any of the given texts
+     * @param group Rule group
+     * @param texts Lowercase texts, such as a document path or body
+     * @returns Id and rule, or undefined if no rule matches
+     */
+    findRule(group: keyof SteeringRules, ...texts: string[]): { id: string; rule: SteeringRule } | undefined {
+        for (const [id, rule] of Object.entries(this.rules[group])) {
+            if (this.getKeywords(id, rule).some(keyword => texts.some(text => text.includes(keyword)))) {
+                return { id, rule };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Get the names a rule is known by
+     * @param id Rule id
+     * @param rule Rule
+     * @returns The lowercase id followed by the rule's keywords
+     */
+    getKeywords(id: string, rule: SteeringRule | undefined): string[] {
+        return [id.toLowerCase(), ...(rule?.keywords ?? [])];
+    }
+
+    /**
+     * Validate a single rule
+     * @param item Raw rule from the file
+     * @param report Records a problem with the rule
+     * @returns The valid fields of the rule, or undefined if it isn't an object
+     */
+    private validateRule(item: unknown, report: (message: string) => void): SteeringRule | undefined {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            report('Expected an object or null, rule skipped');
+            return undefined;
+        }
+
+        const rule: SteeringRule = {};
+        const projectTypes = Object.values(ProjectType) as string[];
+
+        for (const [field, value] of Object.entries(item)) {
+            if ((LIST_FIELDS as readonly string[]).includes(field)) {
+                if (!Array.isArray(value) || !value.every(element => typeof element === 'string' && element.trim())) {
+                    report(`"${field}" must be a list of non-empty strings, field ignored`);
+                    continue;
+                }
+                const list = value.map(element => element.trim());
+                rule[field as typeof LIST_FIELDS[number]] = field === 'keywords'
+                    ? list.map(keyword => keyword.toLowerCase())
+                    : list;
+            } else if (field === 'applicableTo') {
+                if (!Array.isArray(value) || !value.every(element => projectTypes.includes(element))) {
+                    report(`"applicableTo" must be a list of ${projectTypes.join(', ')}, field ignored`);
+                    continue;
+                }
+                rule.applicableTo = value as ProjectType[];
+            } else if (field === 'confidence') {
+                if (typeof value !== 'number' || value < 0 || value > 1) {
+                    report('"confidence" must be a number between 0 and 1, field ignored');
+                    continue;
+                }
+                rule.confidence = value;
+            } else {
+                report(`Unknown field "${field}" ignored`);
+            }
+        }
+
+        return rule;
+    }
+
+    /**
+     * Build the result of a rules file that can't be used at all
+     * @param message Description of the problem
+     * @returns The built-in rules with a single problem
+     */
+    private unusable(message: string): SteeringRulesResult {
+        return { rules: DEFAULT_RULES, problems: [{ location: RULES_FILE, message }] };
+    }
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TokenStore } from './TokenStore';
+import { SourceConfig } from '../models/types';
+
+/**
+ * Mock implementation of vscode.SecretStorage for testing
+ */
+class MockSecretStorage {
+    private storage = new Map<string, string>();
+    private listeners: Array<(event: { key: string }) => void> = [];
+
+    onDidChange = (listener: (event: { key: string }) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => undefined };
+    };
+
+    async get(key: string): Promise<string | undefined> {
+        return this.storage.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.storage.set(key, value);
+        this.listeners.forEach(listener => listener({ key }));
+    }
+
+    async delete(key: string): Promise<void> {
+        this.storage.delete(key);
+        this.listeners.forEach(listener => listener({ key }));
+    }
+}
+
+function createSource(id: string, token?: string): SourceConfig {
+    return { id, name: id, type: 'github', repository: `org/${id}`, branch: 'main', token };
+}
+
+suite('TokenStore Tests', () => {
+    let secrets: MockSecretStorage;
+    let tokenStore: TokenStore;
+
+    setup(() => {
+        secrets = new MockSecretStorage();
+        tokenStore = new TokenStore(secrets as unknown as vscode.SecretStorage);
+    });
+
+    teardown(() => {
+        tokenStore.dispose();
+    });
+
+    test('load should read stored tokens per source', async () => {
+        await secrets.store('steeringDocs.token.internal', 'ghp_internal');
+
+        await tokenStore.load(['default', 'internal']);
+
+        assert.strictEqual(tokenStore.getToken('internal'), 'ghp_internal');
+        assert.strictEqual(tokenStore.getToken('default'), undefined);
+        assert.strictEqual(tokenStore.hasToken('default'), false);
+    });
+
+    test('setToken and clearToken should update storage and notify listeners', async () => {
+        const changes: string[] = [];
+        tokenStore.onDidChange(sourceId => changes.push(sourceId));
+
+        await tokenStore.setToken('default', 'ghp_new');
+        assert.strictEqual(tokenStore.getToken('default'), 'ghp_new');
+        assert.strictEqual(await secrets.get('steeringDocs.token.default'), 'ghp_new');
+
+        await tokenStore.clearToken('default');
+        assert.strictEqual(tokenStore.getToken('default'), undefined);
+        assert.strictEqual(await secrets.get('steeringDocs.token.default'), undefined);
+        assert.deepStrictEqual(changes, ['default', 'default']);
+    });
+
+    test('importTokens should move setting tokens without overwriting stored ones', async () => {
+        await secrets.store('steeringDocs.token.internal', 'ghp_stored');
+        await tokenStore.load(['default', 'internal', 'community']);
+
+        const imported = await tokenStore.importTokens([
+            createSource('default', 'ghp_setting'),
+            createSource('internal', 'ghp_old_setting'),
+            createSource('community')
+        ]);
+
+        assert.strictEqual(imported, 1);
+        assert.strictEqual(await secrets.get('steeringDocs.token.default'), 'ghp_setting');
+        assert.strictEqual(tokenStore.getToken('internal'), 'ghp_stored');
+        assert.strictEqual(tokenStore.hasToken('community'), false);
+    });
+});
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { SourceConfig } from '../models/types';
+
+/**
+ * Value stored instead of a token when a source uses the VS Code GitHub sign-in
+ */
+const GITHUB_SESSION = 'github-session';
+
+/**
+ * Scopes requested from the GitHub authentication provider
+ */
+const GITHUB_SCOPES = ['repo'];
+
+/**
+ * Keeps source access tokens in VS Code's secret storage
+ * Tokens are loaded into memory so clients can read the current token synchronously on every request
+ */
+export class TokenStore implements vscode.Disposable {
+    private readonly keyPrefix = 'steeringDocs.token.';
+    private readonly tokens = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<string>();
+    private readonly subscriptions: vscode.Disposable[] = [];
+    private githubSessionToken: string | undefined;
+
+    /**
+     * Fired with the source id when a source's token changes
+     */
+    readonly onDidChange = this.changeEmitter.event;
+
+    /**
+     * @param secrets Secret storage of the extension context
+     */
+    constructor(private readonly secrets: vscode.SecretStorage) {
+        this.subscriptions.push(
+            secrets.onDidChange(async event => {
+                if (event.key.startsWith(this.keyPrefix)) {
+                    await this.loadToken(event.key.slice(this.keyPrefix.length));
+                }
+            })
+        );
+
+        // Pick up GitHub sign-ins and sign-outs made outside the extension
+        this.subscriptions.push(
+            vscode.authentication.onDidChangeSessions(async event => {
+                if (event.provider.id === 'github') {
+                    await this.refreshGitHubSession();
+                }
+            })
+        );
+    }
+
+    /**
+     * Load the stored tokens of the given sources
+     * @param sourceIds Ids of the configured sources
+     */
+    async load(sourceIds: string[]): Promise<void> {
+        await Promise.all(sourceIds.map(sourceId => this.loadToken(sourceId, false)));
+        if (this.usesGitHubSession()) {
+            await this.refreshGitHubSession(false);
+        }
+    }
+
+    /**
+     * Get the current token of a source
+     * @param sourceId Source id
+     * @param allowGitHubSession Whether the source may use the github.com session token; false for other hosts
+     * @returns Stored token or GitHub session token, or undefined if the source has none
+     */
+    getToken(sourceId: string, allowGitHubSession: boolean = true): string | undefined {
+        const token = this.tokens.get(sourceId);
+        if (token === GITHUB_SESSION) {
+            return allowGitHubSession ? this.githubSessionToken : undefined;
+        }
+        return token;
+    }
+
+    /**
+     * Check whether a source has a stored token or uses the GitHub sign-in
+     * @param sourceId Source id
+     * @returns True if a token is stored for the source
+     */
+    hasToken(sourceId: string): boolean {
+        return this.tokens.has(sourceId);
+    }
+
+    /**
+     * Check whether a source uses the VS Code GitHub sign-in
+     * @param sourceId Source id
+     * @returns True if the source's token comes from the GitHub session
+     */
+    isGitHubSession(sourceId: string): boolean {
+        return this.tokens.get(sourceId) === GITHUB_SESSION;
+    }
+
+    /**
+     * Store a personal access token for a source
+     * @param sourceId Source id
+     * @param token Access token
+     */
+    async setToken(sourceId: string, token: string): Promise<void> {
+        this.tokens.set(sourceId, token);
+        await this.secrets.store(this.getKey(sourceId), token);
+        this.changeEmitter.fire(sourceId);
+    }
+
+    /**
+     * Sign in with GitHub and use the session token for a source
+     * @param sourceId Source id
+     * @returns Label of the signed-in GitHub account
+     */
+    async useGitHubSession(sourceId: string): Promise<string> {
+        const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, { createIfNone: true });
+        this.githubSessionToken = session.accessToken;
+        await this.setToken(sourceId, GITHUB_SESSION);
+        return session.account.label;
+    }
+
+    /**
+     * Remove the stored token of a source
+     * @param sourceId Source id
+     */
+    async clearToken(sourceId: string): Promise<void> {
+        this.tokens.delete(sourceId);
+        await this.secrets.delete(this.getKey(sourceId));
+        this.changeEmitter.fire(sourceId);
+    }
+
+    /**
+     * Move tokens configured in settings into secret storage
+     * Sources that already have a stored token keep it unless overwrite is set
+     * @param sources Source configurations, with tokens read from settings
+     * @param overwrite Whether to replace stored tokens
+     * @returns Number of tokens moved
+     */
+    async importTokens(sources: SourceConfig[], overwrite: boolean = false): Promise<number> {
+        let imported = 0;
+
+        for (const source of sources) {
+            if (source.token && (overwrite || !this.tokens.has(source.id))) {
+                const changed = this.tokens.get(source.id) !== source.token;
+                this.tokens.set(source.id, source.token);
+                await this.secrets.store(this.getKey(source.id), source.token);
+                if (changed && overwrite) {
+                    this.changeEmitter.fire(source.id);
+                }
+                imported++;
+            }
+        }
+
+        return imported;
+    }
+
+    /**
+     * Dispose of the listeners
+     */
+    dispose(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.dispose();
+        }
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Read a source's token from secret storage
+     * @param sourceId Source id
+     * @param notify Whether to fire the change event when the token changed
+     */
+    private async loadToken(sourceId: string, notify: boolean = true): Promise<void> {
+        const token = await this.secrets.get(this.getKey(sourceId));
+        if (token === this.tokens.get(sourceId)) {
+            return;
+        }
+
+        if (token) {
+            this.tokens.set(sourceId, token);
+        } else {
+            this.tokens.delete(sourceId);
+        }
+
+        if (token === GITHUB_SESSION && !this.githubSessionToken) {
+            await this.refreshGitHubSession(false);
+        }
+        if (notify) {
+            this.changeEmitter.fire(sourceId);
+        }
+    }
+
+    /**
+     * Read the token of the existing GitHub session without prompting the user
+     * @param notify Whether to fire the change event for sources using the session
+     */
+    private async refreshGitHubSession(notify: boolean = true): Promise<void> {
+        let token: string | undefined;
+        try {
+            const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, { silent: true });
+            token = session?.accessToken;
+        } catch (error) {
+            console.warn('[TokenStore] Failed to read the GitHub session:', error);
+        }
+
+        if (token === this.githubSessionToken) {
+            return;
+        }
+
+        this.githubSessionToken = token;
+        if (notify) {
+            for (const [sourceId, value] of this.tokens) {
+                if (value === GITHUB_SESSION) {
+                    this.changeEmitter.fire(sourceId);
+                }
+            }
+        }
+    }
+
+    /**
+     * Check whether any source uses the GitHub sign-in
+     * @returns True if a source's token comes from the GitHub session
+     */
+    private usesGitHubSession(): boolean {
+        return [...this.tokens.values()].includes(GITHUB_SESSION);
+    }
+
+    /**
+     * Get the secret storage key of a source's token
+     * @param sourceId Source id
+     * @returns Secret key
+     */
+    private getKey(sourceId: string): string {
+        return `${this.keyPrefix}${sourceId}`;
+    }
+}
@@ -121,6 +121,25 @@ suite('WorkspaceAnalysisCache Tests', () => {
         assert.strictEqual(analyzeCallCount, 4);
     });
 
+    test('getState should describe the cached analysis and clear should drop it', async () => {
+        const workspaceRoot = '/test/workspace';
+        assert.deepStrictEqual(cache.getState(workspaceRoot), {
+            context: undefined, analyzedAt: undefined, expiresAt: undefined, watching: false
+        });
+
+        await cache.analyze(workspaceRoot);
+        const state = cache.getState(workspaceRoot);
+        assert.deepStrictEqual(state.context, mockContext);
+        assert.strictEqual(state.expiresAt! - state.analyzedAt!, 5 * 60 * 1000);
+        assert.strictEqual(state.watching, true);
+        assert.strictEqual(analyzeCallCount, 1, 'getState should not analyze the workspace');
+
+        cache.clear(workspaceRoot);
+        assert.strictEqual(cache.getState(workspaceRoot).context, undefined);
+        await cache.analyze(workspaceRoot);
+        assert.strictEqual(analyzeCallCount, 2);
+    });
+
     test('dispose should clean up resources', async () => {
         const workspaceRoot = '/test/workspace';
 
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { WorkspaceAnalyzer } from './WorkspaceAnalyzer';
-import { WorkspaceContext } from '../models/types';
+import { WorkspaceAnalysisCacheState, WorkspaceContext } from '../models/types';
 
 /**
  * Cache entry for workspace analysis results
@@ -52,6 +52,32 @@ export class WorkspaceAnalysisCache {
         return context;
     }
 
+    /**
+     * Describes the cached analysis of a workspace without analyzing it
+     * @param workspaceRoot Path to workspace root
+     * @returns Cached context and its age, if any
+     */
+    getState(workspaceRoot: string): WorkspaceAnalysisCacheState {
+        const cacheKey = this.getCacheKey(workspaceRoot);
+        const context = this.getCachedResult(cacheKey);
+        const entry = context ? this.cache.get(cacheKey) : undefined;
+
+        return {
+            context,
+            analyzedAt: entry?.timestamp,
+            expiresAt: entry ? entry.timestamp + this.CACHE_TTL_MS : undefined,
+            watching: this.watchedWorkspaces.has(workspaceRoot)
+        };
+    }
+
+    /**
+     * Clears the cached result of a workspace, so the next analysis starts fresh
+     * @param workspaceRoot Path to workspace root
+     */
+    clear(workspaceRoot: string): void {
+        this.invalidateCache(this.getCacheKey(workspaceRoot));
+    }
+
     /**
      * Generates cache key based on workspace root path
      * @param workspaceRoot Workspace root path
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceAnalyzer } from './WorkspaceAnalyzer';
+import { DependencyCategory, DependencyInfo, FrameworkInfo } from '../models/types';
+
+suite('WorkspaceAnalyzer Tests', () => {
+    let rootPath: string;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-analyzer-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    /**
+     * Analyze a package.json with the given dependencies, as name and version pairs
+     */
+    const analyzePackage = async (dependencies: Array<[string, string]>): Promise<{
+        dependencies: DependencyInfo[];
+        frameworks: FrameworkInfo[];
+    }> => {
+        const packagePath = path.join(rootPath, 'package.json');
+        await fs.writeFile(packagePath, JSON.stringify({ dependencies: Object.fromEntries(dependencies) }));
+        return (new WorkspaceAnalyzer() as any).analyzePackageJson(packagePath);
+    };
+
+    test('companion and scoped packages of a framework should be categorized as frameworks', async () => {
+        const { dependencies } = await analyzePackage([
+            ['react-dom', '^18.2.0'],
+            ['@nestjs/common', '^10.0.0'],
+            ['next-auth', '^4.24.0'],
+            ['@sveltejs/kit', '^2.0.0'],
+            ['@angular/router', '^17.0.0'],
+            ['lodash', '^4.17.21']
+        ]);
+
+        assert.deepStrictEqual(dependencies.map(dep => [dep.name, dep.category]), [
+            ['react-dom', DependencyCategory.FRAMEWORK],
+            ['@nestjs/common', DependencyCategory.FRAMEWORK],
+            ['next-auth', DependencyCategory.FRAMEWORK],
+            ['@sveltejs/kit', DependencyCategory.FRAMEWORK],
+            ['@angular/router', DependencyCategory.FRAMEWORK],
+            ['lodash', DependencyCategory.UTILITY]
+        ]);
+    });
+
+    test('a framework should be reported with the version of its own package', async () => {
+        const { frameworks } = await analyzePackage([
+            ['react-dom', '^18.2.0'],
+            ['react-router', '^6.20.0'],
+            ['react', '^18.3.0']
+        ]);
+
+        assert.deepStrictEqual(frameworks, [{ name: 'react', version: '^18.3.0', confidence: 0.9 }]);
+    });
+});
@@ -8,13 +8,22 @@ import {
     ProjectType,
     DependencyCategory,
     RecommendationError,
-    RecommendationErrorCode
+    RecommendationErrorCode,
+    SteeringRule
 } from '../models/types';
+import { SteeringRulesService } from './SteeringRulesService';
+
+/**
+ * Confidence of a framework detection when its rule doesn't specify one
+ */
+const DEFAULT_DETECTION_CONFIDENCE = 0.9;
 
 /**
  * Service for analyzing workspace context to support document recommendations
  */
 export class WorkspaceAnalyzer {
+    constructor(private readonly rulesService: SteeringRulesService = new SteeringRulesService()) {}
+
     /**
      * Analyzes the workspace and returns comprehensive context information
      * @param workspaceRoot Path to the workspace root directory
@@ -134,9 +143,9 @@ export class WorkspaceAnalyzer {
      * @returns Dependency category
      */
     private categorizeDependency(name: string): DependencyCategory {
-        // Framework detection
-        const frameworks = ['react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'express', 'fastify', 'koa', 'hapi', 'nestjs'];
-        if (frameworks.some(fw => name.includes(fw))) {
+        // Framework detection, from the framework rules
+        const frameworkRules = Object.values(this.rulesService.getRules().frameworks);
+        if (frameworkRules.some(rule => this.matchesPackage(name, rule))) {
             return DependencyCategory.FRAMEWORK;
         }
 
@@ -163,28 +172,23 @@ export class WorkspaceAnalyzer {
      */
     private detectFrameworks(dependencies: DependencyInfo[]): FrameworkInfo[] {
         const frameworks: FrameworkInfo[] = [];
-        const frameworkMap = new Map<string, { version: string; confidence: number }>();
-
-        // Framework detection patterns
-        const frameworkPatterns: { [key: string]: { patterns: string[]; confidence: number } } = {
-            'react': { patterns: ['react'], confidence: 0.9 },
-            'vue': { patterns: ['vue'], confidence: 0.9 },
-            'angular': { patterns: ['@angular/core'], confidence: 0.9 },
-            'svelte': { patterns: ['svelte'], confidence: 0.9 },
-            'next.js': { patterns: ['next'], confidence: 0.95 },
-            'nuxt': { patterns: ['nuxt'], confidence: 0.95 },
-            'express': { patterns: ['express'], confidence: 0.85 },
-            'fastify': { patterns: ['fastify'], confidence: 0.85 },
-            'nestjs': { patterns: ['@nestjs/core'], confidence: 0.9 }
-        };
+        const frameworkMap = new Map<string, { version: string; confidence: number; exact: boolean }>();
+
+        // Frameworks are detected by the packages of their rules
+        const frameworkRules = this.rulesService.getRules().frameworks;
 
         for (const dep of dependencies) {
-            for (const [frameworkName, { patterns, confidence }] of Object.entries(frameworkPatterns)) {
-                if (patterns.some(pattern => dep.name === pattern || dep.name.startsWith(pattern + '/'))) {
-                    if (!frameworkMap.has(frameworkName) || frameworkMap.get(frameworkName)!.confidence < confidence) {
+            for (const [frameworkName, rule] of Object.entries(frameworkRules)) {
+                if (this.matchesPackage(dep.name, rule)) {
+                    const confidence = rule.confidence ?? DEFAULT_DETECTION_CONFIDENCE;
+                    // The version comes from a listed package rather than a companion package matching a scope or pattern
+                    const exact = rule.packages!.includes(dep.name);
+                    const current = frameworkMap.get(frameworkName);
+                    if (!current || current.confidence < confidence || (exact && !current.exact)) {
                         frameworkMap.set(frameworkName, {
                             version: dep.version,
-                            confidence
+                            confidence,
+                            exact
                         });
                     }
                 }
@@ -199,6 +203,18 @@ export class WorkspaceAnalyzer {
         return frameworks;
     }
 
+    /**
+     * Checks whether a dependency is one of the packages of a framework rule
+     * @param name Dependency name
+     * @param rule Framework rule
+     * @returns True if the dependency is a listed package, belongs to a listed scope or matches a prefix pattern
+     */
+    private matchesPackage(name: string, rule: SteeringRule): boolean {
+        return (rule.packages ?? []).some(pattern => pattern.endsWith('*')
+            ? name.startsWith(pattern.slice(0, -1))
+            : name === pattern || name.startsWith(pattern + '/'));
+    }
+
     /**
      * Analyzes file structure to detect patterns
      * @param workspaceRoot Path to workspace root
@@ -101,6 +101,11 @@ This is a test document for integration testing.
         return [];
     }
 
+    async getTree(): Promise<undefined> {
+        // Exercise the per-directory listing used when no tree is available
+        return undefined;
+    }
+
     async getFileContent(_path: string): Promise<string> {
         return this.mockContent;
     }
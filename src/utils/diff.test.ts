@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { formatUnifiedDiff, mergeLines } from './diff';
+
+suite('diff Tests', () => {
+    /**
+     * Merge with the labels used by every test
+     */
+    const merge = (base: string, ours: string, theirs: string) => mergeLines(base, ours, theirs, 'ours', 'theirs');
+
+    test('mergeLines should keep insertions at the start and the end', () => {
+        const result = merge('b\nc\n', 'a\nb\nc\n', 'b\nc\nd\n');
+
+        assert.deepStrictEqual(result, { text: 'a\nb\nc\nd\n', conflicts: 0 });
+    });
+
+    test('mergeLines should keep deletions made on one side', () => {
+        assert.deepStrictEqual(merge('a\nb\nc\n', 'a\nc\n', 'a\nb\nc\n'), { text: 'a\nc\n', conflicts: 0 });
+        assert.deepStrictEqual(merge('a\nb\nc\n', 'a\nb\nc\nd\n', 'b\nc\n'), { text: 'b\nc\nd\n', conflicts: 0 });
+    });
+
+    test('mergeLines should take the same change on both sides once', () => {
+        const result = merge('a\nb\nc\n', 'a\nB\nc\n', 'a\nB\nc\n');
+
+        assert.deepStrictEqual(result, { text: 'a\nB\nc\n', conflicts: 0 });
+    });
+
+    test('mergeLines should mark adjacent changes on both sides as one conflict', () => {
+        const result = merge('a\nb\nc\nd\n', 'a\nB\nc\nd\n', 'a\nb\nC\nd\n');
+
+        assert.strictEqual(result.conflicts, 1);
+        assert.strictEqual(result.text, 'a\n<<<<<<< ours\nB\nc\n=======\nb\nC\n>>>>>>> theirs\nd\n');
+    });
+
+    test('mergeLines should keep or add the trailing newline', () => {
+        assert.deepStrictEqual(merge('a\nb', 'A\nb', 'a\nb'), { text: 'A\nb', conflicts: 0 });
+        assert.deepStrictEqual(merge('a\nb', 'a\nb\n', 'A\nb'), { text: 'A\nb\n', conflicts: 0 });
+    });
+
+    test('formatUnifiedDiff should number hunks of pure additions and removals', () => {
+        assert.strictEqual(
+            formatUnifiedDiff('a\nb\n', 'a\nb\nc\n', 'old', 'new', 0),
+            '--- old\n+++ new\n@@ -2,0 +3,1 @@\n+c\n'
+        );
+        assert.strictEqual(
+            formatUnifiedDiff('a\nb\nc\n', 'a\nc\n', 'old', 'new', 0),
+            '--- old\n+++ new\n@@ -2,1 +1,0 @@\n-b\n'
+        );
+        assert.strictEqual(
+            formatUnifiedDiff('', 'a\n', 'old', 'new', 0),
+            '--- old\n+++ new\n@@ -0,0 +1,1 @@\n+a\n'
+        );
+    });
+
+    test('formatUnifiedDiff should show changed lines with their context', () => {
+        assert.strictEqual(
+            formatUnifiedDiff('a\nb\nc\nd\ne\n', 'a\nb\nC\nd\ne\n', 'old', 'new', 1),
+            '--- old\n+++ new\n@@ -2,3 +2,3 @@\n b\n-c\n+C\n d\n'
+        );
+    });
+
+    test('formatUnifiedDiff should return an empty string for equal texts', () => {
+        assert.strictEqual(formatUnifiedDiff('a\nb\n', 'a\nb\n', 'old', 'new'), '');
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * A line of a line-based diff
+ */
+export interface DiffLine {
+    type: 'equal' | 'add' | 'remove';
+    text: string;
+}
+
+/**
+ * Compute a line-based diff using the longest common subsequence
+ * @param oldText Original text
+ * @param newText Changed text
+ * @returns Lines of both texts in order, marked as kept, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    // lengths[i][j] = length of the common subsequence of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = a[i] === b[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'equal', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            lines.push({ type: 'remove', text: a[i++] });
+        } else {
+            lines.push({ type: 'add', text: b[j++] });
+        }
+    }
+    while (i < a.length) {
+        lines.push({ type: 'remove', text: a[i++] });
+    }
+    while (j < b.length) {
+        lines.push({ type: 'add', text: b[j++] });
+    }
+
+    return lines;
+}
+
+/**
+ * Format the changes between two texts as a unified diff
+ * @param oldText Original text
+ * @param newText Changed text
+ * @param oldLabel Name of the original shown in the --- header
+ * @param newLabel Name of the changed text shown in the +++ header
+ * @param context Number of unchanged lines shown around each change
+ * @returns Unified diff, or an empty string if the texts are equal
+ */
+export function formatUnifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    context: number = 3
+): string {
+    const lines = diffLines(oldText, newText);
+    const changed = lines.map((line, index) => (line.type === 'equal' ? -1 : index)).filter(index => index >= 0);
+    if (changed.length === 0) {
+        return '';
+    }
+
+    // Group changes whose context overlaps into hunks
+    const hunks: Array<{ start: number; end: number }> = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length, index + context + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && start <= last.end) {
+            last.end = end;
+        } else {
+            hunks.push({ start, end });
+        }
+    }
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let oldLine = 1;
+    let newLine = 1;
+    let position = 0;
+
+    for (const hunk of hunks) {
+        // Advance the line numbers to the start of the hunk
+        for (; position < hunk.start; position++) {
+            oldLine += lines[position].type !== 'add' ? 1 : 0;
+            newLine += lines[position].type !== 'remove' ? 1 : 0;
+        }
+
+        const body: string[] = [];
+        let oldCount = 0;
+        let newCount = 0;
+        for (; position < hunk.end; position++) {
+            const line = lines[position];
+            if (line.type === 'equal') {
+                body.push(` ${line.text}`);
+                oldCount++;
+                newCount++;
+            } else if (line.type === 'remove') {
+                body.push(`-${line.text}`);
+                oldCount++;
+            } else {
+                body.push(`+${line.text}`);
+                newCount++;
+            }
+        }
+
+        output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`, ...body);
+        oldLine += oldCount;
+        newLine += newCount;
+    }
+
+    return `${output.join('\n')}\n`;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+    text: string;
+    // Number of regions changed differently on both sides, marked with conflict markers
+    conflicts: number;
+}
+
+/**
+ * Merge the changes two texts made to a common base, line by line (diff3)
+ * Regions changed on one side only take that side's lines; regions changed differently
+ * on both sides are written with git-style conflict markers
+ * @param base Common ancestor
+ * @param ours Our changed text
+ * @param theirs Their changed text
+ * @param oursLabel Name of our side shown after <<<<<<<
+ * @param theirsLabel Name of their side shown after >>>>>>>
+ * @returns Merged text and the number of conflicts
+ */
+export function mergeLines(
+    base: string,
+    ours: string,
+    theirs: string,
+    oursLabel: string,
+    theirsLabel: string
+): MergeResult {
+    const baseLines = base.split('\n');
+    const ourLines = ours.split('\n');
+    const theirLines = theirs.split('\n');
+    const ourMatches = matchBaseLines(diffLines(base, ours), baseLines.length);
+    const theirMatches = matchBaseLines(diffLines(base, theirs), baseLines.length);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let i = 0;
+    let o = 0;
+    let t = 0;
+
+    while (true) {
+        // Find the next base line kept by both sides; everything before it is a changed region
+        let k = i;
+        while (k < baseLines.length && (ourMatches[k] < 0 || theirMatches[k] < 0)) {
+            k++;
+        }
+        const oEnd = k < baseLines.length ? ourMatches[k] : ourLines.length;
+        const tEnd = k < baseLines.length ? theirMatches[k] : theirLines.length;
+
+        const baseRegion = baseLines.slice(i, k);
+        const ourRegion = ourLines.slice(o, oEnd);
+        const theirRegion = theirLines.slice(t, tEnd);
+        if (sameLines(ourRegion, baseRegion) || sameLines(ourRegion, theirRegion)) {
+            output.push(...theirRegion);
+        } else if (sameLines(theirRegion, baseRegion)) {
+            output.push(...ourRegion);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${oursLabel}`, ...ourRegion, '=======', ...theirRegion, `>>>>>>> ${theirsLabel}`);
+        }
+
+        if (k >= baseLines.length) {
+            break;
+        }
+        output.push(baseLines[k]);
+        i = k + 1;
+        o = oEnd + 1;
+        t = tEnd + 1;
+    }
+
+    return { text: output.join('\n'), conflicts };
+}
+
+/**
+ * Map each base line to the index of the line it was kept as
+ * @param lines Diff from the base to a changed text
+ * @param baseLength Number of base lines
+ * @returns Index in the changed text per base line, or -1 for removed lines
+ */
+function matchBaseLines(lines: DiffLine[], baseLength: number): number[] {
+    const matches = new Array<number>(baseLength).fill(-1);
+    let i = 0;
+    let j = 0;
+    for (const line of lines) {
+        if (line.type === 'equal') {
+            matches[i++] = j++;
+        } else if (line.type === 'remove') {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+}
+
+/**
+ * Compare two lists of lines
+ */
+function sameLines(first: string[], second: string[]): boolean {
+    return first.length === second.length && first.every((line, index) => line === second[index]);
+}
@@ -0,0 +1,26 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Write a file through a temporary file, so readers never see a partly written file
+ * @param filePath Path of the file to write
+ * @param data File content, strings are written as UTF-8
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+        await fs.writeFile(tempPath, data);
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Check whether an error comes from a failed system call, such as a missing file
+ * @param error Caught error
+ * @returns True if the error carries a system error code
+ */
+export function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+    return error instanceof Error && 'code' in error;
+}
@@ -0,0 +1,54 @@
+/**
+ * Format a duration for display in messages and the status bar
+ * @param ms Duration in milliseconds
+ * @returns Compact duration such as "45s", "12 min" or "1 h 5 min"
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.ceil(ms / 1000));
+
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+
+    const minutes = Math.ceil(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes} min`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/**
+ * Format a size in bytes for display
+ * @param bytes Size in bytes
+ * @returns Compact size such as "512 B", "12.3 KB" or "4.5 MB"
+ */
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+
+    const kilobytes = bytes / 1024;
+    return kilobytes < 1024 ? `${kilobytes.toFixed(1)} KB` : `${(kilobytes / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Format how long ago something happened
+ * @param ms Elapsed time in milliseconds
+ * @returns "just now" under a minute, otherwise an age such as "12 min ago" or "1 h 5 min ago"
+ */
+export function formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    return minutes < 1 ? 'just now' : `${formatDuration(minutes * 60000)} ago`;
+}
+
+/**
+ * Format a git ref for display, shortening full commit SHAs
+ * @param ref Branch, tag or commit SHA
+ * @returns The ref, with 40-character SHAs shortened to 7 characters
+ */
+export function formatRef(ref: string): string {
+    return /^[0-9a-f]{40}$/i.test(ref) ? ref.substring(0, 7) : ref;
+}
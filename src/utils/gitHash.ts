@@ -0,0 +1,26 @@
+import * as crypto from 'crypto';
+
+/**
+ * Compute the git blob SHA-1 of file content, as reported by `git hash-object`
+ * and by hosting service APIs
+ * @param content File content
+ * @returns Hex encoded blob SHA
+ */
+export function gitBlobSha(content: string | Buffer): string {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    return crypto
+        .createHash('sha1')
+        .update(`blob ${data.length}\0`)
+        .update(data)
+        .digest('hex');
+}
+
+/**
+ * Compute the git blob SHA-1 of text content with CRLF line endings converted to LF,
+ * so a checkout that converted line endings hashes the same as the file that was written
+ * @param content Text content
+ * @returns Hex encoded blob SHA
+ */
+export function textBlobSha(content: string): string {
+    return gitBlobSha(content.replace(/\r\n/g, '\n'));
+}